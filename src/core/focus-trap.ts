@@ -1,6 +1,8 @@
 /**
  * Focus Trap - Accessible focus management
- * Properly traps focus within modal with full keyboard navigation support
+ * Properly traps focus within modal with full keyboard navigation support.
+ * Escape is ignored once something inside the container has called preventDefault() on it,
+ * so fields close their own popups on Escape without closing the modal.
  */
 
 const FOCUSABLE_SELECTORS = [
@@ -91,23 +93,25 @@ export function createFocusTrap(options: FocusTrapOptions): FocusTrap {
     return initialFocus;
   }
 
-  function handleKeyDown(event: KeyboardEvent) {
-    if (!active || paused) return;
+  // Escape is handled once the event has bubbled up, so a field inside the container
+  // (an open listbox or popup) can claim it first with preventDefault()
+  function handleEscape(event: KeyboardEvent) {
+    if (!active || paused || event.key !== 'Escape' || event.defaultPrevented) return;
 
-    // Handle Escape
-    if (event.key === 'Escape') {
-      event.preventDefault();
-      event.stopPropagation();
+    event.preventDefault();
+    event.stopPropagation();
 
-      if (onEscape) {
-        onEscape();
-      }
+    if (onEscape) {
+      onEscape();
+    }
 
-      if (escapeDeactivates) {
-        // Don't deactivate here - let the modal handle it
-      }
-      return;
+    if (escapeDeactivates) {
+      // Don't deactivate here - let the modal handle it
     }
+  }
+
+  function handleKeyDown(event: KeyboardEvent) {
+    if (!active || paused) return;
 
     // Handle Tab
     if (event.key === 'Tab') {
@@ -213,6 +217,7 @@ export function createFocusTrap(options: FocusTrapOptions): FocusTrap {
 
     // Add event listeners
     document.addEventListener('keydown', handleKeyDown, true);
+    document.addEventListener('keydown', handleEscape);
     document.addEventListener('focusin', handleFocusIn, true);
 
     // Focus initial element
@@ -232,6 +237,7 @@ export function createFocusTrap(options: FocusTrapOptions): FocusTrap {
 
     // Remove event listeners
     document.removeEventListener('keydown', handleKeyDown, true);
+    document.removeEventListener('keydown', handleEscape);
     document.removeEventListener('focusin', handleFocusIn, true);
 
     // Remove sentinels
@@ -11,6 +11,7 @@ import type {
   GlobalConfig,
   ButtonConfig,
   FormSchema,
+  SubmitHelpers,
 } from './types';
 
 import { createFocusTrap, FocusTrap } from './focus-trap';
@@ -24,8 +25,16 @@ import {
   announceLoading,
 } from './a11y';
 import { resolveAnimation, animateEnter, animateExit, createTimerAnimation, TimerAnimation } from './animation';
-import { render, RenderedModal, showLoadingState, hideLoadingState } from './renderer';
+import { render, patch, RenderedModal, showLoadingState, hideLoadingState } from './renderer';
 import { renderForm, FormController } from '../form/form-renderer';
+import { registerMessages, setValidationLocale } from '../form/messages';
+import {
+  beforeOpenHooks,
+  executeBeforeOpenHooks,
+  executeAfterOpenHooks,
+  executeBeforeCloseHooks,
+  executeAfterCloseHooks,
+} from '../plugins/hooks';
 
 // ============================================================================
 // Global State
@@ -35,6 +44,9 @@ const activeModals: Map<string, ModalController> = new Map();
 let globalConfig: GlobalConfig = {};
 let baseZIndex = 10000;
 
+/** Dismissals guarded by `confirmDiscard` */
+const DISCARD_GUARDED_REASONS: DismissReason[] = ['backdrop', 'escape', 'close'];
+
 /**
  * Set global configuration
  */
@@ -43,6 +55,12 @@ export function setGlobalConfig(config: GlobalConfig): void {
   if (config.baseZIndex !== undefined) {
     baseZIndex = config.baseZIndex;
   }
+  if ('locale' in config) {
+    setValidationLocale(config.locale);
+  }
+  for (const [locale, messages] of Object.entries(config.messages ?? {})) {
+    registerMessages(locale, messages);
+  }
 }
 
 /**
@@ -52,6 +70,15 @@ export function getGlobalConfig(): GlobalConfig {
   return { ...globalConfig };
 }
 
+/**
+ * Whether an updated form schema differs from the mounted one, beyond being a new object with the same settings
+ */
+function isFormChanged(previous?: FormSchema, next?: FormSchema): boolean {
+  if (!previous || !next) return previous !== next;
+  const keys = new Set([...Object.keys(previous), ...Object.keys(next)]) as Set<keyof FormSchema>;
+  return [...keys].some(key => previous[key] !== next[key]);
+}
+
 /**
  * Get next z-index for stacking
  */
@@ -82,13 +109,28 @@ interface ModalController {
 
 export async function modal<T = any>(options: ModalOptions<T>): Promise<ModalResult<T>> {
   // Merge with global defaults
-  const mergedOptions: ModalOptions<T> = {
+  const defaultedOptions: ModalOptions<T> = {
     ...globalConfig.defaults,
     ...options,
     a11y: { ...globalConfig.a11y, ...options.a11y },
     animation: options.animation ?? globalConfig.animation,
   };
 
+  // Plugin beforeOpen hooks may rewrite the options or cancel the modal. Without any,
+  // the modal is registered synchronously, so getActiveModals() sees it right after modal()
+  const pluginOptions = beforeOpenHooks.length > 0
+    ? await executeBeforeOpenHooks(defaultedOptions)
+    : defaultedOptions;
+  if (pluginOptions === false) {
+    return {
+      confirmed: false,
+      denied: false,
+      dismissed: true,
+      dismissReason: 'programmatic',
+    };
+  }
+  const mergedOptions = pluginOptions as ModalOptions<T>;
+
   // Determine container
   const containerSelector = mergedOptions.container || globalConfig.container || 'body';
   const container = typeof containerSelector === 'string'
@@ -111,8 +153,9 @@ export async function modal<T = any>(options: ModalOptions<T>): Promise<ModalRes
       eventListeners.push({ target, type, handler });
     }
 
-    // Track intervals for cleanup
+    // Track timers for cleanup
     let tickIntervalId: ReturnType<typeof setInterval> | null = null;
+    let timerTimeoutId: ReturnType<typeof setTimeout> | null = null;
 
     // Set z-index
     const zIndex = mergedOptions.zIndex ?? getNextZIndex();
@@ -143,6 +186,7 @@ export async function modal<T = any>(options: ModalOptions<T>): Promise<ModalRes
 
     // Form controller
     let formController: FormController | null = null;
+    let formContainer: HTMLElement | null = null;
 
     // Create instance (will be updated with form methods after controller is created)
     const instance: ModalInstance = {
@@ -165,12 +209,24 @@ export async function modal<T = any>(options: ModalOptions<T>): Promise<ModalRes
         setInputValue(value);
       },
 
-      showValidationError: (message) => {
-        showValidationMessage(message);
+      showValidationError: (message, field) => {
+        if (field && formController) {
+          showFieldErrors({ [field]: message });
+        } else if (formController) {
+          formController.setFormError(message);
+        } else {
+          showValidationMessage(message);
+        }
       },
 
-      clearValidationError: () => {
+      clearValidationError: (field) => {
+        if (field && formController) {
+          const { [field]: _removed, ...errors } = formController.getState().errors;
+          formController.setErrors(errors);
+          return;
+        }
         clearValidationMessage();
+        formController?.setFormError(null);
       },
 
       setButtonState: (button, state) => {
@@ -219,11 +275,8 @@ export async function modal<T = any>(options: ModalOptions<T>): Promise<ModalRes
       }
       eventListeners.length = 0;
 
-      // Clear tick interval
-      if (tickIntervalId) {
-        clearInterval(tickIntervalId);
-        tickIntervalId = null;
-      }
+      // Clear timer callbacks
+      stopTimer();
 
       // Destroy form controller
       if (formController) {
@@ -295,13 +348,39 @@ export async function modal<T = any>(options: ModalOptions<T>): Promise<ModalRes
       }
     }
 
+    let submitting = false;
+
     async function handleConfirm() {
+      // Ignore repeated clicks and Enter presses until this confirmation is over
+      if (submitting) return;
+      submitting = true;
+      setButtonState('confirm', { disabled: true });
+
+      try {
+        await runConfirm();
+      } finally {
+        submitting = false;
+        setButtonState('confirm', { disabled: false });
+      }
+    }
+
+    async function runConfirm() {
       // Handle form validation if form is present
       if (formController) {
         const formValidation = await formController.validate();
         if (!formValidation.valid) {
+          // Kept on the result, keyed by field path, if the modal is later dismissed
+          result.errors = formValidation.errors;
           return; // Form has errors, don't proceed
         }
+        delete result.errors;
+
+        // Warnings don't block submission, but are reported with the result
+        if (Object.keys(formValidation.warnings).length > 0) {
+          result.warnings = formValidation.warnings;
+        } else {
+          delete result.warnings;
+        }
       }
 
       const inputValue = formController ? formController.getData() : getInputValue();
@@ -334,11 +413,70 @@ export async function modal<T = any>(options: ModalOptions<T>): Promise<ModalRes
         }
       }
 
+      if (mergedOptions.onSubmit) {
+        const submitted = await runSubmit(finalValue);
+        if (!submitted.ok) return;
+        finalValue = submitted.value;
+      }
+
+      // Submitted, so the draft is no longer needed
+      await formController?.clearDraft();
+
       result.confirmed = true;
       result.value = finalValue;
       await closeModal('programmatic');
     }
 
+    // Run onSubmit with the confirm button busy; on failure the modal stays open with the input intact
+    async function runSubmit(data: any): Promise<{ ok: boolean; value?: any }> {
+      let failed = false;
+      const helpers: SubmitHelpers = {
+        setFieldErrors: (errors) => {
+          failed = true;
+          showFieldErrors(errors);
+        },
+        setFormError: (message) => {
+          failed = true;
+          showFormError(message);
+        },
+        modal: instance,
+      };
+
+      // Errors from the previous attempt no longer apply
+      clearValidationMessage();
+      formController?.setFormError(null);
+
+      setButtonState('confirm', { loading: true });
+      formController?.setSubmitting(true);
+
+      try {
+        const value = await mergedOptions.onSubmit!(data, helpers);
+        return { ok: !failed && value !== false, value: value === undefined || value === false ? data : value };
+      } catch (error) {
+        showFormError(error instanceof Error ? error.message : String(error));
+        return { ok: false };
+      } finally {
+        // handleConfirm enables the button once the confirmation is over
+        setButtonState('confirm', { loading: false, disabled: true });
+        formController?.setSubmitting(false);
+      }
+    }
+
+    function showFieldErrors(errors: Record<string, string>): void {
+      if (!formController) return;
+      formController.setErrors({ ...formController.getState().errors, ...errors });
+      mergedOptions.hooks?.onValidationError?.(errors);
+    }
+
+    function showFormError(message: string): void {
+      if (formController) {
+        formController.setFormError(message);
+        announceError(message);
+      } else {
+        showValidationMessage(message);
+      }
+    }
+
     function handleDeny() {
       result.denied = true;
       closeModal('programmatic');
@@ -439,6 +577,11 @@ export async function modal<T = any>(options: ModalOptions<T>): Promise<ModalRes
       if (state.text !== undefined) btn.textContent = state.text;
       if (state.disabled !== undefined) btn.disabled = state.disabled;
       if (state.className !== undefined) btn.className = `modal-btn ${state.className}`;
+      if (state.loading !== undefined) {
+        btn.classList.toggle(`${globalConfig.classPrefix ?? 'modal'}-btn--loading`, state.loading);
+        btn.setAttribute('aria-busy', String(state.loading));
+        if (state.disabled === undefined) btn.disabled = state.loading;
+      }
     }
 
     function showLoading(text?: string): void {
@@ -451,38 +594,172 @@ export async function modal<T = any>(options: ModalOptions<T>): Promise<ModalRes
       announceLoading(false);
     }
 
-    function updateModal(newOptions: Partial<ModalOptions>): void {
-      // Update title
-      if (newOptions.title !== undefined && elements.titleElement) {
-        if (typeof newOptions.title === 'string') {
-          elements.titleElement.textContent = newOptions.title;
-        } else {
-          elements.titleElement.innerHTML = '';
-          elements.titleElement.appendChild(newOptions.title.cloneNode(true));
-        }
+    function bindInputListeners(): void {
+      if (elements.inputElement) {
+        addEventListenerWithCleanup(elements.inputElement, 'input', handleInputChange as EventListener);
+        addEventListenerWithCleanup(elements.inputElement, 'change', handleInputChange as EventListener);
+      }
+    }
+
+    function mountForm(initialData?: Record<string, any>): void {
+      if (formController) {
+        formController.destroy();
+        formController = null;
+      }
+      formContainer?.remove();
+      formContainer = null;
+
+      if (!mergedOptions.form) return;
+
+      formContainer = document.createElement('div');
+      formContainer.className = 'swal-form-container';
+
+      formController = renderForm(mergedOptions.form, formContainer, {
+        initialData,
+        onChange: mergedOptions.onFormChange,
+        onValidate: mergedOptions.onFormValidate,
+      });
+
+      // Insert form into content area
+      const contentArea = elements.contentElement || elements.modal.querySelector('.modal-content');
+      if (contentArea) {
+        contentArea.appendChild(formContainer);
+      }
+    }
+
+    function stopTimer(): void {
+      if (timerAnimation) {
+        timerAnimation.destroy();
+        timerAnimation = null;
+        controller.timerAnimation = null;
+      }
+      if (timerTimeoutId) {
+        clearTimeout(timerTimeoutId);
+        timerTimeoutId = null;
       }
+      if (tickIntervalId) {
+        clearInterval(tickIntervalId);
+        tickIntervalId = null;
+      }
+    }
 
-      // Update content
-      if ((newOptions.text !== undefined || newOptions.html !== undefined) && elements.contentElement) {
-        if (newOptions.html) {
-          if (typeof newOptions.html === 'string') {
-            elements.contentElement.innerHTML = newOptions.html;
-          } else {
-            elements.contentElement.innerHTML = '';
-            elements.contentElement.appendChild(newOptions.html.cloneNode(true));
+    function startTimer(): void {
+      stopTimer();
+      if (!mergedOptions.timer || mergedOptions.timer <= 0) return;
+
+      if (elements.timerProgress) {
+        timerAnimation = createTimerAnimation(
+          elements.timerProgress,
+          mergedOptions.timer,
+          () => closeModal('timer')
+        );
+        timerAnimation.start();
+      } else {
+        timerTimeoutId = setTimeout(() => closeModal('timer'), mergedOptions.timer);
+      }
+
+      // Timer tick callback with proper cleanup
+      if (mergedOptions.hooks?.onTimerTick && timerAnimation) {
+        tickIntervalId = setInterval(() => {
+          if (!instance.isOpen) {
+            stopTimer();
+            return;
           }
-        } else if (newOptions.text) {
-          elements.contentElement.textContent = newOptions.text;
-        }
+          const remaining = instance.timer.getRemaining();
+          mergedOptions.hooks!.onTimerTick!(remaining);
+        }, 100);
       }
 
-      // Merge options
-      Object.assign(mergedOptions, newOptions);
+      // Store timer animation in controller
+      controller.timerAnimation = timerAnimation;
     }
 
-    async function closeModal(reason: DismissReason, customResult?: Partial<ModalResult>): Promise<void> {
+    function updateModal(newOptions: Partial<ModalOptions>): void {
       if (!instance.isOpen) return;
 
+      // Remember focus so it survives replaced elements
+      const active = document.activeElement as HTMLElement | null;
+      const hadFocus = !!active && elements.modal.contains(active);
+      const focusedAction = hadFocus ? active!.dataset.action : undefined;
+      const previousInput = elements.inputElement;
+      const previousForm = mergedOptions.form;
+      const previousFormData = mergedOptions.formData;
+
+      patch(elements, mergedOptions, newOptions, globalConfig.classPrefix);
+      Object.assign(mergedOptions, newOptions);
+
+      if (elements.inputElement !== previousInput) {
+        bindInputListeners();
+      }
+
+      const formDataChanged = 'formData' in newOptions && newOptions.formData !== previousFormData;
+      if ('form' in newOptions && isFormChanged(previousForm, newOptions.form)) {
+        // Keep values the user already entered for fields that still exist
+        mountForm({ ...formController?.getData(), ...(formDataChanged ? newOptions.formData : undefined) });
+      } else if (formDataChanged && formController) {
+        formController.setData(newOptions.formData ?? {});
+      }
+
+      if ('timer' in newOptions || 'timerProgressBar' in newOptions) {
+        startTimer();
+      }
+
+      if (hadFocus && !active!.isConnected) {
+        const target = (focusedAction && elements.modal.querySelector<HTMLElement>(`[data-action="${focusedAction}"]`))
+          || elements.modal.querySelector<HTMLElement>('input, select, textarea, button:not([disabled]), [tabindex]:not([tabindex="-1"])');
+        target?.focus();
+      }
+    }
+
+    function resetResult(): void {
+      result.confirmed = false;
+      result.denied = false;
+      result.dismissed = false;
+      delete result.dismissReason;
+      delete result.value;
+    }
+
+    function hasUnsavedChanges(): boolean {
+      return !!mergedOptions.confirmDiscard && !!formController?.getState().dirty;
+    }
+
+    // Ask in a nested dialog whether unsaved form changes may be thrown away
+    async function confirmDiscard(): Promise<boolean> {
+      const config = typeof mergedOptions.confirmDiscard === 'object' ? mergedOptions.confirmDiscard : {};
+
+      // The nested dialog traps focus while it is open
+      focusTrap.pause();
+      const answer = await modal({
+        icon: 'warning',
+        title: config.title ?? 'Discard changes?',
+        text: config.text ?? 'You have unsaved changes that will be lost.',
+        buttons: {
+          confirm: { text: config.confirmText ?? 'Discard', visible: true },
+          cancel: { text: config.cancelText ?? 'Keep editing', visible: true },
+        },
+      });
+      focusTrap.resume();
+
+      return answer.confirmed;
+    }
+
+    function handleBeforeUnload(event: BeforeUnloadEvent) {
+      if (!hasUnsavedChanges()) return;
+      event.preventDefault();
+      // Older browsers only prompt when returnValue is set
+      event.returnValue = '';
+    }
+
+    let closing = false;
+
+    /** Run the discard prompt and close hooks; false keeps the modal open */
+    async function approveClose(reason: DismissReason, customResult?: Partial<ModalResult>): Promise<boolean> {
+      if (DISCARD_GUARDED_REASONS.includes(reason) && hasUnsavedChanges()) {
+        if (!await confirmDiscard()) return false;
+        // Discarding also drops the autosaved draft
+        await formController?.clearDraft();
+      }
+
       // Merge custom result
       if (customResult) {
         Object.assign(result, customResult);
@@ -494,24 +771,39 @@ export async function modal<T = any>(options: ModalOptions<T>): Promise<ModalRes
         result.dismissReason = reason;
       }
 
-      // Call onBeforeClose hook
+      // Call onBeforeClose hook, then let plugins veto
+      let shouldClose = true;
       if (mergedOptions.hooks?.onBeforeClose) {
-        const shouldClose = await mergedOptions.hooks.onBeforeClose(instance, result);
-        if (shouldClose === false) {
-          return;
+        shouldClose = await mergedOptions.hooks.onBeforeClose(instance, result) !== false;
+      }
+      if (shouldClose) {
+        shouldClose = await executeBeforeCloseHooks(instance, result);
+      }
+      return shouldClose;
+    }
+
+    async function closeModal(reason: DismissReason, customResult?: Partial<ModalResult>): Promise<void> {
+      if (!instance.isOpen || closing) return;
+      closing = true;
+
+      // A hook that throws must not leave the modal impossible to close
+      let approved = false;
+      try {
+        approved = await approveClose(reason, customResult);
+      } finally {
+        if (!approved) {
+          // The modal stays open, so nothing has been decided yet
+          resetResult();
+          closing = false;
         }
       }
+      if (!approved) return;
 
       instance.isOpen = false;
 
-      // Clean up all event listeners and intervals
+      // Clean up all event listeners, timers and intervals
       cleanup();
 
-      // Stop timer
-      if (timerAnimation) {
-        timerAnimation.destroy();
-      }
-
       // Deactivate focus trap
       focusTrap.deactivate();
 
@@ -531,6 +823,11 @@ export async function modal<T = any>(options: ModalOptions<T>): Promise<ModalRes
           unlockScroll();
         }
         removeInert(elements.root);
+      } else if (mergedOptions.a11y?.trapFocus !== false) {
+        // Hand inertness over to the modal now on top, so it can be used again
+        removeInert(elements.root);
+        const top = Array.from(activeModals.values()).pop();
+        if (top) makeOthersInert(top.elements.root);
       }
 
       // Call onClose hook
@@ -545,6 +842,8 @@ export async function modal<T = any>(options: ModalOptions<T>): Promise<ModalRes
       if (mergedOptions.hooks?.onAfterClose) {
         mergedOptions.hooks.onAfterClose(result);
       }
+
+      executeAfterCloseHooks(result);
     }
 
     // ============================================================================
@@ -558,6 +857,7 @@ export async function modal<T = any>(options: ModalOptions<T>): Promise<ModalRes
         if (shouldContinue === false) {
           cleanup();
           elements.root.remove();
+          activeModals.delete(instance.id);
           resolve({
             confirmed: false,
             denied: false,
@@ -577,28 +877,13 @@ export async function modal<T = any>(options: ModalOptions<T>): Promise<ModalRes
       addEventListenerWithCleanup(elements.root, 'click', handleBackdropClick as EventListener);
       addEventListenerWithCleanup(elements.modal, 'click', handleButtonClick as EventListener);
 
-      if (elements.inputElement) {
-        addEventListenerWithCleanup(elements.inputElement, 'input', handleInputChange as EventListener);
-        addEventListenerWithCleanup(elements.inputElement, 'change', handleInputChange as EventListener);
-      }
+      bindInputListeners();
 
       // Render form if provided
-      if (mergedOptions.form) {
-        const formContainer = document.createElement('div');
-        formContainer.className = 'swal-form-container';
-
-        formController = renderForm(mergedOptions.form, formContainer, {
-          initialData: mergedOptions.formData,
-          onChange: mergedOptions.onFormChange,
-          onValidate: mergedOptions.onFormValidate,
-        });
-
-        // Insert form into content area
-        const contentArea = elements.contentElement || elements.modal.querySelector('.modal-content');
-        if (contentArea) {
-          contentArea.appendChild(formContainer);
-        }
-      }
+      mountForm(mergedOptions.formData);
+
+      // Warn before leaving the page while the form has unsaved changes
+      addEventListenerWithCleanup(window, 'beforeunload', handleBeforeUnload as EventListener);
 
       // Add to DOM
       container.appendChild(elements.root);
@@ -620,6 +905,8 @@ export async function modal<T = any>(options: ModalOptions<T>): Promise<ModalRes
         if (mergedOptions.hooks?.onAfterOpen) {
           mergedOptions.hooks.onAfterOpen(instance);
         }
+
+        executeAfterOpenHooks(instance);
       });
 
       // Activate focus trap
@@ -629,50 +916,15 @@ export async function modal<T = any>(options: ModalOptions<T>): Promise<ModalRes
       announceModalOpen(mergedOptions);
 
       // Setup timer
-      if (mergedOptions.timer && mergedOptions.timer > 0) {
-        if (elements.timerProgress) {
-          timerAnimation = createTimerAnimation(
-            elements.timerProgress,
-            mergedOptions.timer,
-            () => closeModal('timer')
-          );
-          timerAnimation.start();
-
-          // Pause on hover if enabled
-          if (mergedOptions.pauseTimerOnHover) {
-            const handleMouseEnter = () => timerAnimation?.pause();
-            const handleMouseLeave = () => timerAnimation?.resume();
-            addEventListenerWithCleanup(elements.modal, 'mouseenter', handleMouseEnter);
-            addEventListenerWithCleanup(elements.modal, 'mouseleave', handleMouseLeave);
-          }
-        } else {
-          const timerId = setTimeout(() => closeModal('timer'), mergedOptions.timer);
-          // Track timeout for cleanup (wrap in a listener style for consistency)
-          eventListeners.push({
-            target: window,
-            type: '__timer__',
-            handler: (() => clearTimeout(timerId)) as EventListener,
-          });
-        }
-
-        // Timer tick callback with proper cleanup
-        if (mergedOptions.hooks?.onTimerTick && timerAnimation) {
-          tickIntervalId = setInterval(() => {
-            if (!instance.isOpen) {
-              if (tickIntervalId) {
-                clearInterval(tickIntervalId);
-                tickIntervalId = null;
-              }
-              return;
-            }
-            const remaining = instance.timer.getRemaining();
-            mergedOptions.hooks!.onTimerTick!(remaining);
-          }, 100);
-        }
-      }
+      startTimer();
 
-      // Store timer animation in controller
-      controller.timerAnimation = timerAnimation;
+      // Pause on hover if enabled (read live so update() can toggle it)
+      addEventListenerWithCleanup(elements.modal, 'mouseenter', () => {
+        if (mergedOptions.pauseTimerOnHover) timerAnimation?.pause();
+      });
+      addEventListenerWithCleanup(elements.modal, 'mouseleave', () => {
+        if (mergedOptions.pauseTimerOnHover) timerAnimation?.resume();
+      });
 
       // Call onOpen hook
       if (mergedOptions.hooks?.onOpen) {
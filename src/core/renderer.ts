@@ -353,6 +353,134 @@ function renderInput(config: InputConfig, classes: ClassNames): HTMLElement {
   return wrapper;
 }
 
+// ============================================================================
+// Section Rendering
+// ============================================================================
+
+/** Class of the form mount point inside the content element */
+const FORM_CONTAINER_CLASS = 'swal-form-container';
+
+function toPx(value: number | string): string {
+  return typeof value === 'number' ? `${value}px` : value;
+}
+
+function renderBackdrop(options: ModalOptions, classes: ClassNames): HTMLElement {
+  const backdrop = document.createElement('div');
+  backdrop.className = classes.backdrop;
+  if (options.backdropClass) {
+    backdrop.className += ` ${options.backdropClass}`;
+  }
+  if (options.backdropOpacity !== undefined) {
+    backdrop.style.setProperty('--modal-backdrop-opacity', String(options.backdropOpacity));
+  }
+  backdrop.setAttribute('aria-hidden', 'true');
+  return backdrop;
+}
+
+function renderCloseButton(classes: ClassNames): HTMLButtonElement {
+  const closeButton = document.createElement('button');
+  closeButton.type = 'button';
+  closeButton.className = classes.closeButton;
+  closeButton.setAttribute('aria-label', 'Close');
+  closeButton.dataset.action = 'close';
+  closeButton.innerHTML = `
+    <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" aria-hidden="true">
+      <line x1="18" y1="6" x2="6" y2="18"/>
+      <line x1="6" y1="6" x2="18" y2="18"/>
+    </svg>
+  `;
+  return closeButton;
+}
+
+function renderIcon(options: ModalOptions): HTMLElement | null {
+  if (!options.icon || options.icon === 'none') return null;
+  injectIconAnimationStyles();
+  return createIcon({
+    type: typeof options.icon === 'string' ? options.icon : 'info',
+    color: options.iconColor,
+  });
+}
+
+function fillTitle(titleElement: HTMLElement, title: string | HTMLElement): void {
+  if (typeof title === 'string') {
+    titleElement.textContent = title;
+  } else {
+    titleElement.textContent = '';
+    titleElement.appendChild(title.cloneNode(true));
+  }
+}
+
+function renderImage(image: NonNullable<ModalOptions['image']>, classes: ClassNames): HTMLElement {
+  const imageWrapper = document.createElement('div');
+  imageWrapper.className = classes.image;
+
+  const img = document.createElement('img');
+  img.src = image.src;
+  img.alt = image.alt || '';
+  if (image.width) {
+    img.style.width = toPx(image.width);
+  }
+  if (image.height) {
+    img.style.height = toPx(image.height);
+  }
+
+  imageWrapper.appendChild(img);
+  return imageWrapper;
+}
+
+/**
+ * Fill the content element with text or sanitized HTML, keeping a mounted form
+ */
+function fillContent(contentElement: HTMLElement, options: ModalOptions): void {
+  const formContainer = contentElement.querySelector(`:scope > .${FORM_CONTAINER_CLASS}`);
+  contentElement.textContent = '';
+
+  if (options.html) {
+    if (typeof options.html === 'string') {
+      if (options.allowUnsafeHtml) {
+        contentElement.innerHTML = options.html;
+      } else {
+        contentElement.innerHTML = options.sanitizer
+          ? options.sanitizer(options.html)
+          : sanitize(options.html);
+      }
+    } else {
+      contentElement.appendChild(options.html.cloneNode(true));
+    }
+  } else if (options.text) {
+    contentElement.textContent = options.text;
+  }
+
+  if (formContainer) {
+    contentElement.appendChild(formContainer);
+  }
+}
+
+function renderFooter(footerContent: string | HTMLElement, options: ModalOptions, classes: ClassNames): HTMLElement {
+  const footer = document.createElement('div');
+  footer.className = classes.footer;
+
+  if (typeof footerContent === 'string') {
+    footer.innerHTML = options.sanitizer
+      ? options.sanitizer(footerContent)
+      : sanitize(footerContent);
+  } else {
+    footer.appendChild(footerContent.cloneNode(true));
+  }
+
+  return footer;
+}
+
+function renderTimerProgress(classes: ClassNames): HTMLElement {
+  const timerProgress = document.createElement('div');
+  timerProgress.className = classes.timerProgress;
+  return timerProgress;
+}
+
+function hasContent(options: ModalOptions): boolean {
+  return !!(options.text || options.html || options.form);
+}
+
 // ============================================================================
 // Main Renderer
 // ============================================================================
@@ -360,14 +488,20 @@ function renderInput(config: InputConfig, classes: ClassNames): HTMLElement {
 export interface RenderedModal {
   root: HTMLElement;
   backdrop: HTMLElement | null;
+  container: HTMLElement;
   modal: HTMLElement;
+  header: HTMLElement;
+  body: HTMLElement;
   closeButton: HTMLButtonElement | null;
+  iconElement: HTMLElement | null;
   titleElement: HTMLElement | null;
+  imageElement: HTMLElement | null;
   contentElement: HTMLElement | null;
   inputElement: HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement | null;
   inputWrapper: HTMLElement | null;
   actionsContainer: HTMLElement | null;
   timerProgress: HTMLElement | null;
+  footerElement: HTMLElement | null;
   ids: {
     titleId: string;
     contentId: string;
@@ -383,11 +517,6 @@ export function render(options: ModalOptions, prefix = 'modal'): RenderedModal {
     modalId: options.id || generateId('modal'),
   };
 
-  // Inject icon animation styles if needed
-  if (options.icon) {
-    injectIconAnimationStyles();
-  }
-
   // Root container
   const root = document.createElement('div');
   root.className = classes.root;
@@ -399,15 +528,7 @@ export function render(options: ModalOptions, prefix = 'modal'): RenderedModal {
   // Backdrop
   let backdrop: HTMLElement | null = null;
   if (options.backdrop !== false) {
-    backdrop = document.createElement('div');
-    backdrop.className = classes.backdrop;
-    if (options.backdropClass) {
-      backdrop.className += ` ${options.backdropClass}`;
-    }
-    if (options.backdropOpacity !== undefined) {
-      backdrop.style.setProperty('--modal-backdrop-opacity', String(options.backdropOpacity));
-    }
-    backdrop.setAttribute('aria-hidden', 'true');
+    backdrop = renderBackdrop(options, classes);
     root.appendChild(backdrop);
   }
 
@@ -429,12 +550,12 @@ export function render(options: ModalOptions, prefix = 'modal'): RenderedModal {
 
   // Custom width
   if (options.width) {
-    modal.style.width = typeof options.width === 'number' ? `${options.width}px` : options.width;
+    modal.style.width = toPx(options.width);
   }
 
   // Custom max-height
   if (options.maxHeight) {
-    modal.style.maxHeight = typeof options.maxHeight === 'number' ? `${options.maxHeight}px` : options.maxHeight;
+    modal.style.maxHeight = toPx(options.maxHeight);
   }
 
   // Custom inline styles
@@ -467,29 +588,14 @@ export function render(options: ModalOptions, prefix = 'modal'): RenderedModal {
 
   // Close button
   if (options.showCloseButton !== false) {
-    closeButton = document.createElement('button');
-    closeButton.type = 'button';
-    closeButton.className = classes.closeButton;
-    closeButton.setAttribute('aria-label', 'Close');
-    closeButton.dataset.action = 'close';
-    closeButton.innerHTML = `
-      <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" aria-hidden="true">
-        <line x1="18" y1="6" x2="6" y2="18"/>
-        <line x1="6" y1="6" x2="18" y2="18"/>
-      </svg>
-    `;
+    closeButton = renderCloseButton(classes);
     header.appendChild(closeButton);
   }
 
   // Icon
-  if (options.icon && options.icon !== 'none') {
-    const iconEl = createIcon({
-      type: typeof options.icon === 'string' ? options.icon : 'info',
-      color: options.iconColor,
-    });
-    if (iconEl) {
-      header.appendChild(iconEl);
-    }
+  const iconElement = renderIcon(options);
+  if (iconElement) {
+    header.appendChild(iconElement);
   }
 
   // Title
@@ -497,13 +603,7 @@ export function render(options: ModalOptions, prefix = 'modal'): RenderedModal {
     titleElement = document.createElement('h2');
     titleElement.className = classes.title;
     titleElement.id = ids.titleId;
-
-    if (typeof options.title === 'string') {
-      titleElement.textContent = options.title;
-    } else {
-      titleElement.appendChild(options.title.cloneNode(true));
-    }
-
+    fillTitle(titleElement, options.title);
     header.appendChild(titleElement);
   }
 
@@ -519,46 +619,18 @@ export function render(options: ModalOptions, prefix = 'modal'): RenderedModal {
   let contentElement: HTMLElement | null = null;
 
   // Image
+  let imageElement: HTMLElement | null = null;
   if (options.image) {
-    const imageWrapper = document.createElement('div');
-    imageWrapper.className = classes.image;
-
-    const img = document.createElement('img');
-    img.src = options.image.src;
-    img.alt = options.image.alt || '';
-    if (options.image.width) {
-      img.style.width = typeof options.image.width === 'number' ? `${options.image.width}px` : options.image.width;
-    }
-    if (options.image.height) {
-      img.style.height = typeof options.image.height === 'number' ? `${options.image.height}px` : options.image.height;
-    }
-
-    imageWrapper.appendChild(img);
-    body.appendChild(imageWrapper);
+    imageElement = renderImage(options.image, classes);
+    body.appendChild(imageElement);
   }
 
-  // Content (text or html)
-  if (options.text || options.html) {
+  // Content (text or html); also hosts the form
+  if (hasContent(options)) {
     contentElement = document.createElement('div');
     contentElement.className = classes.content;
     contentElement.id = ids.contentId;
-
-    if (options.html) {
-      if (typeof options.html === 'string') {
-        if (options.allowUnsafeHtml) {
-          contentElement.innerHTML = options.html;
-        } else {
-          contentElement.innerHTML = options.sanitizer
-            ? options.sanitizer(options.html)
-            : sanitize(options.html);
-        }
-      } else {
-        contentElement.appendChild(options.html.cloneNode(true));
-      }
-    } else if (options.text) {
-      contentElement.textContent = options.text;
-    }
-
+    fillContent(contentElement, options);
     body.appendChild(contentElement);
   }
 
@@ -582,8 +654,7 @@ export function render(options: ModalOptions, prefix = 'modal'): RenderedModal {
   // Timer progress bar
   let timerProgress: HTMLElement | null = null;
   if (options.timer && options.timerProgressBar) {
-    timerProgress = document.createElement('div');
-    timerProgress.className = classes.timerProgress;
+    timerProgress = renderTimerProgress(classes);
     modal.appendChild(timerProgress);
   }
 
@@ -594,19 +665,10 @@ export function render(options: ModalOptions, prefix = 'modal'): RenderedModal {
   }
 
   // Custom footer
+  let footerElement: HTMLElement | null = null;
   if (options.footer) {
-    const footer = document.createElement('div');
-    footer.className = classes.footer;
-
-    if (typeof options.footer === 'string') {
-      footer.innerHTML = options.sanitizer
-        ? options.sanitizer(options.footer)
-        : sanitize(options.footer);
-    } else {
-      footer.appendChild(options.footer.cloneNode(true));
-    }
-
-    modal.appendChild(footer);
+    footerElement = renderFooter(options.footer, options, classes);
+    modal.appendChild(footerElement);
   }
 
   container.appendChild(modal);
@@ -615,18 +677,209 @@ export function render(options: ModalOptions, prefix = 'modal'): RenderedModal {
   return {
     root,
     backdrop,
+    container,
     modal,
+    header,
+    body,
     closeButton,
+    iconElement,
     titleElement,
+    imageElement,
     contentElement,
     inputElement,
     inputWrapper,
     actionsContainer,
     timerProgress,
+    footerElement,
     ids,
   };
 }
 
+// ============================================================================
+// Patching
+// ============================================================================
+
+/** Insert `el` before the first reference that is currently a child of `parent` */
+function insertBeforeFirst(parent: HTMLElement, el: HTMLElement, refs: Array<Node | null>): void {
+  const ref = refs.find(r => r && r.parentNode === parent) ?? null;
+  parent.insertBefore(el, ref);
+}
+
+/** Swap `current` for `next` in place, or insert/remove as needed */
+function swapElement<T extends HTMLElement>(
+  current: T | null,
+  next: T | null,
+  parent: HTMLElement,
+  refs: Array<Node | null>
+): T | null {
+  if (current && next) {
+    current.replaceWith(next);
+  } else if (next) {
+    insertBeforeFirst(parent, next, refs);
+  } else if (current) {
+    current.remove();
+  }
+  return next;
+}
+
+/** Attach a section when it has children, detach it when it is empty */
+function syncSection(section: HTMLElement, parent: HTMLElement, refs: Array<Node | null>): void {
+  if (section.children.length > 0 && !section.parentNode) {
+    insertBeforeFirst(parent, section, refs);
+  } else if (section.children.length === 0) {
+    section.remove();
+  }
+}
+
+/**
+ * Reconcile a rendered modal with changed options by patching its DOM in place.
+ * Content goes through the same sanitization as the first render.
+ */
+export function patch(
+  rendered: RenderedModal,
+  previous: ModalOptions,
+  changes: Partial<ModalOptions>,
+  prefix = 'modal'
+): void {
+  const classes = getClassNames(prefix);
+  const options: ModalOptions = { ...previous, ...changes };
+  const changed = (...keys: Array<keyof ModalOptions>) => keys.some(key => key in changes);
+  const { root, modal, header, body } = rendered;
+
+  // Root, backdrop and positioning
+  if (changed('className')) {
+    previous.className?.split(/\s+/).filter(Boolean).forEach(c => root.classList.remove(c));
+    options.className?.split(/\s+/).filter(Boolean).forEach(c => root.classList.add(c));
+  }
+
+  if (changed('zIndex') && options.zIndex !== undefined) {
+    root.style.zIndex = String(options.zIndex);
+  }
+
+  if (changed('backdrop', 'backdropClass', 'backdropOpacity')) {
+    const next = options.backdrop !== false ? renderBackdrop(options, classes) : null;
+    if (next && rendered.backdrop) {
+      // Restyle the shown backdrop so its enter animation is not replayed
+      rendered.backdrop.className = next.className;
+      rendered.backdrop.style.cssText = next.style.cssText;
+    } else {
+      rendered.backdrop = swapElement(rendered.backdrop, next, root, [rendered.container]);
+    }
+  }
+
+  if (changed('position')) {
+    if (options.position) {
+      rendered.container.dataset.position = options.position;
+    } else {
+      delete rendered.container.dataset.position;
+    }
+  }
+
+  // Dialog sizing and styling
+  if (changed('size')) {
+    if (options.size) {
+      modal.dataset.size = options.size;
+    } else {
+      delete modal.dataset.size;
+    }
+  }
+
+  if (changed('width')) {
+    modal.style.width = options.width ? toPx(options.width) : '';
+  }
+
+  if (changed('maxHeight')) {
+    modal.style.maxHeight = options.maxHeight ? toPx(options.maxHeight) : '';
+  }
+
+  if (changed('style')) {
+    // Clear what the previous style set, keeping the width and max-height options underneath
+    Object.assign(modal.style, Object.fromEntries(Object.keys(previous.style ?? {}).map(key => [key, ''])));
+    if (options.width) modal.style.width = toPx(options.width);
+    if (options.maxHeight) modal.style.maxHeight = toPx(options.maxHeight);
+    Object.assign(modal.style, options.style);
+  }
+
+  if (changed('data')) {
+    Object.keys(previous.data ?? {}).forEach(key => delete modal.dataset[key]);
+    Object.entries(options.data ?? {}).forEach(([key, value]) => {
+      modal.dataset[key] = value;
+    });
+  }
+
+  // Header
+  if (changed('showCloseButton')) {
+    const next = options.showCloseButton !== false ? rendered.closeButton ?? renderCloseButton(classes) : null;
+    rendered.closeButton = swapElement(rendered.closeButton, next, header, [header.firstChild]);
+  }
+
+  if (changed('icon', 'iconColor')) {
+    rendered.iconElement = swapElement(rendered.iconElement, renderIcon(options), header, [rendered.titleElement]);
+  }
+
+  if (changed('title')) {
+    let next: HTMLElement | null = null;
+    if (options.title) {
+      next = rendered.titleElement ?? document.createElement('h2');
+      next.className = classes.title;
+      next.id = rendered.ids.titleId;
+      fillTitle(next, options.title);
+    }
+    rendered.titleElement = swapElement(rendered.titleElement, next, header, []);
+  }
+
+  syncSection(header, modal, [modal.firstChild]);
+
+  // Body
+  if (changed('image')) {
+    const next = options.image ? renderImage(options.image, classes) : null;
+    rendered.imageElement = swapElement(rendered.imageElement, next, body, [body.firstChild]);
+  }
+
+  if (changed('text', 'html', 'allowUnsafeHtml', 'sanitizer', 'form')) {
+    let next: HTMLElement | null = null;
+    if (hasContent(options)) {
+      next = rendered.contentElement ?? document.createElement('div');
+      next.className = classes.content;
+      next.id = rendered.ids.contentId;
+      fillContent(next, options);
+    }
+    rendered.contentElement = swapElement(rendered.contentElement, next, body, [rendered.inputWrapper]);
+  }
+
+  if (changed('input')) {
+    const next = options.input ? renderInput(options.input, classes) : null;
+    rendered.inputWrapper = swapElement(rendered.inputWrapper, next, body, []);
+    rendered.inputElement = next?.querySelector('input, textarea, select') ?? null;
+  }
+
+  syncSection(body, modal, [rendered.timerProgress, rendered.actionsContainer, rendered.footerElement]);
+
+  // Timer, actions and footer
+  if (changed('timer', 'timerProgressBar')) {
+    const next = options.timer && options.timerProgressBar ? rendered.timerProgress ?? renderTimerProgress(classes) : null;
+    rendered.timerProgress = swapElement(rendered.timerProgress, next, modal, [rendered.actionsContainer, rendered.footerElement]);
+  }
+
+  if (changed('buttons')) {
+    rendered.actionsContainer = swapElement(rendered.actionsContainer, renderButtons(options.buttons, classes), modal, [rendered.footerElement]);
+  }
+
+  if (changed('footer', 'sanitizer')) {
+    const next = options.footer ? renderFooter(options.footer, options, classes) : null;
+    rendered.footerElement = swapElement(rendered.footerElement, next, modal, [modal.querySelector(`:scope > .${classes.loading}`)]);
+  }
+
+  // ARIA attributes follow title, content and role changes
+  if (changed('title', 'text', 'html', 'a11y', 'buttons')) {
+    const attrs = buildAriaAttributes(options, rendered.ids);
+    for (const name of ['aria-label', 'aria-labelledby', 'aria-describedby']) {
+      if (!(name in attrs)) modal.removeAttribute(name);
+    }
+    applyAriaAttributes(modal, attrs);
+  }
+}
+
 // ============================================================================
 // Loading State
 // ============================================================================
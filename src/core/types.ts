@@ -63,6 +63,8 @@ export type FieldType =
   | 'pin'
   | 'signature'
   | 'slider'
+  // Nested
+  | 'array'
   // Layout
   | 'divider'
   | 'heading'
@@ -73,26 +75,43 @@ export type FieldType =
 // Validation Types
 // ============================================================================
 
+export type ValidationSeverity = 'error' | 'warning' | 'info';
+
 export interface ValidationRule {
   /** Rule type */
   type: 'required' | 'email' | 'url' | 'min' | 'max' | 'minLength' | 'maxLength' |
         'pattern' | 'custom' | 'match' | 'unique' | 'phone' | 'creditCard' |
-        'date' | 'dateRange' | 'fileSize' | 'fileType' | 'dimensions';
-  /** Error message */
+        'date' | 'dateRange' | 'fileSize' | 'fileType' | 'dimensions' | 'json';
+  /** Error message; a template that may use `{label}` and the rule's parameters, such as `{min}` and `{actual}` */
   message?: string;
   /** Value for the rule (e.g., min value, pattern, etc.) */
   value?: any;
+  /** `warning` and `info` failures are shown but do not block submission (default: `error`) */
+  severity?: ValidationSeverity;
   /** Custom validation function */
   validator?: (value: any, formData: Record<string, any>) => boolean | string | Promise<boolean | string>;
 }
 
+/** Nothing or true when valid; false or a message for the rule's targets; or messages keyed by field path */
+export type FormRuleResult = void | null | boolean | string | Record<string, string>;
+
+export interface FormRule {
+  /** Fields the rule reads; it re-runs when one of them changes (on every change when omitted) */
+  dependsOn?: string[];
+  /** Fields a failure is shown on (default: `dependsOn`, or above the form when neither is set) */
+  target?: string | string[];
+  /** Message used when `validate` returns false */
+  message?: string;
+  validate: (formData: Record<string, any>) => FormRuleResult | Promise<FormRuleResult>;
+}
+
 export interface FieldValidation {
   rules?: ValidationRule[];
   /** Validate on blur */
   validateOnBlur?: boolean;
   /** Validate on change */
   validateOnChange?: boolean;
-  /** Debounce validation (ms) */
+  /** Debounce validation on change (ms); fields with a `unique` rule default to 300 */
   debounce?: number;
   /** Show validation state */
   showValidState?: boolean;
@@ -111,8 +130,45 @@ export interface SelectOption {
   group?: string;
 }
 
+/**
+ * Serializable condition evaluated against form data.
+ * A leaf without operators checks that the field is truthy.
+ */
+export type FieldCondition =
+  | {
+      field: string;
+      equals?: any;
+      notEquals?: any;
+      in?: any[];
+      notIn?: any[];
+      gt?: number;
+      gte?: number;
+      lt?: number;
+      lte?: number;
+      /** Value is null, undefined, '' or an empty array */
+      empty?: boolean;
+      /** Regular expression source tested against the value */
+      matches?: string;
+    }
+  | { all: FieldCondition[] }
+  | { any: FieldCondition[] }
+  | { not: FieldCondition }
+  /** Condition registered with `registerCondition` */
+  | { condition: string };
+
+export type FieldConditionInput = FieldCondition | ((formData: Record<string, any>) => boolean);
+
+export interface DependentOptionsConfig {
+  /** Fields whose changes trigger a reload */
+  dependsOn: string[];
+  /** Load options for the current data; the signal aborts when a newer load starts */
+  load: (formData: Record<string, any>, signal: AbortSignal) => SelectOption[] | Promise<SelectOption[]>;
+  /** Keep the current value even if the new options do not include it */
+  keepValue?: boolean;
+}
+
 export interface FormFieldBase {
-  /** Unique field name/key */
+  /** Unique field name/key; a path such as `address.city` reads and writes nested data */
   name: string;
   /** Field type */
   type: FieldType;
@@ -137,7 +193,17 @@ export interface FormFieldBase {
   /** Validation rules */
   validation?: FieldValidation;
   /** Conditional visibility */
-  showWhen?: (formData: Record<string, any>) => boolean;
+  showWhen?: FieldConditionInput;
+  /** Conditionally enable the field (disabled while false) */
+  enableWhen?: FieldConditionInput;
+  /** Conditionally require the field */
+  requiredWhen?: FieldConditionInput;
+  /** Derive the value from other fields */
+  compute?: (formData: Record<string, any>) => any;
+  /** Fields read by function-based conditions and `compute` (re-evaluated on every change when omitted) */
+  dependsOn?: string[];
+  /** Reload options when other fields change (e.g. country -> state) */
+  dependentOptions?: DependentOptionsConfig;
   /** Custom render function */
   render?: (field: FormField, value: any, onChange: (value: any) => void) => HTMLElement;
   /** Transform value before submission */
@@ -146,12 +212,52 @@ export interface FormFieldBase {
   attributes?: Record<string, string | number | boolean>;
 }
 
+export interface MaskTokenDefinition {
+  /** Pattern a single typed character must match */
+  pattern: RegExp;
+  /** Case change or custom transform applied to accepted characters */
+  transform?: 'upper' | 'lower' | ((char: string) => string);
+}
+
+export interface NumberMaskOptions {
+  /** Group separator (default: `,`) */
+  thousandsSeparator?: string;
+  /** Decimal separator (default: `.`) */
+  decimalSeparator?: string;
+  /** Digits allowed after the decimal separator (default: 0) */
+  decimals?: number;
+  /** Allow a leading minus sign */
+  allowNegative?: boolean;
+  /** Text shown before the number (e.g. `$`) */
+  prefix?: string;
+  /** Text shown after the number (e.g. ` kg`) */
+  suffix?: string;
+}
+
+/** Pattern, or a list of patterns of which the shortest that fits the input is used */
+export type MaskPattern = string | string[] | ((raw: string) => string);
+
+export interface MaskConfig {
+  /**
+   * Pattern where `9` is a digit, `a` a letter, `A` an uppercased letter and `*` a letter or digit.
+   * `[...]` marks an optional section and `\` escapes a token character.
+   * A function receives the raw input and returns the pattern to use.
+   */
+  pattern?: MaskPattern;
+  /** Extra or overridden tokens */
+  tokens?: Record<string, RegExp | MaskTokenDefinition>;
+  /** Format a number with grouping instead of using a pattern */
+  number?: boolean | NumberMaskOptions;
+}
+
 export interface TextFieldConfig extends FormFieldBase {
   type: 'text' | 'email' | 'password' | 'url' | 'tel' | 'search';
-  /** Input mask pattern */
-  mask?: string;
-  /** Mask placeholder character */
+  /** Input mask pattern or configuration */
+  mask?: string | MaskConfig;
+  /** Character shown in unfilled mask slots (e.g. `_`); slots stay hidden when omitted */
   maskChar?: string;
+  /** Field value for masked inputs: the formatted text (default) or only the typed characters */
+  maskOutput?: 'masked' | 'raw';
   /** Show/hide password toggle */
   showPasswordToggle?: boolean;
   /** Prefix text/icon */
@@ -237,6 +343,8 @@ export interface DateFieldConfig extends FormFieldBase {
   clearable?: boolean;
   /** Week starts on (0=Sun, 1=Mon) */
   weekStartsOn?: 0 | 1;
+  /** Locale for month and day names (defaults to the document language) */
+  locale?: string;
 }
 
 export interface DateRangeFieldConfig extends FormFieldBase {
@@ -249,6 +357,16 @@ export interface DateRangeFieldConfig extends FormFieldBase {
     label: string;
     range: [Date | string, Date | string];
   }>;
+  /** Disabled dates */
+  disabledDates?: Date[] | ((date: Date) => boolean);
+  /** Show today button */
+  showToday?: boolean;
+  /** Show clear button */
+  clearable?: boolean;
+  /** Week starts on (0=Sun, 1=Mon) */
+  weekStartsOn?: 0 | 1;
+  /** Locale for month and day names (defaults to the document language) */
+  locale?: string;
 }
 
 export interface SelectFieldConfig extends FormFieldBase {
@@ -294,8 +412,10 @@ export interface TextareaFieldConfig extends FormFieldBase {
   maxLength?: number;
   /** Show character count */
   showCount?: boolean;
-  /** Code language (for code type) */
+  /** Code language (for code type), highlighted when a grammar is registered for it */
   language?: string;
+  /** Type closing brackets and quotes automatically (for code type, default: true) */
+  autoCloseBrackets?: boolean;
   /** Rich text toolbar options */
   toolbar?: string[];
 }
@@ -318,6 +438,52 @@ export interface FileFieldConfig extends FormFieldBase {
   aspectRatio?: number;
   /** Enable cropping */
   crop?: boolean;
+  /** Allow rotating while cropping (default: true) */
+  rotatable?: boolean;
+  /** Resize/compress the processed image (for image/avatar) */
+  output?: ImageOutputOptions;
+}
+
+export interface ImageOutputOptions {
+  /** Exact output width (height follows the aspect ratio unless also set) */
+  width?: number;
+  /** Exact output height */
+  height?: number;
+  /** Largest allowed output width */
+  maxWidth?: number;
+  /** Largest allowed output height */
+  maxHeight?: number;
+  /** Output MIME type (default: source type, or PNG when unsupported) */
+  type?: 'image/png' | 'image/jpeg' | 'image/webp';
+  /** Compression quality for JPEG/WebP (0-1, default: 0.92) */
+  quality?: number;
+}
+
+/** Value of a `dimensions` validation rule */
+export interface ImageDimensionsRule {
+  minWidth?: number;
+  maxWidth?: number;
+  minHeight?: number;
+  maxHeight?: number;
+  /** Required width / height ratio */
+  aspectRatio?: number;
+  /** Lowest allowed width / height ratio */
+  minAspectRatio?: number;
+  /** Highest allowed width / height ratio */
+  maxAspectRatio?: number;
+}
+
+/** Availability check for the `unique` rule: true if the value is free, false or a message if not */
+export type UniqueCheck = (
+  value: any,
+  signal: AbortSignal,
+  formData: Record<string, any>
+) => Promise<boolean | string>;
+
+export interface UniqueRule {
+  check: UniqueCheck;
+  /** Remember the result for each value checked (default: true) */
+  cache?: boolean;
 }
 
 export interface ColorFieldConfig extends FormFieldBase {
@@ -350,8 +516,8 @@ export interface AutocompleteFieldConfig extends FormFieldBase {
   type: 'autocomplete';
   /** Static options */
   options?: SelectOption[];
-  /** Async options loader */
-  loadOptions?: (query: string) => Promise<SelectOption[]>;
+  /** Async options loader; the signal aborts when a newer query supersedes this one */
+  loadOptions?: (query: string, signal: AbortSignal) => Promise<SelectOption[]>;
   /** Debounce for async loading */
   debounce?: number;
   /** Minimum query length */
@@ -360,6 +526,12 @@ export interface AutocompleteFieldConfig extends FormFieldBase {
   freeSolo?: boolean;
   /** Multiple selections */
   multiple?: boolean;
+  /** Cache loaded results per query (default: true) */
+  cacheResults?: boolean;
+  /** Text shown while options load */
+  loadingText?: string;
+  /** Text shown when no option matches */
+  noResultsText?: string;
 }
 
 export interface OTPFieldConfig extends FormFieldBase {
@@ -386,6 +558,28 @@ export interface SignatureFieldConfig extends FormFieldBase {
   backgroundColor?: string;
   /** Show clear button */
   clearable?: boolean;
+  /** Show undo button */
+  undoable?: boolean;
+  /** Thinnest stroke width (light pressure / fast movement) */
+  minStrokeWidth?: number;
+  /** Thickest stroke width (firm pressure / slow movement) */
+  maxStrokeWidth?: number;
+  /** Value format: PNG data URL, SVG markup or raw strokes (default: 'png') */
+  format?: 'png' | 'svg' | 'json';
+}
+
+export interface SignaturePoint {
+  x: number;
+  y: number;
+  /** Normalized pressure (0-1) */
+  pressure: number;
+  /** Milliseconds since the stroke started */
+  time: number;
+}
+
+export interface SignatureStroke {
+  color: string;
+  points: SignaturePoint[];
 }
 
 export interface DividerConfig extends FormFieldBase {
@@ -412,6 +606,26 @@ export interface HiddenFieldConfig extends FormFieldBase {
   type: 'hidden';
 }
 
+export interface ArrayFieldConfig extends FormFieldBase {
+  type: 'array';
+  /** Fields rendered for every item */
+  fields: FormField[];
+  /** Minimum number of items */
+  minItems?: number;
+  /** Maximum number of items */
+  maxItems?: number;
+  /** Values for newly added items */
+  defaultItem?: Record<string, any>;
+  /** Add button text */
+  addText?: string;
+  /** Item heading; a string is numbered ("Contact 1"), a function receives the zero-based index */
+  itemLabel?: string | ((index: number) => string);
+  /** Show move up/down controls (default: true) */
+  sortable?: boolean;
+  /** Layout of each item's fields */
+  layout?: FormSchema['layout'];
+}
+
 // Union type for all field configs
 export type FormField =
   | TextFieldConfig
@@ -432,12 +646,37 @@ export type FormField =
   | DividerConfig
   | HeadingConfig
   | ParagraphConfig
-  | HiddenFieldConfig;
+  | HiddenFieldConfig
+  | ArrayFieldConfig;
 
 // ============================================================================
 // Form Schema
 // ============================================================================
 
+/** Key-value store for form drafts; sync (Web Storage) or async (IndexedDB) */
+export interface DraftStorage {
+  getItem(key: string): string | null | Promise<string | null>;
+  setItem(key: string, value: string): void | Promise<void>;
+  removeItem(key: string): void | Promise<void>;
+}
+
+export interface FormPersistConfig {
+  /** Storage key identifying this form's draft */
+  key: string;
+  /** Where drafts are kept (default: 'local') */
+  storage?: 'local' | 'session' | 'indexeddb' | DraftStorage;
+  /** Discard drafts older than this many milliseconds */
+  ttl?: number;
+  /** Field paths never written to storage (password and file fields are always skipped) */
+  exclude?: string[];
+  /** Delay between the last change and saving, in ms (default: 500) */
+  debounce?: number;
+  /** Ask before restoring a draft, or restore it straight away (default: 'prompt') */
+  restore?: 'prompt' | 'auto';
+  /** Drafts saved under a different version are discarded */
+  version?: string | number;
+}
+
 export interface FormSchema {
   /** Form fields */
   fields: FormField[];
@@ -460,7 +699,13 @@ export interface FormSchema {
     stopOnFirstError?: boolean;
     /** Scroll to first error */
     scrollToError?: boolean;
+    /** Schema (Zod, Valibot, the built-in builder, ...) checked against the whole data on submit */
+    schema?: StandardSchema;
+    /** Cross-field rules checked against the whole data */
+    rules?: FormRule[];
   };
+  /** Autosave drafts and offer to restore them */
+  persist?: FormPersistConfig;
   /** Form sections */
   sections?: Array<{
     title?: string;
@@ -471,6 +716,70 @@ export interface FormSchema {
   }>;
 }
 
+// ============================================================================
+// Standard Schema
+// ============================================================================
+
+export interface StandardSchemaPathSegment {
+  readonly key: PropertyKey;
+}
+
+export interface StandardSchemaIssue {
+  readonly message: string;
+  /** Location of the invalid value, e.g. ['items', 0, 'qty'] */
+  readonly path?: ReadonlyArray<PropertyKey | StandardSchemaPathSegment>;
+}
+
+export type StandardSchemaResult<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<StandardSchemaIssue> };
+
+/** The Standard Schema v1 interface, implemented by Zod, Valibot, ArkType and others */
+export interface StandardSchema<Input = unknown, Output = Input> {
+  readonly '~standard': {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (value: unknown) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>;
+    readonly types?: { readonly input: Input; readonly output: Output };
+  };
+}
+
+// ============================================================================
+// Serializable Schema Types
+// ============================================================================
+
+export interface JsonValidationRule {
+  /** Built-in or registered validator name */
+  type: string;
+  message?: string;
+  value?: any;
+  severity?: ValidationSeverity;
+}
+
+/**
+ * Field in the JSON schema dialect: no functions, conditions as FieldCondition,
+ * validators referenced by name
+ */
+export type JsonFormField = Omit<
+  FormFieldBase,
+  'type' | 'showWhen' | 'enableWhen' | 'requiredWhen' | 'compute' | 'dependentOptions' | 'render' | 'transform' | 'validation'
+> & {
+  type: string;
+  showWhen?: FieldCondition;
+  enableWhen?: FieldCondition;
+  requiredWhen?: FieldCondition;
+  validation?: Omit<FieldValidation, 'rules'> & { rules?: JsonValidationRule[] };
+  /** Type-specific options (min, options, accept, ...) */
+  [option: string]: unknown;
+};
+
+/** Form schema that survives JSON.stringify / JSON.parse */
+export interface JsonFormSchema extends Omit<FormSchema, 'fields'> {
+  /** Dialect version */
+  version?: 1;
+  fields: JsonFormField[];
+}
+
 // ============================================================================
 // Result Types
 // ============================================================================
@@ -486,8 +795,10 @@ export interface ModalResult<T = any> {
   dismissReason?: DismissReason;
   /** Value from input or form data */
   value?: T;
-  /** Form validation errors (if any) */
+  /** Form validation errors (if any), keyed by field path such as `address.city` or `items[0].qty` */
   errors?: Record<string, string>;
+  /** Failed `warning` rules of a submitted form, keyed by field path */
+  warnings?: Record<string, string>;
 }
 
 export type DismissReason =
@@ -602,6 +913,30 @@ export interface LifecycleHooks<T = any> {
 // Main Modal Options
 // ============================================================================
 
+/** Tools passed to `onSubmit` for reporting a failed submission */
+export interface SubmitHelpers {
+  /** Show errors next to fields, keyed by field path (e.g. from a server response) */
+  setFieldErrors: (errors: Record<string, string>) => void;
+  /** Show an error banner above the form */
+  setFormError: (message: string) => void;
+  /** The modal being submitted */
+  modal: ModalInstance;
+}
+
+/**
+ * Submit handler: resolve to close the modal with the returned value (or the submitted data).
+ * Return false, throw, or report errors through the helpers to keep it open for a retry.
+ */
+export type SubmitHandler<T = any> = (data: any, helpers: SubmitHelpers) => T | void | false | Promise<T | void | false>;
+
+/** Text of the "Discard changes?" dialog shown for dirty forms */
+export interface DiscardConfirmOptions {
+  title?: string;
+  text?: string;
+  confirmText?: string;
+  cancelText?: string;
+}
+
 export interface ModalOptions<T = any> {
   // Content
   title?: string | HTMLElement;
@@ -628,6 +963,12 @@ export interface ModalOptions<T = any> {
 
   // Form schema (new)
   form?: FormSchema;
+  /** Initial form values */
+  formData?: Record<string, any>;
+  /** Send the confirmed value somewhere, keeping the modal open while it runs */
+  onSubmit?: SubmitHandler<T>;
+  /** Ask before backdrop, Escape or close-button dismissal throws away unsaved form changes */
+  confirmDiscard?: boolean | DiscardConfirmOptions;
 
   // Layout & Style
   size?: ModalSize;
@@ -760,31 +1101,124 @@ export interface GlobalConfig {
   queue?: QueueConfig;
   classPrefix?: string;
   rtl?: boolean;
+  /** BCP 47 locale of validation messages (default: the page's `lang`, then English) */
   locale?: string;
+  /** Validation message templates per locale, overriding or adding to the built-in catalogs */
+  messages?: Record<string, ValidationMessages>;
 }
 
 // ============================================================================
 // Plugin System
 // ============================================================================
 
-export interface Plugin {
-  name: string;
-  version?: string;
-  install: (api: PluginAPI) => void | Promise<void>;
-  uninstall?: () => void;
+export type BeforeOpenHook = (options: ModalOptions) => ModalOptions | false | void | Promise<ModalOptions | false | void>;
+export type AfterOpenHook = (instance: ModalInstance) => void;
+export type BeforeCloseHook = (instance: ModalInstance, result: ModalResult) => boolean | void | Promise<boolean | void>;
+export type AfterCloseHook = (result: ModalResult) => void;
+
+export interface HookOptions {
+  /** Hooks with a higher priority run first; equal priorities run in registration order (default: 0) */
+  priority?: number;
+}
+
+export interface PresetConfig<TInput = any, TValue = any> {
+  /** Base options for this preset */
+  options: Partial<ModalOptions<TValue>>;
+  /** Transform function for customizing options */
+  transform?: (input: TInput) => Partial<ModalOptions<TValue>>;
 }
 
-export interface PluginAPI {
-  registerPreset: (name: string, options: Partial<ModalOptions>) => void;
+/**
+ * Type registry for plugin presets, filled in through declaration merging:
+ * @example
+ * declare module 'sweetalert-plus-plus' {
+ *   interface PresetRegistry {
+ *     deleteUser: PresetConfig<{ name: string }, boolean>;
+ *   }
+ * }
+ */
+export interface PresetRegistry {}
+
+export type PresetInput<K extends string> = K extends keyof PresetRegistry
+  ? PresetRegistry[K] extends PresetConfig<infer I, any> ? I : any
+  : any;
+
+export type PresetValue<K extends string> = K extends keyof PresetRegistry
+  ? PresetRegistry[K] extends PresetConfig<any, infer V> ? V : any
+  : any;
+
+/** Typed function that opens a registered preset */
+export type PresetHelper<TInput = any, TValue = any> = (input?: TInput) => Promise<ModalResult<TValue>>;
+
+/**
+ * The API a plugin receives in `install`.
+ * `TConfig` is the plugin's own configuration object.
+ */
+export interface PluginContext<TConfig extends object = Record<string, any>> {
+  /** Name of the plugin being installed */
+  readonly pluginName: string;
+
+  // Lifecycle hooks (run for every modal)
+  /** Register a hook that runs before modal opens */
+  registerBeforeOpen: (hook: BeforeOpenHook, options?: HookOptions) => () => void;
+  /** Register a hook that runs after modal opens */
+  registerAfterOpen: (hook: AfterOpenHook, options?: HookOptions) => () => void;
+  /** Register a hook that runs before modal closes */
+  registerBeforeClose: (hook: BeforeCloseHook, options?: HookOptions) => () => void;
+  /** Register a hook that runs after modal closes */
+  registerAfterClose: (hook: AfterCloseHook, options?: HookOptions) => () => void;
+  /** Attach a per-modal lifecycle hook to every modal */
+  addHook: <K extends keyof LifecycleHooks>(hook: K, fn: NonNullable<LifecycleHooks[K]>, options?: HookOptions) => () => void;
+  /** Detach a hook added with `addHook` */
+  removeHook: <K extends keyof LifecycleHooks>(hook: K, fn: NonNullable<LifecycleHooks[K]>) => void;
+
+  // Extensions
+  /** Register a custom preset; returns a typed helper that opens it */
+  registerPreset: <TInput = any, TValue = any>(name: string, preset: PresetConfig<TInput, TValue>) => PresetHelper<TInput, TValue>;
+  /** Unregister a preset */
+  unregisterPreset: (name: string) => void;
+  /** Register a custom field type renderer */
   registerFieldType: (type: string, renderer: FieldRenderer) => void;
+  /** Register a custom validator */
   registerValidator: (name: string, validator: ValidatorFn) => void;
-  addHook: <K extends keyof LifecycleHooks>(hook: K, fn: NonNullable<LifecycleHooks[K]>) => void;
-  removeHook: <K extends keyof LifecycleHooks>(hook: K, fn: NonNullable<LifecycleHooks[K]>) => void;
-  config: GlobalConfig;
+  /** Unregister a validator */
+  unregisterValidator: (name: string) => void;
+
+  // Configuration
+  /** Get this plugin's configuration */
+  getConfig: () => TConfig;
+  /** Merge values into this plugin's configuration */
+  setConfig: (config: Partial<TConfig>) => void;
+  /** Get another installed plugin's configuration (e.g. a dependency) */
+  getPluginConfig: <C extends object = Record<string, any>>(pluginName: string) => C | undefined;
+  /** Get the library-wide configuration */
+  getGlobalConfig: () => GlobalConfig;
+
+  // Modals
+  /** Get all open modals */
   getActiveModals: () => ModalInstance[];
+  /** Open a modal */
   modal: <T = any>(options: ModalOptions<T>) => Promise<ModalResult<T>>;
 }
 
+export interface Plugin<TConfig extends object = Record<string, any>> {
+  /** Unique plugin name */
+  name: string;
+  /** Plugin version */
+  version?: string;
+  /** Names of plugins that must be installed before this one */
+  dependencies?: string[];
+  /** Configuration used when `use()` is called without overrides */
+  defaultConfig?: TConfig;
+  /** Initialize plugin with context */
+  install: (context: PluginContext<TConfig>) => void | Promise<void>;
+  /** Cleanup when plugin is uninstalled */
+  uninstall?: () => void | Promise<void>;
+}
+
+/** @deprecated Use `PluginContext` */
+export type PluginAPI<TConfig extends object = Record<string, any>> = PluginContext<TConfig>;
+
 export type FieldRenderer = (
   field: FormField,
   value: any,
@@ -795,5 +1229,12 @@ export type FieldRenderer = (
 export type ValidatorFn = (
   value: any,
   rule: ValidationRule,
-  formData: Record<string, any>
+  formData: Record<string, any>,
+  field?: FormField
 ) => boolean | string | Promise<boolean | string>;
+
+/**
+ * Message templates keyed by message key (`required`, `minLength`, ...).
+ * `{name}` inserts a parameter; `{count, plural, one {# item} other {# items}}` picks a plural form
+ */
+export type ValidationMessages = Record<string, string>;
@@ -0,0 +1,189 @@
+/**
+ * Code Highlighting
+ * A small regex tokenizer with pluggable grammars for the code field
+ */
+
+import { escapeHtml } from '../core/sanitizer';
+
+export interface TokenRule {
+  /** Token type, rendered as the `swal-code__token--{type}` class */
+  type: string;
+  /** Pattern tried at the current position; flags other than `i`, `m` and `s` are ignored */
+  pattern: RegExp;
+}
+
+/** Rules in priority order: the first rule matching at a position wins */
+export type Grammar = TokenRule[];
+
+export interface Token {
+  /** Token type, or null for plain text */
+  type: string | null;
+  text: string;
+}
+
+// ============================================================================
+// Built-in Grammars
+// ============================================================================
+
+const NUMBER = /-?\b\d+(?:\.\d+)?(?:[eE][+-]?\d+)?\b/;
+
+const json: Grammar = [
+  { type: 'property', pattern: /"(?:[^"\\\n]|\\.)*"(?=\s*:)/ },
+  { type: 'string', pattern: /"(?:[^"\\\n]|\\.)*"/ },
+  { type: 'number', pattern: NUMBER },
+  { type: 'keyword', pattern: /\b(?:true|false|null)\b/ },
+  { type: 'punctuation', pattern: /[{}[\],:]/ },
+];
+
+const javascript: Grammar = [
+  { type: 'comment', pattern: /\/\/[^\n]*|\/\*[\s\S]*?(?:\*\/|$)/ },
+  { type: 'string', pattern: /(["'])(?:[^\\\n]|\\.)*?\1|`(?:[^`\\]|\\[\s\S])*`?/ },
+  {
+    type: 'keyword',
+    pattern: /\b(?:async|await|break|case|catch|class|const|continue|default|delete|do|else|export|extends|finally|for|from|function|if|import|in|instanceof|let|new|of|return|static|super|switch|this|throw|try|typeof|var|void|while|yield)\b/,
+  },
+  { type: 'literal', pattern: /\b(?:true|false|null|undefined|NaN|Infinity)\b/ },
+  { type: 'number', pattern: /\b(?:0[xX][\da-fA-F]+|0[bB][01]+|\d+(?:\.\d+)?(?:[eE][+-]?\d+)?)n?\b/ },
+  { type: 'function', pattern: /[A-Za-z_$][\w$]*(?=\s*\()/ },
+  { type: 'operator', pattern: /=>|[+\-*/%=&|^!<>?~]+/ },
+  { type: 'punctuation', pattern: /[{}[\]();,.:]/ },
+];
+
+const sql: Grammar = [
+  { type: 'comment', pattern: /--[^\n]*|\/\*[\s\S]*?(?:\*\/|$)/ },
+  { type: 'string', pattern: /'(?:[^']|'')*'?/ },
+  { type: 'property', pattern: /"(?:[^"]|"")*"|`[^`]*`/ },
+  {
+    type: 'keyword',
+    pattern: /\b(?:ADD|ALL|ALTER|AND|AS|ASC|BETWEEN|BY|CASE|CREATE|DELETE|DESC|DISTINCT|DROP|ELSE|END|EXISTS|FOREIGN|FROM|FULL|GROUP|HAVING|IN|INDEX|INNER|INSERT|INTO|IS|JOIN|KEY|LEFT|LIKE|LIMIT|NOT|OFFSET|ON|OR|ORDER|OUTER|PRIMARY|REFERENCES|RETURNING|RIGHT|SELECT|SET|TABLE|THEN|UNION|UPDATE|VALUES|VIEW|WHEN|WHERE|WITH)\b/i,
+  },
+  { type: 'literal', pattern: /\b(?:NULL|TRUE|FALSE)\b/i },
+  { type: 'number', pattern: NUMBER },
+  { type: 'function', pattern: /\b[A-Za-z_]\w*(?=\s*\()/ },
+  { type: 'operator', pattern: /[=<>!+\-*/%|]+/ },
+  { type: 'punctuation', pattern: /[(),;.]/ },
+];
+
+const html: Grammar = [
+  { type: 'comment', pattern: /<!--[\s\S]*?(?:-->|$)/ },
+  { type: 'keyword', pattern: /<!DOCTYPE[^>]*>/i },
+  { type: 'tag', pattern: /<\/?[A-Za-z][\w:-]*|\/?>/ },
+  // Attributes and their values only count inside a tag
+  { type: 'attribute', pattern: /(?<=<[A-Za-z][^<>]*\s)[A-Za-z_:@][\w:.-]*/ },
+  { type: 'string', pattern: /(?<=<[A-Za-z][^<>]*=\s*)(?:"[^"]*"|'[^']*')/ },
+  { type: 'literal', pattern: /&#?\w+;/ },
+];
+
+const yaml: Grammar = [
+  { type: 'comment', pattern: /(?<=^|\s)#[^\n]*/ },
+  { type: 'property', pattern: /(?<=^[ \t]*(?:- )?)[^\s#:'"-][^:\n]*?(?=:(?:\s|$))/m },
+  { type: 'string', pattern: /"(?:[^"\\\n]|\\.)*"|'(?:[^'\n]|'')*'/ },
+  { type: 'keyword', pattern: /\b(?:true|false|null|yes|no|on|off)\b|~/ },
+  { type: 'number', pattern: NUMBER },
+  { type: 'literal', pattern: /[&*][\w-]+/ },
+  { type: 'punctuation', pattern: /^---$|[{}[\],]|[-:|>](?=\s|$)/m },
+];
+
+// ============================================================================
+// Grammar Registry
+// ============================================================================
+
+const grammars = new Map<string, Grammar>([
+  ['json', json],
+  ['javascript', javascript],
+  ['js', javascript],
+  ['typescript', javascript],
+  ['ts', javascript],
+  ['sql', sql],
+  ['html', html],
+  ['xml', html],
+  ['yaml', yaml],
+  ['yml', yaml],
+]);
+
+/** Sticky copies of rule patterns, compiled once per rule */
+const stickyPatterns = new WeakMap<TokenRule, RegExp>();
+
+/**
+ * Register a grammar for a code field `language`
+ */
+export function registerGrammar(language: string, grammar: Grammar): void {
+  grammars.set(language.toLowerCase(), grammar);
+}
+
+/**
+ * Unregister a grammar
+ */
+export function unregisterGrammar(language: string): void {
+  grammars.delete(language.toLowerCase());
+}
+
+/**
+ * Check whether a grammar is registered for a language
+ */
+export function hasGrammar(language: string): boolean {
+  return grammars.has(language.toLowerCase());
+}
+
+// ============================================================================
+// Tokenizer
+// ============================================================================
+
+function stickyPattern(rule: TokenRule): RegExp {
+  let pattern = stickyPatterns.get(rule);
+  if (!pattern) {
+    const flags = rule.pattern.flags.replace(/[^ims]/g, '');
+    pattern = new RegExp(rule.pattern.source, `${flags}y`);
+    stickyPatterns.set(rule, pattern);
+  }
+  return pattern;
+}
+
+/**
+ * Split code into typed tokens; text no rule matches becomes plain tokens
+ */
+export function tokenize(code: string, grammar: Grammar): Token[] {
+  const tokens: Token[] = [];
+  let plain = '';
+  let pos = 0;
+
+  // Plain text advances a word at a time, so rules never match inside a word
+  const plainPattern = /[\w$]+|[\s\S]/y;
+
+  outer: while (pos < code.length) {
+    for (const rule of grammar) {
+      const pattern = stickyPattern(rule);
+      pattern.lastIndex = pos;
+      const match = pattern.exec(code);
+      if (match && match[0].length > 0) {
+        if (plain) tokens.push({ type: null, text: plain });
+        plain = '';
+        tokens.push({ type: rule.type, text: match[0] });
+        pos += match[0].length;
+        continue outer;
+      }
+    }
+
+    plainPattern.lastIndex = pos;
+    const text = plainPattern.exec(code)![0];
+    plain += text;
+    pos += text.length;
+  }
+
+  if (plain) tokens.push({ type: null, text: plain });
+  return tokens;
+}
+
+/**
+ * Render code as escaped HTML with a span per token; unknown languages are returned escaped
+ */
+export function highlight(code: string, language?: string): string {
+  const grammar = language ? grammars.get(language.toLowerCase()) : undefined;
+  if (!grammar) return escapeHtml(code);
+
+  return tokenize(code, grammar)
+    .map(token => token.type
+      ? `<span class="swal-code__token--${token.type}">${escapeHtml(token.text)}</span>`
+      : escapeHtml(token.text))
+    .join('');
+}
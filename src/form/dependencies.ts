@@ -0,0 +1,217 @@
+/**
+ * Field Dependencies
+ * Conditions, computed values and dependent options between form fields
+ */
+
+import type { FormField, FieldCondition, FieldConditionInput } from '../core/types';
+import { getPath, pathsOverlap } from './paths';
+
+// ============================================================================
+// Named Conditions
+// ============================================================================
+
+type ConditionFn = (formData: Record<string, any>) => boolean;
+
+const namedConditions = new Map<string, ConditionFn>();
+
+/**
+ * Register a condition that JSON schemas can reference by name
+ */
+export function registerCondition(name: string, condition: ConditionFn): void {
+  namedConditions.set(name, condition);
+}
+
+/**
+ * Unregister a named condition
+ */
+export function unregisterCondition(name: string): void {
+  namedConditions.delete(name);
+}
+
+/**
+ * Check whether a named condition is registered
+ */
+export function hasCondition(name: string): boolean {
+  return namedConditions.has(name);
+}
+
+// ============================================================================
+// Conditions
+// ============================================================================
+
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+/**
+ * Evaluate a function or JSON condition against form data
+ */
+export function evaluateCondition(condition: FieldConditionInput, formData: Record<string, any>): boolean {
+  if (typeof condition === 'function') return condition(formData);
+
+  if ('all' in condition) return condition.all.every(c => evaluateCondition(c, formData));
+  if ('any' in condition) return condition.any.some(c => evaluateCondition(c, formData));
+  if ('not' in condition) return !evaluateCondition(condition.not, formData);
+  if ('condition' in condition) {
+    const named = namedConditions.get(condition.condition);
+    if (!named) {
+      console.warn(`[SweetAlert++] Unknown condition: ${condition.condition}`);
+      return false;
+    }
+    return named(formData);
+  }
+
+  const value = getPath(formData, condition.field);
+  let hasOperator = false;
+  const check = (present: boolean, passes: () => boolean): boolean => {
+    if (!present) return true;
+    hasOperator = true;
+    return passes();
+  };
+
+  const passes =
+    check('equals' in condition, () => value === condition.equals) &&
+    check('notEquals' in condition, () => value !== condition.notEquals) &&
+    check(condition.in !== undefined, () => condition.in!.includes(value)) &&
+    check(condition.notIn !== undefined, () => !condition.notIn!.includes(value)) &&
+    check(condition.gt !== undefined, () => Number(value) > condition.gt!) &&
+    check(condition.gte !== undefined, () => Number(value) >= condition.gte!) &&
+    check(condition.lt !== undefined, () => Number(value) < condition.lt!) &&
+    check(condition.lte !== undefined, () => Number(value) <= condition.lte!) &&
+    check(condition.empty !== undefined, () => isEmpty(value) === condition.empty) &&
+    check(condition.matches !== undefined, () => new RegExp(condition.matches!).test(String(value ?? '')));
+
+  return hasOperator ? passes : !!value && !isEmpty(value);
+}
+
+/**
+ * Collect the fields a JSON condition reads
+ * @returns false when the condition references a named condition with unknown inputs
+ */
+function collectConditionFields(condition: FieldCondition, into: Set<string>): boolean {
+  if ('all' in condition) return condition.all.map(c => collectConditionFields(c, into)).every(Boolean);
+  if ('any' in condition) return condition.any.map(c => collectConditionFields(c, into)).every(Boolean);
+  if ('not' in condition) return collectConditionFields(condition.not, into);
+  if ('condition' in condition) return false;
+  into.add(condition.field);
+  return true;
+}
+
+// ============================================================================
+// Dependency Graph
+// ============================================================================
+
+/**
+ * Fields whose value changes can affect this field's value or presence.
+ * Returns null when a function or named condition has no declared `dependsOn`, meaning "any field".
+ */
+export function getValueDependencies(field: FormField): string[] | null {
+  const deps = new Set<string>(field.dependentOptions?.dependsOn ?? []);
+  let unknown = false;
+
+  for (const condition of [field.showWhen, field.compute]) {
+    if (!condition) continue;
+    const declared = typeof condition !== 'function' && collectConditionFields(condition, deps);
+    if (!declared) {
+      if (field.dependsOn) field.dependsOn.forEach(d => deps.add(d));
+      else unknown = true;
+    }
+  }
+
+  return unknown ? null : Array.from(deps);
+}
+
+/**
+ * Find a cycle between fields that derive values from each other
+ * @returns The cycle as a list of field names (first name repeated at the end), or null
+ */
+export function findDependencyCycle(fields: FormField[]): string[] | null {
+  const names = fields.map(f => f.name);
+  const edges = new Map<string, string[]>();
+  for (const field of fields) {
+    const deps = getValueDependencies(field);
+    // Undeclared function dependencies cannot be checked; `address` reaches `address.city`
+    edges.set(field.name, names.filter(n => (deps ?? []).some(d => pathsOverlap(d, n))));
+  }
+
+  const state = new Map<string, 'visiting' | 'done'>();
+  const path: string[] = [];
+
+  function visit(name: string): string[] | null {
+    if (state.get(name) === 'done') return null;
+    if (state.get(name) === 'visiting') {
+      return [...path.slice(path.indexOf(name)), name];
+    }
+
+    state.set(name, 'visiting');
+    path.push(name);
+    for (const dep of edges.get(name) ?? []) {
+      const cycle = visit(dep);
+      if (cycle) return cycle;
+    }
+    path.pop();
+    state.set(name, 'done');
+    return null;
+  }
+
+  for (const name of edges.keys()) {
+    const cycle = visit(name);
+    if (cycle) return cycle.reverse();
+  }
+  return null;
+}
+
+/**
+ * Throw if the schema contains circular field dependencies
+ */
+export function assertNoDependencyCycles(fields: FormField[]): void {
+  const cycle = findDependencyCycle(fields);
+  if (cycle) {
+    throw new Error(`Circular field dependency: ${cycle.join(' -> ')}`);
+  }
+}
+
+/**
+ * Order computed fields so every field is computed after the fields it reads
+ */
+export function sortComputedFields(fields: FormField[]): FormField[] {
+  const computed = fields.filter(f => f.compute);
+  const sorted: FormField[] = [];
+  const seen = new Set<string>();
+
+  function visit(field: FormField) {
+    if (seen.has(field.name)) return;
+    seen.add(field.name);
+    for (const dep of getValueDependencies(field) ?? []) {
+      computed.filter(f => pathsOverlap(dep, f.name)).forEach(visit);
+    }
+    sorted.push(field);
+  }
+
+  computed.forEach(visit);
+  return sorted;
+}
+
+// ============================================================================
+// Field State
+// ============================================================================
+
+/**
+ * Resolve `enableWhen` / `requiredWhen` into the effective field config
+ */
+export function resolveFieldState<T extends FormField>(field: T, formData: Record<string, any>): T {
+  if (!field.enableWhen && !field.requiredWhen) return field;
+
+  const disabled = field.disabled || (field.enableWhen ? !evaluateCondition(field.enableWhen, formData) : false);
+  const required = field.required || (field.requiredWhen ? evaluateCondition(field.requiredWhen, formData) : false);
+
+  if (disabled === !!field.disabled && required === !!field.required) return field;
+  return { ...field, disabled, required };
+}
+
+/**
+ * Whether a field is currently visible
+ */
+export function isFieldVisible(field: FormField, formData: Record<string, any>): boolean {
+  return !field.showWhen || evaluateCondition(field.showWhen, formData);
+}
@@ -0,0 +1,74 @@
+/**
+ * Field Helpers
+ * Shared building blocks for field renderers
+ */
+
+import type { FormField } from '../core/types';
+
+export type FieldRenderer = (
+  field: FormField,
+  value: any,
+  onChange: (value: any) => void,
+  error?: string
+) => HTMLElement;
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+export function createFieldWrapper(field: FormField, error?: string): HTMLElement {
+  const wrapper = document.createElement('div');
+  wrapper.className = `swal-field swal-field--${field.type}`;
+  if (error) wrapper.classList.add('swal-field--error');
+  if (field.disabled) wrapper.classList.add('swal-field--disabled');
+  wrapper.dataset.fieldName = field.name;
+  return wrapper;
+}
+
+export function createLabel(field: FormField): HTMLLabelElement | null {
+  if (!field.label) return null;
+
+  const label = document.createElement('label');
+  label.className = 'swal-field__label';
+  label.htmlFor = `swal-field-${field.name}`;
+  label.textContent = field.label;
+
+  if (field.required) {
+    const asterisk = document.createElement('span');
+    asterisk.className = 'swal-field__required';
+    asterisk.textContent = ' *';
+    asterisk.setAttribute('aria-hidden', 'true');
+    label.appendChild(asterisk);
+  }
+
+  return label;
+}
+
+export function createHint(field: FormField): HTMLElement | null {
+  if (!field.hint) return null;
+
+  const hint = document.createElement('div');
+  hint.className = 'swal-field__hint';
+  hint.id = `swal-field-${field.name}-hint`;
+  hint.textContent = field.hint;
+  return hint;
+}
+
+export function createError(error?: string): HTMLElement | null {
+  if (!error) return null;
+
+  const errorEl = document.createElement('div');
+  errorEl.className = 'swal-field__error';
+  errorEl.setAttribute('role', 'alert');
+  errorEl.textContent = error;
+  return errorEl;
+}
+
+export function setCommonAttributes(input: HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement, field: FormField): void {
+  input.id = `swal-field-${field.name}`;
+  input.name = field.name;
+  if (field.disabled) input.disabled = true;
+  if (field.placeholder) input.placeholder = field.placeholder;
+  if (field.autocomplete) input.autocomplete = field.autocomplete;
+  if (field.hint) input.setAttribute('aria-describedby', `swal-field-${field.name}-hint`);
+}
@@ -3,20 +3,37 @@
  * Individual field type rendering components
  */
 
-import type { FormField } from '../core/types';
-import { createMaskedInput, applyMask } from './validation';
+import type {
+  FormField,
+  SelectOption,
+  SelectFieldConfig,
+  SwitchFieldConfig,
+  OTPFieldConfig,
+  RangeFieldConfig,
+  TextFieldConfig,
+} from '../core/types';
+import { createMaskedInput, MaskedInput } from './mask';
+import {
+  FieldRenderer,
+  createFieldWrapper,
+  createLabel,
+  createHint,
+  createError,
+  setCommonAttributes,
+} from './field-helpers';
+import { renderAutocomplete } from './fields/autocomplete';
+import { renderSignature } from './fields/signature';
+import { renderImageUpload } from './fields/image-upload';
+import { renderRichText } from './fields/rich-text';
+import { renderMarkdown } from './fields/markdown';
+import { renderCodeEditor } from './fields/code-editor';
+import { renderDatePicker } from './fields/date-picker';
+import { renderArrayField } from './fields/array';
 
 // ============================================================================
 // Field Renderer Registry
 // ============================================================================
 
-type FieldRenderer = (
-  field: FormField,
-  value: any,
-  onChange: (value: any) => void,
-  error?: string
-) => HTMLElement;
-
 const fieldRenderers = new Map<string, FieldRenderer>();
 
 /**
@@ -26,6 +43,13 @@ export function registerFieldRenderer(type: string, renderer: FieldRenderer): vo
   fieldRenderers.set(type, renderer);
 }
 
+/**
+ * Unregister a custom field renderer
+ */
+export function unregisterFieldRenderer(type: string): void {
+  fieldRenderers.delete(type);
+}
+
 /**
  * Get field renderer for a type
  */
@@ -33,67 +57,6 @@ export function getFieldRenderer(type: string): FieldRenderer | undefined {
   return fieldRenderers.get(type) || builtInRenderers[type];
 }
 
-// ============================================================================
-// Helper Functions
-// ============================================================================
-
-function createFieldWrapper(field: FormField, error?: string): HTMLElement {
-  const wrapper = document.createElement('div');
-  wrapper.className = `swal-field swal-field--${field.type}`;
-  if (error) wrapper.classList.add('swal-field--error');
-  if (field.disabled) wrapper.classList.add('swal-field--disabled');
-  wrapper.dataset.fieldName = field.name;
-  return wrapper;
-}
-
-function createLabel(field: FormField): HTMLLabelElement | null {
-  if (!field.label) return null;
-
-  const label = document.createElement('label');
-  label.className = 'swal-field__label';
-  label.htmlFor = `swal-field-${field.name}`;
-  label.textContent = field.label;
-
-  if (field.required) {
-    const asterisk = document.createElement('span');
-    asterisk.className = 'swal-field__required';
-    asterisk.textContent = ' *';
-    asterisk.setAttribute('aria-hidden', 'true');
-    label.appendChild(asterisk);
-  }
-
-  return label;
-}
-
-function createHint(field: FormField): HTMLElement | null {
-  if (!field.hint) return null;
-
-  const hint = document.createElement('div');
-  hint.className = 'swal-field__hint';
-  hint.id = `swal-field-${field.name}-hint`;
-  hint.textContent = field.hint;
-  return hint;
-}
-
-function createError(error?: string): HTMLElement | null {
-  if (!error) return null;
-
-  const errorEl = document.createElement('div');
-  errorEl.className = 'swal-field__error';
-  errorEl.setAttribute('role', 'alert');
-  errorEl.textContent = error;
-  return errorEl;
-}
-
-function setCommonAttributes(input: HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement, field: FormField): void {
-  input.id = `swal-field-${field.name}`;
-  input.name = field.name;
-  if (field.disabled) input.disabled = true;
-  if (field.placeholder) input.placeholder = field.placeholder;
-  if (field.autocomplete) input.autocomplete = field.autocomplete;
-  if (field.hint) input.setAttribute('aria-describedby', `swal-field-${field.name}-hint`);
-}
-
 // ============================================================================
 // Built-in Field Renderers
 // ============================================================================
@@ -116,7 +79,7 @@ const builtInRenderers: Record<string, FieldRenderer> = {
     }
 
     const input = document.createElement('input');
-    input.type = 'text';
+    input.type = ['url', 'tel', 'search'].includes(field.type) ? field.type : 'text';
     input.className = 'swal-input';
     input.value = value ?? field.defaultValue ?? '';
     setCommonAttributes(input, field);
@@ -125,13 +88,17 @@ const builtInRenderers: Record<string, FieldRenderer> = {
     if (field.maxLength) input.maxLength = field.maxLength;
 
     // Apply mask if specified
-    let maskHandler: { destroy: () => void } | null = null;
-    if (field.mask) {
-      maskHandler = createMaskedInput(input, field.mask);
+    const { mask, maskChar, maskOutput } = field as TextFieldConfig;
+    let maskHandler: MaskedInput | null = null;
+    if (mask) {
+      maskHandler = createMaskedInput(input, mask, maskChar);
     }
 
-    input.addEventListener('input', () => onChange(input.value));
-    input.addEventListener('blur', () => onChange(input.value));
+    const currentValue = () =>
+      maskHandler && maskOutput === 'raw' ? maskHandler.getValue().raw : input.value;
+
+    input.addEventListener('input', () => onChange(currentValue()));
+    input.addEventListener('blur', () => onChange(currentValue()));
 
     inputWrapper.appendChild(input);
 
@@ -669,20 +636,22 @@ const builtInRenderers: Record<string, FieldRenderer> = {
 
   // Switch/Toggle
   switch: (field, value, onChange, error) => {
+    const config = field as SwitchFieldConfig;
     const wrapper = createFieldWrapper(field, error);
 
     const switchWrapper = document.createElement('label');
     switchWrapper.className = 'swal-switch';
+    if (config.size) switchWrapper.classList.add(`swal-switch--${config.size}`);
+    if (config.color) switchWrapper.style.setProperty('--swal-switch-color', config.color);
 
     const input = document.createElement('input');
     input.type = 'checkbox';
     input.id = `swal-field-${field.name}`;
     input.name = field.name;
+    input.setAttribute('role', 'switch');
     input.checked = Boolean(value ?? field.defaultValue);
     if (field.disabled) input.disabled = true;
 
-    input.addEventListener('change', () => onChange(input.checked));
-
     const slider = document.createElement('span');
     slider.className = 'swal-switch__slider';
 
@@ -690,9 +659,24 @@ const builtInRenderers: Record<string, FieldRenderer> = {
     labelText.className = 'swal-switch__label';
     labelText.textContent = field.label || '';
 
+    // On/off state text
+    const stateText = document.createElement('span');
+    stateText.className = 'swal-switch__state';
+    stateText.setAttribute('aria-hidden', 'true');
+    const updateStateText = () => {
+      stateText.textContent = (input.checked ? config.onLabel : config.offLabel) || '';
+    };
+    updateStateText();
+
+    input.addEventListener('change', () => {
+      updateStateText();
+      onChange(input.checked);
+    });
+
     switchWrapper.appendChild(input);
     switchWrapper.appendChild(slider);
     switchWrapper.appendChild(labelText);
+    if (config.onLabel || config.offLabel) switchWrapper.appendChild(stateText);
     wrapper.appendChild(switchWrapper);
 
     const hint = createHint(field);
@@ -825,37 +809,7 @@ const builtInRenderers: Record<string, FieldRenderer> = {
   },
 
   // Date picker
-  date: (field, value, onChange, error) => {
-    const wrapper = createFieldWrapper(field, error);
-    const label = createLabel(field);
-    if (label) wrapper.appendChild(label);
-
-    const inputWrapper = document.createElement('div');
-    inputWrapper.className = 'swal-field__input-wrapper swal-field__input-wrapper--date';
-
-    const input = document.createElement('input');
-    input.type = 'date';
-    input.className = 'swal-input';
-    if (value) input.value = formatDateForInput(value);
-    setCommonAttributes(input, field);
-
-    if (field.min) input.min = formatDateForInput(field.min);
-    if (field.max) input.max = formatDateForInput(field.max);
-
-    input.addEventListener('change', () => {
-      onChange(input.value ? new Date(input.value) : null);
-    });
-
-    inputWrapper.appendChild(input);
-    wrapper.appendChild(inputWrapper);
-
-    const hint = createHint(field);
-    if (hint) wrapper.appendChild(hint);
-    const errorEl = createError(error);
-    if (errorEl) wrapper.appendChild(errorEl);
-
-    return wrapper;
-  },
+  date: renderDatePicker,
 
   // Time picker
   time: (field, value, onChange, error) => {
@@ -1124,6 +1078,7 @@ const builtInRenderers: Record<string, FieldRenderer> = {
 
   // OTP/PIN input
   otp: (field, value, onChange, error) => {
+    const config = field as OTPFieldConfig;
     const wrapper = createFieldWrapper(field, error);
     const label = createLabel(field);
     if (label) wrapper.appendChild(label);
@@ -1131,22 +1086,34 @@ const builtInRenderers: Record<string, FieldRenderer> = {
     const otpWrapper = document.createElement('div');
     otpWrapper.className = 'swal-otp';
 
-    const length = field.length || 6;
+    const length = config.length || 6;
     const inputs: HTMLInputElement[] = [];
     const currentValue = String(value || '').split('');
+    // PINs are masked unless explicitly disabled
+    const masked = config.masked ?? field.type === 'pin';
+    const invalidChars = config.alphanumeric ? /[^a-zA-Z0-9]/g : /[^0-9]/g;
+
+    // Submit the surrounding modal once every digit is filled
+    function maybeAutoSubmit(fullValue: string) {
+      if (!config.autoSubmit || fullValue.length !== length) return;
+      const confirmBtn = wrapper.closest('[role="dialog"], [role="alertdialog"]')
+        ?.querySelector('[data-action="confirm"]') as HTMLButtonElement | null;
+      confirmBtn?.click();
+    }
 
     for (let i = 0; i < length; i++) {
       const input = document.createElement('input');
-      input.type = field.masked ? 'password' : 'text';
+      input.type = masked ? 'password' : 'text';
       input.className = 'swal-otp__input';
       input.maxLength = 1;
-      input.inputMode = 'numeric';
-      input.pattern = '[0-9]*';
+      input.inputMode = config.alphanumeric ? 'text' : 'numeric';
+      input.pattern = config.alphanumeric ? '[a-zA-Z0-9]*' : '[0-9]*';
       input.value = currentValue[i] || '';
+      input.setAttribute('aria-label', `${field.label || 'Digit'} ${i + 1} of ${length}`);
       if (field.disabled) input.disabled = true;
 
       input.addEventListener('input', () => {
-        const val = input.value.replace(/[^0-9]/g, '');
+        const val = input.value.replace(invalidChars, '');
         input.value = val;
 
         if (val && i < length - 1) {
@@ -1155,6 +1122,7 @@ const builtInRenderers: Record<string, FieldRenderer> = {
 
         const fullValue = inputs.map(inp => inp.value).join('');
         onChange(fullValue);
+        maybeAutoSubmit(fullValue);
       });
 
       input.addEventListener('keydown', (e) => {
@@ -1169,7 +1137,7 @@ const builtInRenderers: Record<string, FieldRenderer> = {
 
       input.addEventListener('paste', (e) => {
         e.preventDefault();
-        const pastedData = e.clipboardData?.getData('text').replace(/[^0-9]/g, '').slice(0, length);
+        const pastedData = e.clipboardData?.getData('text').replace(invalidChars, '').slice(0, length);
         if (pastedData) {
           for (let j = 0; j < pastedData.length; j++) {
             if (inputs[j]) inputs[j].value = pastedData[j];
@@ -1177,6 +1145,7 @@ const builtInRenderers: Record<string, FieldRenderer> = {
           const lastIndex = Math.min(pastedData.length, length) - 1;
           inputs[lastIndex].focus();
           onChange(pastedData);
+          maybeAutoSubmit(pastedData);
         }
       });
 
@@ -1202,6 +1171,337 @@ const builtInRenderers: Record<string, FieldRenderer> = {
     return wrapper;
   },
 
+  // Multi-select list
+  multiselect: (field, value, onChange, error) => {
+    const config = field as SelectFieldConfig;
+    const wrapper = createFieldWrapper(field, error);
+    const label = createLabel(field);
+    if (label) {
+      label.id = `swal-field-${field.name}-label`;
+      wrapper.appendChild(label);
+    }
+
+    const container = document.createElement('div');
+    container.className = 'swal-multiselect';
+
+    const selected: Array<SelectOption['value']> = Array.isArray(value) ? [...value] : [];
+    const options = config.options || [];
+
+    const chips = document.createElement('div');
+    chips.className = 'swal-multiselect__chips';
+    chips.setAttribute('aria-live', 'polite');
+
+    let search: HTMLInputElement | null = null;
+    if (config.searchable) {
+      search = document.createElement('input');
+      search.type = 'search';
+      search.className = 'swal-input swal-multiselect__search';
+      search.placeholder = field.placeholder || 'Search...';
+      search.setAttribute('aria-label', `Filter ${field.label || field.name}`);
+      if (field.disabled) search.disabled = true;
+    }
+
+    const list = document.createElement('div');
+    list.className = 'swal-multiselect__list';
+    list.id = `swal-field-${field.name}`;
+    list.setAttribute('role', 'listbox');
+    list.setAttribute('aria-multiselectable', 'true');
+    if (label) list.setAttribute('aria-labelledby', label.id);
+
+    const checkboxes = new Map<SelectOption['value'], HTMLInputElement>();
+
+    function commit() {
+      onChange([...selected]);
+      render();
+    }
+
+    function toggle(optValue: SelectOption['value'], checked: boolean) {
+      const idx = selected.indexOf(optValue);
+      if (checked && idx === -1) selected.push(optValue);
+      if (!checked && idx > -1) selected.splice(idx, 1);
+      commit();
+    }
+
+    function render() {
+      // Chips for the current selection
+      chips.innerHTML = '';
+      for (const optValue of selected) {
+        const opt = options.find(o => o.value === optValue);
+        const chip = document.createElement('span');
+        chip.className = 'swal-tags__tag';
+        const text = document.createElement('span');
+        text.className = 'swal-tags__tag-text';
+        text.textContent = opt?.label ?? String(optValue);
+        const remove = document.createElement('button');
+        remove.type = 'button';
+        remove.className = 'swal-tags__tag-remove';
+        remove.setAttribute('aria-label', `Remove ${text.textContent}`);
+        remove.textContent = '×';
+        remove.disabled = !!field.disabled;
+        remove.addEventListener('click', () => toggle(optValue, false));
+        chip.appendChild(text);
+        chip.appendChild(remove);
+        chips.appendChild(chip);
+      }
+
+      // Sync checkbox state and enforce maxSelections
+      const limitReached = config.maxSelections !== undefined && selected.length >= config.maxSelections;
+      checkboxes.forEach((checkbox, optValue) => {
+        const opt = options.find(o => o.value === optValue);
+        checkbox.checked = selected.includes(optValue);
+        checkbox.disabled = !!field.disabled || !!opt?.disabled || (limitReached && !checkbox.checked);
+        checkbox.closest('[role="option"]')?.setAttribute('aria-selected', String(checkbox.checked));
+      });
+
+      if (selectAll) {
+        const enabled = options.filter(o => !o.disabled);
+        selectAll.checked = enabled.length > 0 && enabled.every(o => selected.includes(o.value));
+        selectAll.indeterminate = !selectAll.checked && selected.length > 0;
+      }
+    }
+
+    let selectAll: HTMLInputElement | null = null;
+    if (config.showSelectAll && config.maxSelections === undefined) {
+      const item = document.createElement('label');
+      item.className = 'swal-checkbox swal-multiselect__select-all';
+      selectAll = document.createElement('input');
+      selectAll.type = 'checkbox';
+      if (field.disabled) selectAll.disabled = true;
+      selectAll.addEventListener('change', () => {
+        selected.length = 0;
+        if (selectAll!.checked) {
+          options.filter(o => !o.disabled).forEach(o => selected.push(o.value));
+        }
+        commit();
+      });
+      const checkmark = document.createElement('span');
+      checkmark.className = 'swal-checkbox__checkmark';
+      const text = document.createElement('span');
+      text.className = 'swal-checkbox__label';
+      text.textContent = 'Select all';
+      item.appendChild(selectAll);
+      item.appendChild(checkmark);
+      item.appendChild(text);
+      list.appendChild(item);
+    }
+
+    let currentGroup: string | undefined;
+    for (const opt of options) {
+      if (opt.group && opt.group !== currentGroup) {
+        currentGroup = opt.group;
+        const groupLabel = document.createElement('div');
+        groupLabel.className = 'swal-multiselect__group';
+        groupLabel.setAttribute('role', 'presentation');
+        groupLabel.textContent = opt.group;
+        list.appendChild(groupLabel);
+      }
+
+      const item = document.createElement('label');
+      item.className = 'swal-checkbox swal-multiselect__option';
+      item.setAttribute('role', 'option');
+      item.dataset.label = opt.label.toLowerCase();
+
+      const checkbox = document.createElement('input');
+      checkbox.type = 'checkbox';
+      checkbox.value = String(opt.value);
+      checkbox.addEventListener('change', () => toggle(opt.value, checkbox.checked));
+      checkboxes.set(opt.value, checkbox);
+
+      const checkmark = document.createElement('span');
+      checkmark.className = 'swal-checkbox__checkmark';
+      checkmark.innerHTML = '<svg viewBox="0 0 24 24" width="14" height="14"><path fill="currentColor" d="M9 16.17L4.83 12l-1.42 1.41L9 19 21 7l-1.41-1.41z"/></svg>';
+
+      const text = document.createElement('span');
+      text.className = 'swal-checkbox__label';
+      text.textContent = opt.label;
+
+      item.appendChild(checkbox);
+      item.appendChild(checkmark);
+      item.appendChild(text);
+      list.appendChild(item);
+    }
+
+    search?.addEventListener('input', () => {
+      const query = search!.value.trim().toLowerCase();
+      list.querySelectorAll<HTMLElement>('.swal-multiselect__option').forEach(item => {
+        item.hidden = !!query && !item.dataset.label!.includes(query);
+      });
+    });
+
+    container.appendChild(chips);
+    if (search) container.appendChild(search);
+    container.appendChild(list);
+    wrapper.appendChild(container);
+
+    render();
+
+    if (config.maxSelections !== undefined) {
+      const counter = document.createElement('div');
+      counter.className = 'swal-field__counter';
+      const updateCounter = () => {
+        counter.textContent = `${selected.length} / ${config.maxSelections}`;
+      };
+      updateCounter();
+      list.addEventListener('change', updateCounter);
+      chips.addEventListener('click', updateCounter);
+      wrapper.appendChild(counter);
+    }
+
+    const hint = createHint(field);
+    if (hint) wrapper.appendChild(hint);
+    const errorEl = createError(error);
+    if (errorEl) wrapper.appendChild(errorEl);
+
+    return wrapper;
+  },
+
+  // Calendar-backed date fields
+  datetime: renderDatePicker,
+  month: renderDatePicker,
+  week: renderDatePicker,
+  daterange: renderDatePicker,
+
+  // Slider with ticks and optional dual handles
+  slider: (field, value, onChange, error) => {
+    const config = field as RangeFieldConfig;
+    const wrapper = createFieldWrapper(field, error);
+    const label = createLabel(field);
+    if (label) wrapper.appendChild(label);
+
+    const min = config.min ?? 0;
+    const max = config.max ?? 100;
+    const step = config.step ?? 1;
+
+    const sliderWrapper = document.createElement('div');
+    sliderWrapper.className = 'swal-slider';
+    if (config.range) sliderWrapper.classList.add('swal-slider--range');
+
+    const track = document.createElement('div');
+    track.className = 'swal-slider__track';
+
+    const fill = document.createElement('div');
+    fill.className = 'swal-slider__fill';
+    track.appendChild(fill);
+
+    const valueDisplay = document.createElement('output');
+    valueDisplay.className = 'swal-field__range-value';
+
+    let values: number[] = config.range
+      ? (Array.isArray(value) ? [Number(value[0]), Number(value[1])] : [min, max])
+      : [typeof value === 'number' ? value : Number(field.defaultValue ?? min)];
+
+    const datalistId = `swal-field-${field.name}-ticks`;
+    const handles = values.map((handleValue, index) => {
+      const input = document.createElement('input');
+      input.type = 'range';
+      input.className = 'swal-range swal-slider__input';
+      input.min = String(min);
+      input.max = String(max);
+      input.step = String(step);
+      input.value = String(handleValue);
+      if (index === 0) input.id = `swal-field-${field.name}`;
+      if (config.range) input.setAttribute('aria-label', index === 0 ? 'Minimum' : 'Maximum');
+      if (config.ticks) input.setAttribute('list', datalistId);
+      if (field.disabled) input.disabled = true;
+
+      input.addEventListener('input', () => {
+        let next = parseFloat(input.value);
+        // Handles cannot cross each other
+        if (config.range) {
+          next = index === 0 ? Math.min(next, values[1]) : Math.max(next, values[0]);
+          input.value = String(next);
+        }
+        values[index] = next;
+        update();
+        onChange(config.range ? [...values] : next);
+      });
+
+      track.appendChild(input);
+      return input;
+    });
+
+    function update() {
+      const percent = (v: number) => ((v - min) / (max - min || 1)) * 100;
+      const start = config.range ? percent(values[0]) : 0;
+      const end = percent(values[values.length - 1]);
+      fill.style.left = `${start}%`;
+      fill.style.width = `${end - start}%`;
+      valueDisplay.textContent = values.join(' – ');
+      handles.forEach((handle, index) => handle.setAttribute('aria-valuetext', String(values[index])));
+    }
+
+    sliderWrapper.appendChild(track);
+    if (config.showValue !== false) sliderWrapper.appendChild(valueDisplay);
+
+    // Tick marks
+    if (config.ticks && config.ticks.length > 0) {
+      const datalist = document.createElement('datalist');
+      datalist.id = datalistId;
+      const ticks = document.createElement('div');
+      ticks.className = 'swal-slider__ticks';
+      ticks.setAttribute('aria-hidden', 'true');
+
+      for (const tick of config.ticks) {
+        const option = document.createElement('option');
+        option.value = String(tick.value);
+        if (tick.label) option.label = tick.label;
+        datalist.appendChild(option);
+
+        const tickEl = document.createElement('span');
+        tickEl.className = 'swal-slider__tick';
+        tickEl.style.left = `${((tick.value - min) / (max - min || 1)) * 100}%`;
+        tickEl.textContent = tick.label ?? '';
+        ticks.appendChild(tickEl);
+      }
+
+      sliderWrapper.appendChild(datalist);
+      sliderWrapper.appendChild(ticks);
+    }
+
+    if (config.showLabels) {
+      const labels = document.createElement('div');
+      labels.className = 'swal-field__range-labels';
+      const minLabel = document.createElement('span');
+      minLabel.textContent = String(min);
+      const maxLabel = document.createElement('span');
+      maxLabel.textContent = String(max);
+      labels.appendChild(minLabel);
+      labels.appendChild(maxLabel);
+      sliderWrapper.appendChild(labels);
+    }
+
+    wrapper.appendChild(sliderWrapper);
+    update();
+
+    const hint = createHint(field);
+    if (hint) wrapper.appendChild(hint);
+    const errorEl = createError(error);
+    if (errorEl) wrapper.appendChild(errorEl);
+
+    return wrapper;
+  },
+
+  // Rich widgets
+  autocomplete: renderAutocomplete,
+  signature: renderSignature,
+  image: renderImageUpload,
+  avatar: renderImageUpload,
+  richtext: renderRichText,
+  markdown: renderMarkdown,
+  code: renderCodeEditor,
+
+  // Repeatable sub-forms
+  array: renderArrayField,
+
+  // Hidden input
+  hidden: (field, value) => {
+    const input = document.createElement('input');
+    input.type = 'hidden';
+    input.name = field.name;
+    input.value = String(value ?? field.defaultValue ?? '');
+    return input;
+  },
+
   // Divider (layout element)
   divider: (field) => {
     const divider = document.createElement('hr');
@@ -1237,6 +1537,11 @@ const builtInRenderers: Record<string, FieldRenderer> = {
 // Alias common types
 builtInRenderers.toggle = builtInRenderers.switch;
 builtInRenderers.pin = builtInRenderers.otp;
+builtInRenderers.url = builtInRenderers.text;
+builtInRenderers.tel = builtInRenderers.text;
+builtInRenderers.search = builtInRenderers.text;
+builtInRenderers.percentage = (field, value, onChange, error) =>
+  builtInRenderers.number({ min: 0, max: 100, suffix: '%', ...field } as FormField, value, onChange, error);
 
 // ============================================================================
 // Utility Functions
@@ -1264,12 +1569,6 @@ function formatCurrency(value: number | string, decimals: number): string {
   });
 }
 
-function formatDateForInput(date: string | Date): string {
-  const d = date instanceof Date ? date : new Date(date);
-  if (isNaN(d.getTime())) return '';
-  return d.toISOString().split('T')[0];
-}
-
 function formatFileSize(bytes: number): string {
   if (bytes < 1024) return `${bytes} B`;
   if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
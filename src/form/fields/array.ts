@@ -0,0 +1,243 @@
+/**
+ * Array Field
+ * Repeatable sub-forms with add, remove and reorder controls
+ */
+
+import type { ArrayFieldConfig } from '../../core/types';
+import { FieldRenderer, createFieldWrapper, createLabel, createHint, createError } from '../field-helpers';
+import { renderForm, FormController } from '../form-renderer';
+import { cloneData } from '../paths';
+
+interface ArrayItem {
+  data: Record<string, any>;
+  controller: FormController | null;
+}
+
+/**
+ * Initial value for an array field: `minItems` copies of the default item
+ */
+export function createArrayDefault(config: ArrayFieldConfig): Record<string, any>[] {
+  return Array.from({ length: config.minItems ?? 0 }, () => cloneData({ ...config.defaultItem }));
+}
+
+/**
+ * Pick the errors that belong to an array field's items, keyed relative to it (`[0].email`)
+ */
+export function pickItemErrors(errors: Record<string, string>, name: string): Record<string, string> {
+  const prefix = `${name}[`;
+  const picked: Record<string, string> = {};
+  for (const [key, message] of Object.entries(errors)) {
+    if (key.startsWith(prefix)) picked[key.slice(name.length)] = message;
+  }
+  return picked;
+}
+
+export const renderArrayField: FieldRenderer = (field, value, onChange, error) => {
+  const config = field as ArrayFieldConfig;
+  const minItems = config.minItems ?? 0;
+  const maxItems = config.maxItems ?? Infinity;
+  const sortable = config.sortable !== false;
+  const interactive = !field.disabled && !field.readOnly;
+
+  const wrapper = createFieldWrapper(field, error);
+
+  const label = createLabel(field);
+  const labelId = `swal-field-${field.name}-label`;
+  if (label) {
+    // The label names the list rather than a single control
+    label.removeAttribute('for');
+    label.id = labelId;
+    wrapper.appendChild(label);
+  }
+
+  const list = document.createElement('div');
+  list.className = 'swal-array__items';
+  list.setAttribute('role', 'list');
+  if (label) list.setAttribute('aria-labelledby', labelId);
+  wrapper.appendChild(list);
+
+  const addBtn = document.createElement('button');
+  addBtn.type = 'button';
+  addBtn.className = 'swal-array__add';
+  addBtn.textContent = config.addText ?? '+ Add item';
+  wrapper.appendChild(addBtn);
+
+  // Announces additions, removals and moves to screen readers
+  const status = document.createElement('div');
+  status.className = 'swal-array__status';
+  status.setAttribute('role', 'status');
+  status.setAttribute('aria-live', 'polite');
+  wrapper.appendChild(status);
+
+  const items: ArrayItem[] = (Array.isArray(value) ? value : []).map((data) => ({
+    data: { ...data },
+    controller: null,
+  }));
+
+  function itemLabel(index: number): string {
+    if (typeof config.itemLabel === 'function') return config.itemLabel(index);
+    return `${config.itemLabel ?? 'Item'} ${index + 1}`;
+  }
+
+  function emit() {
+    onChange(items.map(item => ({ ...item.data })));
+  }
+
+  function announce(message: string) {
+    status.textContent = message;
+  }
+
+  function createControl(text: string, ariaLabel: string, className: string, onClick: () => void): HTMLButtonElement {
+    const btn = document.createElement('button');
+    btn.type = 'button';
+    btn.className = `swal-array__control ${className}`;
+    btn.textContent = text;
+    btn.setAttribute('aria-label', ariaLabel);
+    btn.addEventListener('click', onClick);
+    return btn;
+  }
+
+  // ==========================================================================
+  // Rendering
+  // ==========================================================================
+
+  function destroyItems() {
+    for (const item of items) {
+      item.controller?.destroy();
+      item.controller = null;
+    }
+  }
+
+  function renderItems(focus?: { index: number; selector: string }) {
+    destroyItems();
+    list.textContent = '';
+
+    items.forEach((item, index) => {
+      const title = itemLabel(index);
+
+      const itemEl = document.createElement('div');
+      itemEl.className = 'swal-array__item';
+      itemEl.setAttribute('role', 'listitem');
+      itemEl.setAttribute('aria-label', title);
+
+      const header = document.createElement('div');
+      header.className = 'swal-array__item-header';
+
+      const titleEl = document.createElement('span');
+      titleEl.className = 'swal-array__item-title';
+      titleEl.textContent = title;
+      header.appendChild(titleEl);
+
+      if (interactive) {
+        const controls = document.createElement('div');
+        controls.className = 'swal-array__item-controls';
+
+        if (sortable) {
+          const up = createControl('↑', `Move ${title} up`, 'swal-array__move-up', () => move(index, index - 1));
+          up.disabled = index === 0;
+          const down = createControl('↓', `Move ${title} down`, 'swal-array__move-down', () => move(index, index + 1));
+          down.disabled = index === items.length - 1;
+          controls.appendChild(up);
+          controls.appendChild(down);
+        }
+
+        const remove = createControl('×', `Remove ${title}`, 'swal-array__remove', () => removeItem(index));
+        remove.disabled = items.length <= minItems;
+        controls.appendChild(remove);
+
+        header.appendChild(controls);
+      }
+
+      const body = document.createElement('div');
+      body.className = 'swal-array__item-body';
+
+      // Disabling the array disables every field in its items
+      const fields = interactive
+        ? config.fields
+        : config.fields.map(f => ({ ...f, disabled: field.disabled || f.disabled, readOnly: field.readOnly || f.readOnly }));
+
+      item.controller = renderForm({ fields, layout: config.layout }, body, {
+        initialData: item.data,
+        namePrefix: `${field.name}[${index}].`,
+        onChange: (data) => {
+          item.data = { ...data };
+          emit();
+        },
+      });
+
+      itemEl.appendChild(header);
+      itemEl.appendChild(body);
+      list.appendChild(itemEl);
+    });
+
+    addBtn.disabled = !interactive || items.length >= maxItems;
+    addBtn.hidden = !interactive;
+
+    if (focus) {
+      const itemEl = list.children[focus.index] as HTMLElement | undefined;
+      const target = itemEl?.querySelector<HTMLElement>(focus.selector);
+      // A disabled control cannot take focus, so fall back to the item's first control
+      (target && !(target as HTMLButtonElement).disabled ? target : itemEl?.querySelector<HTMLElement>('button:not(:disabled), input, select, textarea'))?.focus();
+    }
+  }
+
+  // ==========================================================================
+  // Item Operations
+  // ==========================================================================
+
+  function addItem() {
+    if (items.length >= maxItems) return;
+    items.push({ data: cloneData({ ...config.defaultItem }), controller: null });
+    renderItems({ index: items.length - 1, selector: '.swal-array__item-body input, .swal-array__item-body select, .swal-array__item-body textarea' });
+    announce(`${itemLabel(items.length - 1)} added`);
+    emit();
+  }
+
+  function removeItem(index: number) {
+    if (items.length <= minItems) return;
+    const title = itemLabel(index);
+    items[index].controller?.destroy();
+    items.splice(index, 1);
+    renderItems();
+    announce(`${title} removed`);
+
+    // Keep focus inside the list: next item, previous item, or the add button
+    const next = list.children[Math.min(index, items.length - 1)] as HTMLElement | undefined;
+    (next?.querySelector<HTMLElement>('.swal-array__remove:not(:disabled)') ?? addBtn).focus();
+    emit();
+  }
+
+  function move(from: number, to: number) {
+    if (to < 0 || to >= items.length) return;
+    const [item] = items.splice(from, 1);
+    items.splice(to, 0, item);
+    renderItems({ index: to, selector: to < from ? '.swal-array__move-up' : '.swal-array__move-down' });
+    announce(`Moved to position ${to + 1} of ${items.length}`);
+    emit();
+  }
+
+  addBtn.addEventListener('click', addItem);
+
+  renderItems();
+
+  const hint = createHint(field);
+  if (hint) wrapper.appendChild(hint);
+  const errorEl = createError(error);
+  if (errorEl) wrapper.appendChild(errorEl);
+
+  // Show validation errors inside items, keyed like `[0].email`
+  (wrapper as any).__setErrors = (errors: Record<string, string>) => {
+    items.forEach((item, index) => {
+      const prefix = `[${index}].`;
+      const itemErrors: Record<string, string> = {};
+      for (const [key, message] of Object.entries(errors)) {
+        if (key.startsWith(prefix)) itemErrors[key.slice(prefix.length)] = message;
+      }
+      item.controller?.setErrors(itemErrors);
+    });
+  };
+
+  (wrapper as any).__cleanup = destroyItems;
+
+  return wrapper;
+};
@@ -0,0 +1,475 @@
+/**
+ * Autocomplete Field
+ * ARIA 1.2 combobox with static or async suggestions
+ */
+
+import type { AutocompleteFieldConfig, SelectOption } from '../../core/types';
+import { FieldRenderer, createFieldWrapper, createLabel, createHint, createError } from '../field-helpers';
+
+type ListState = 'idle' | 'loading' | 'results' | 'empty' | 'error';
+
+export const renderAutocomplete: FieldRenderer = (field, value, onChange, error) => {
+  const config = field as AutocompleteFieldConfig;
+  const wrapper = createFieldWrapper(field, error);
+  const label = createLabel(field);
+  if (label) {
+    label.id = `swal-field-${field.name}-label`;
+    wrapper.appendChild(label);
+  }
+
+  const inputId = `swal-field-${field.name}`;
+  const listboxId = `${inputId}-listbox`;
+  const minQueryLength = config.minQueryLength ?? 0;
+  const debounceMs = config.loadOptions ? config.debounce ?? 300 : 0;
+  const cache = new Map<string, SelectOption[]>();
+
+  let selected: SelectOption[] = toOptions(value, config.options);
+  let results: SelectOption[] = [];
+  let activeIndex = -1;
+  let listState: ListState = 'idle';
+  let debounceTimer: ReturnType<typeof setTimeout> | undefined;
+  let controller: AbortController | null = null;
+
+  const container = document.createElement('div');
+  container.className = 'swal-autocomplete';
+  if (config.multiple) container.classList.add('swal-autocomplete--multiple');
+
+  const chips = document.createElement('div');
+  chips.className = 'swal-autocomplete__chips';
+
+  const input = document.createElement('input');
+  input.type = 'text';
+  input.className = 'swal-input swal-autocomplete__input';
+  input.id = inputId;
+  input.name = field.name;
+  input.autocomplete = 'off';
+  input.spellcheck = false;
+  input.placeholder = field.placeholder || '';
+  input.setAttribute('role', 'combobox');
+  input.setAttribute('aria-autocomplete', 'list');
+  input.setAttribute('aria-expanded', 'false');
+  input.setAttribute('aria-controls', listboxId);
+  if (field.disabled) input.disabled = true;
+  if (field.readOnly) input.readOnly = true;
+  if (field.required) input.setAttribute('aria-required', 'true');
+  if (error) input.setAttribute('aria-invalid', 'true');
+  if (!config.multiple && selected[0]) input.value = selected[0].label;
+  else if (!config.multiple && config.freeSolo && typeof value === 'string') input.value = value;
+
+  const listbox = document.createElement('ul');
+  listbox.className = 'swal-autocomplete__listbox';
+  listbox.id = listboxId;
+  listbox.setAttribute('role', 'listbox');
+  if (label) listbox.setAttribute('aria-labelledby', label.id);
+  if (config.multiple) listbox.setAttribute('aria-multiselectable', 'true');
+  listbox.hidden = true;
+
+  // Announces loading and result counts to screen readers
+  const status = document.createElement('div');
+  status.className = 'swal-autocomplete__status';
+  status.setAttribute('role', 'status');
+  status.setAttribute('aria-live', 'polite');
+
+  // ==========================================================================
+  // Value
+  // ==========================================================================
+
+  function emit() {
+    if (config.multiple) {
+      onChange(selected.map(o => o.value));
+    } else {
+      onChange(selected[0]?.value ?? null);
+    }
+  }
+
+  function isSelected(opt: SelectOption): boolean {
+    return selected.some(o => o.value === opt.value);
+  }
+
+  function choose(opt: SelectOption) {
+    if (opt.disabled) return;
+
+    if (config.multiple) {
+      // Choosing a selected option again toggles it off
+      selected = isSelected(opt) ? selected.filter(o => o.value !== opt.value) : [...selected, opt];
+      input.value = '';
+      renderChips();
+      close();
+    } else {
+      selected = [opt];
+      input.value = opt.label;
+      close();
+    }
+    emit();
+  }
+
+  function removeChip(opt: SelectOption) {
+    selected = selected.filter(o => o.value !== opt.value);
+    renderChips();
+    emit();
+    input.focus();
+  }
+
+  function renderChips() {
+    if (!config.multiple) return;
+    chips.innerHTML = '';
+
+    for (const opt of selected) {
+      const chip = document.createElement('span');
+      chip.className = 'swal-tags__tag swal-autocomplete__chip';
+
+      const text = document.createElement('span');
+      text.className = 'swal-tags__tag-text';
+      text.textContent = opt.label;
+
+      const remove = document.createElement('button');
+      remove.type = 'button';
+      remove.className = 'swal-tags__tag-remove';
+      remove.setAttribute('aria-label', `Remove ${opt.label}`);
+      remove.textContent = '×';
+      remove.disabled = !!field.disabled || !!field.readOnly;
+      remove.addEventListener('click', () => removeChip(opt));
+
+      chip.appendChild(text);
+      chip.appendChild(remove);
+      chips.appendChild(chip);
+    }
+  }
+
+  // ==========================================================================
+  // Listbox
+  // ==========================================================================
+
+  function setExpanded(expanded: boolean) {
+    listbox.hidden = !expanded;
+    input.setAttribute('aria-expanded', String(expanded));
+    container.classList.toggle('swal-autocomplete--open', expanded);
+  }
+
+  function close() {
+    setExpanded(false);
+    setActive(-1);
+  }
+
+  function setActive(index: number) {
+    activeIndex = index;
+    listbox.querySelectorAll('[role="option"]').forEach(el => {
+      el.classList.toggle('swal-autocomplete__option--active', el.id === optionId(index));
+    });
+
+    if (index > -1) {
+      input.setAttribute('aria-activedescendant', optionId(index));
+      document.getElementById(optionId(index))?.scrollIntoView?.({ block: 'nearest' });
+    } else {
+      input.removeAttribute('aria-activedescendant');
+    }
+  }
+
+  function optionId(index: number): string {
+    return `${listboxId}-option-${index}`;
+  }
+
+  function moveActive(delta: 1 | -1) {
+    if (results.length === 0) return;
+    let next = activeIndex;
+    // Skip disabled options, giving up after one full lap
+    for (let i = 0; i < results.length; i++) {
+      next = (next + delta + results.length) % results.length;
+      if (!results[next].disabled) {
+        setActive(next);
+        return;
+      }
+    }
+  }
+
+  function createOption(opt: SelectOption, index: number): HTMLLIElement {
+    const item = document.createElement('li');
+    item.className = 'swal-autocomplete__option';
+    item.id = optionId(index);
+    item.setAttribute('role', 'option');
+    item.setAttribute('aria-selected', String(isSelected(opt)));
+    if (opt.disabled) item.setAttribute('aria-disabled', 'true');
+
+    const text = document.createElement('span');
+    text.className = 'swal-autocomplete__option-label';
+    text.textContent = opt.label;
+    item.appendChild(text);
+
+    if (opt.description) {
+      const desc = document.createElement('span');
+      desc.className = 'swal-autocomplete__option-description';
+      desc.textContent = opt.description;
+      item.appendChild(desc);
+    }
+
+    // Keep focus in the input while picking with the pointer
+    item.addEventListener('mousedown', (e) => e.preventDefault());
+    item.addEventListener('click', () => choose(opt));
+    return item;
+  }
+
+  function renderList() {
+    listbox.innerHTML = '';
+
+    if (listState === 'loading' || listState === 'empty' || listState === 'error') {
+      const message = document.createElement('li');
+      message.className = `swal-autocomplete__message swal-autocomplete__message--${listState}`;
+      message.setAttribute('role', 'presentation');
+      message.textContent = listState === 'loading'
+        ? config.loadingText || 'Loading...'
+        : listState === 'error'
+          ? 'Could not load options'
+          : config.noResultsText || 'No results found';
+      listbox.appendChild(message);
+      status.textContent = message.textContent;
+      setExpanded(true);
+      setActive(-1);
+      return;
+    }
+
+    // Options sharing a group are rendered together, groups in first-seen order
+    const groups = new Map<string | undefined, SelectOption[]>();
+    for (const opt of results) {
+      const list = groups.get(opt.group) ?? [];
+      list.push(opt);
+      groups.set(opt.group, list);
+    }
+    results = Array.from(groups.values()).flat();
+
+    let index = 0;
+    let groupIndex = 0;
+    groups.forEach((options, group) => {
+      if (group === undefined) {
+        for (const opt of options) listbox.appendChild(createOption(opt, index++));
+        return;
+      }
+
+      const groupEl = document.createElement('li');
+      groupEl.className = 'swal-autocomplete__group';
+      groupEl.setAttribute('role', 'presentation');
+
+      const groupLabel = document.createElement('div');
+      groupLabel.className = 'swal-autocomplete__group-label';
+      groupLabel.id = `${listboxId}-group-${groupIndex++}`;
+      groupLabel.setAttribute('role', 'presentation');
+      groupLabel.textContent = group;
+
+      const groupList = document.createElement('ul');
+      groupList.setAttribute('role', 'group');
+      groupList.setAttribute('aria-labelledby', groupLabel.id);
+      for (const opt of options) groupList.appendChild(createOption(opt, index++));
+
+      groupEl.appendChild(groupLabel);
+      groupEl.appendChild(groupList);
+      listbox.appendChild(groupEl);
+    });
+
+    status.textContent = `${results.length} ${results.length === 1 ? 'result' : 'results'} available`;
+    setExpanded(results.length > 0);
+    setActive(-1);
+  }
+
+  // ==========================================================================
+  // Searching
+  // ==========================================================================
+
+  function filterStatic(query: string): SelectOption[] {
+    const q = query.toLowerCase();
+    return (config.options || []).filter(o => o.label.toLowerCase().includes(q));
+  }
+
+  function cancelPending() {
+    clearTimeout(debounceTimer);
+    controller?.abort();
+    controller = null;
+  }
+
+  async function search(query: string) {
+    cancelPending();
+
+    if (query.length < minQueryLength) {
+      results = [];
+      listState = 'idle';
+      close();
+      return;
+    }
+
+    if (!config.loadOptions) {
+      results = filterStatic(query);
+      listState = results.length ? 'results' : 'empty';
+      renderList();
+      return;
+    }
+
+    const cached = config.cacheResults !== false ? cache.get(query) : undefined;
+    if (cached) {
+      results = cached;
+      listState = results.length ? 'results' : 'empty';
+      renderList();
+      return;
+    }
+
+    const request = new AbortController();
+    controller = request;
+    listState = 'loading';
+    container.classList.add('swal-autocomplete--loading');
+    container.setAttribute('aria-busy', 'true');
+    renderList();
+
+    try {
+      const options = await config.loadOptions(query, request.signal);
+      // A newer query superseded this one
+      if (request.signal.aborted) return;
+      if (config.cacheResults !== false) cache.set(query, options);
+      results = options;
+      listState = results.length ? 'results' : 'empty';
+    } catch (err) {
+      if (request.signal.aborted) return;
+      console.error('[SweetAlert++] Autocomplete failed to load options:', err);
+      results = [];
+      listState = 'error';
+    } finally {
+      if (controller === request) {
+        controller = null;
+        container.classList.remove('swal-autocomplete--loading');
+        container.removeAttribute('aria-busy');
+      }
+    }
+
+    // Only render if the user is still interacting with this field
+    if (document.activeElement === input) renderList();
+  }
+
+  function scheduleSearch() {
+    const query = input.value.trim();
+    clearTimeout(debounceTimer);
+    if (debounceMs > 0) {
+      debounceTimer = setTimeout(() => search(query), debounceMs);
+    } else {
+      search(query);
+    }
+  }
+
+  // ==========================================================================
+  // Events
+  // ==========================================================================
+
+  input.addEventListener('input', () => {
+    if (!config.multiple) {
+      if (config.freeSolo) {
+        selected = [];
+        onChange(input.value || null);
+      } else if (selected.length > 0) {
+        // Editing the text invalidates the previous choice
+        selected = [];
+        emit();
+      }
+    }
+    scheduleSearch();
+  });
+
+  input.addEventListener('focus', () => {
+    if (minQueryLength === 0 && !config.loadOptions && !field.readOnly) search(input.value.trim());
+  });
+
+  input.addEventListener('keydown', (e) => {
+    if (field.readOnly) return;
+
+    switch (e.key) {
+      case 'ArrowDown':
+      case 'ArrowUp':
+        e.preventDefault();
+        if (listbox.hidden) {
+          // Alt+Down opens the popup without moving the active option
+          search(input.value.trim()).then(() => {
+            if (!e.altKey) moveActive(e.key === 'ArrowDown' ? 1 : -1);
+          });
+        } else {
+          moveActive(e.key === 'ArrowDown' ? 1 : -1);
+        }
+        break;
+
+      case 'Home':
+      case 'End':
+        if (!listbox.hidden && activeIndex > -1) {
+          e.preventDefault();
+          setActive(e.key === 'Home' ? -1 : results.length);
+          moveActive(e.key === 'Home' ? 1 : -1);
+        }
+        break;
+
+      case 'Enter':
+        if (!listbox.hidden && activeIndex > -1) {
+          e.preventDefault();
+          choose(results[activeIndex]);
+        } else if (config.multiple && config.freeSolo && input.value.trim()) {
+          e.preventDefault();
+          const text = input.value.trim();
+          choose(results.find(o => o.label === text) ?? { value: text, label: text });
+        }
+        break;
+
+      case 'Escape':
+        if (!listbox.hidden) {
+          e.preventDefault();
+          close();
+        } else if (input.value && !config.multiple) {
+          e.preventDefault();
+          input.value = '';
+          selected = [];
+          emit();
+        }
+        break;
+
+      case 'Backspace':
+        if (config.multiple && !input.value && selected.length > 0) {
+          removeChip(selected[selected.length - 1]);
+        }
+        break;
+
+      case 'Tab':
+        close();
+        break;
+    }
+  });
+
+  input.addEventListener('blur', () => {
+    close();
+    // Without free text the input must mirror the committed choice
+    if (!config.multiple && !config.freeSolo) {
+      input.value = selected[0]?.label ?? '';
+    }
+  });
+
+  container.appendChild(chips);
+  container.appendChild(input);
+  container.appendChild(listbox);
+  container.appendChild(status);
+  wrapper.appendChild(container);
+
+  renderChips();
+
+  const hint = createHint(field);
+  if (hint) {
+    input.setAttribute('aria-describedby', hint.id);
+    wrapper.appendChild(hint);
+  }
+  const errorEl = createError(error);
+  if (errorEl) wrapper.appendChild(errorEl);
+
+  (wrapper as any).__cleanup = () => {
+    cancelPending();
+    cache.clear();
+  };
+
+  return wrapper;
+};
+
+/**
+ * Resolve stored values back into options for display
+ */
+function toOptions(value: unknown, options: SelectOption[] = []): SelectOption[] {
+  if (value === null || value === undefined || value === '') return [];
+  const values = Array.isArray(value) ? value : [value];
+  return values.map(v => options.find(o => o.value === v) ?? { value: v as SelectOption['value'], label: String(v) });
+}
@@ -0,0 +1,588 @@
+/**
+ * Calendar
+ * Accessible month/day grid shared by the date, datetime, daterange, month and week fields
+ */
+
+// ============================================================================
+// Date Utilities
+// ============================================================================
+
+const DAY_MS = 86400000;
+
+export function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+export function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+/**
+ * Add months, clamping the day so Jan 31 + 1 month is the last day of February
+ */
+export function addMonths(date: Date, months: number): Date {
+  const target = new Date(date.getFullYear(), date.getMonth() + months, 1);
+  const lastDay = new Date(target.getFullYear(), target.getMonth() + 1, 0).getDate();
+  target.setDate(Math.min(date.getDate(), lastDay));
+  return target;
+}
+
+export function isSameDay(a: Date | null | undefined, b: Date | null | undefined): boolean {
+  return !!a && !!b && a.getFullYear() === b.getFullYear() && a.getMonth() === b.getMonth() && a.getDate() === b.getDate();
+}
+
+export function isSameMonth(a: Date | null | undefined, b: Date | null | undefined): boolean {
+  return !!a && !!b && a.getFullYear() === b.getFullYear() && a.getMonth() === b.getMonth();
+}
+
+export function startOfWeek(date: Date, weekStartsOn: 0 | 1 = 0): Date {
+  const diff = (date.getDay() - weekStartsOn + 7) % 7;
+  return addDays(date, -diff);
+}
+
+/**
+ * ISO 8601 week: weeks start on Monday and week 1 contains the year's first Thursday
+ */
+export function getISOWeek(date: Date): { year: number; week: number } {
+  // The Thursday of the date's week decides which year the week belongs to
+  const thursday = addDays(startOfDay(date), 3 - ((date.getDay() + 6) % 7));
+  const yearStart = new Date(thursday.getFullYear(), 0, 1);
+  const dayOfYear = Math.round((thursday.getTime() - yearStart.getTime()) / DAY_MS);
+  return { year: thursday.getFullYear(), week: Math.floor(dayOfYear / 7) + 1 };
+}
+
+/**
+ * Monday of an ISO week
+ */
+export function isoWeekStart(year: number, week: number): Date {
+  const jan4 = new Date(year, 0, 4);
+  const week1Monday = addDays(jan4, -((jan4.getDay() + 6) % 7));
+  return addDays(week1Monday, (week - 1) * 7);
+}
+
+function pad(n: number, length = 2): string {
+  return String(n).padStart(length, '0');
+}
+
+/**
+ * Parse any stored date value: Date, ISO date/datetime, "YYYY-MM" or "YYYY-Www"
+ */
+export function parseDateValue(value: unknown): Date | null {
+  if (value === null || value === undefined || value === '') return null;
+  if (value instanceof Date) return value;
+  if (typeof value === 'number') return new Date(value);
+  if (typeof value !== 'string') return new Date(NaN);
+
+  const week = /^(\d{4})-W(\d{2})$/.exec(value);
+  if (week) return isoWeekStart(Number(week[1]), Number(week[2]));
+
+  const month = /^(\d{4})-(\d{2})$/.exec(value);
+  if (month) return new Date(Number(month[1]), Number(month[2]) - 1, 1);
+
+  // Date-only ISO strings are parsed as local days, not UTC midnight
+  const day = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (day) return new Date(Number(day[1]), Number(day[2]) - 1, Number(day[3]));
+
+  return new Date(value);
+}
+
+export function isValidDate(date: Date | null): date is Date {
+  return !!date && !isNaN(date.getTime());
+}
+
+/**
+ * Check a date against a field's `disabledDates` option
+ */
+export function matchesDisabledDates(
+  date: Date,
+  disabledDates: Date[] | ((date: Date) => boolean) | undefined
+): boolean {
+  if (!disabledDates) return false;
+  if (typeof disabledDates === 'function') return disabledDates(date);
+  return disabledDates.some(d => isSameDay(parseDateValue(d), date));
+}
+
+// ============================================================================
+// Formatting & Parsing
+// ============================================================================
+
+/** Supported tokens; text in [brackets] is emitted literally */
+const FORMAT_TOKENS = /\[([^\]]*)\]|YYYY|GGGG|MM|M|DD|D|HH|H|mm|WW/g;
+
+/**
+ * Format a date with a token pattern such as "DD/MM/YYYY" or "GGGG-[W]WW"
+ */
+export function formatDate(date: Date, pattern: string): string {
+  const { year: isoYear, week } = getISOWeek(date);
+  return pattern.replace(FORMAT_TOKENS, (token, literal) => {
+    if (literal !== undefined) return literal;
+    switch (token) {
+      case 'YYYY': return pad(date.getFullYear(), 4);
+      case 'GGGG': return pad(isoYear, 4);
+      case 'MM': return pad(date.getMonth() + 1);
+      case 'M': return String(date.getMonth() + 1);
+      case 'DD': return pad(date.getDate());
+      case 'D': return String(date.getDate());
+      case 'HH': return pad(date.getHours());
+      case 'H': return String(date.getHours());
+      case 'mm': return pad(date.getMinutes());
+      case 'WW': return pad(week);
+      default: return token;
+    }
+  });
+}
+
+/**
+ * Parse text typed in a token pattern
+ * @returns The date, or null when the text does not match
+ */
+export function parseDate(text: string, pattern: string): Date | null {
+  const tokens: string[] = [];
+  let source = '';
+  let lastIndex = 0;
+
+  pattern.replace(FORMAT_TOKENS, (token, literal, offset: number) => {
+    source += escapeRegExp(pattern.slice(lastIndex, offset));
+    if (literal !== undefined) {
+      source += escapeRegExp(literal);
+    } else {
+      tokens.push(token);
+      source += token.length === 4 ? '(\\d{4})' : '(\\d{1,2})';
+    }
+    lastIndex = offset + token.length;
+    return token;
+  });
+  source += escapeRegExp(pattern.slice(lastIndex));
+
+  const match = new RegExp(`^\\s*${source}\\s*$`).exec(text);
+  if (!match) return null;
+
+  const parts: Record<string, number> = {};
+  tokens.forEach((token, i) => {
+    parts[token[0]] = Number(match[i + 1]);
+  });
+
+  if (parts.G !== undefined && parts.W !== undefined) {
+    return parts.W >= 1 && parts.W <= 53 ? isoWeekStart(parts.G, parts.W) : null;
+  }
+
+  const year = parts.Y;
+  const month = (parts.M ?? 1) - 1;
+  const day = parts.D ?? 1;
+  const date = new Date(year, month, day, parts.H ?? 0, parts.m ?? 0);
+
+  // Reject overflow such as 31/02, which Date would roll into March
+  if (date.getMonth() !== month || date.getDate() !== day) return null;
+  return date;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// ============================================================================
+// Calendar Component
+// ============================================================================
+
+export type CalendarMode = 'day' | 'range' | 'week' | 'month';
+export type DateRangeValue = [Date | null, Date | null];
+
+export interface CalendarOptions {
+  mode: CalendarMode;
+  /** Selected date (day, week and month modes) */
+  selected?: Date | null;
+  /** Selected range (range mode) */
+  range?: DateRangeValue;
+  minDate?: Date | null;
+  maxDate?: Date | null;
+  /** Extra disabled dates */
+  isDateDisabled?: (date: Date) => boolean;
+  /** First day of the week (0=Sun, 1=Mon) */
+  weekStartsOn?: 0 | 1;
+  /** BCP 47 locale for month and day names */
+  locale?: string;
+  /** Accessible name of the calendar */
+  label?: string;
+  /** Called with the chosen day (day/week mode) or month start (month mode) */
+  onSelect?: (date: Date) => void;
+  /** Called whenever the range changes (range mode) */
+  onRangeChange?: (range: DateRangeValue) => void;
+}
+
+export interface Calendar {
+  element: HTMLElement;
+  /** Move keyboard focus to the active cell */
+  focus: () => void;
+  setSelected: (date: Date | null) => void;
+  setRange: (range: DateRangeValue) => void;
+}
+
+export function createCalendar(options: CalendarOptions): Calendar {
+  const { mode, locale } = options;
+  const weekStartsOn = options.weekStartsOn ?? 0;
+  const minDate = options.minDate ? startOfDay(options.minDate) : null;
+  const maxDate = options.maxDate ? startOfDay(options.maxDate) : null;
+  const today = startOfDay(new Date());
+
+  let selected = options.selected ? startOfDay(options.selected) : null;
+  let range: DateRangeValue = options.range
+    ? [options.range[0] && startOfDay(options.range[0]), options.range[1] && startOfDay(options.range[1])]
+    : [null, null];
+  let hovered: Date | null = null;
+
+  // The cell with the roving tabindex
+  let active = clampDate(selected ?? range[0] ?? today);
+
+  const titleFormat = new Intl.DateTimeFormat(locale, mode === 'month' ? { year: 'numeric' } : { month: 'long', year: 'numeric' });
+  const dayLabelFormat = new Intl.DateTimeFormat(locale, { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' });
+  const weekdayShort = new Intl.DateTimeFormat(locale, { weekday: 'short' });
+  const weekdayLong = new Intl.DateTimeFormat(locale, { weekday: 'long' });
+  const monthShort = new Intl.DateTimeFormat(locale, { month: 'short' });
+  const monthLabelFormat = new Intl.DateTimeFormat(locale, { month: 'long', year: 'numeric' });
+
+  const element = document.createElement('div');
+  element.className = `swal-calendar swal-calendar--${mode}`;
+  element.setAttribute('role', 'group');
+  if (options.label) element.setAttribute('aria-label', options.label);
+
+  const header = document.createElement('div');
+  header.className = 'swal-calendar__header';
+
+  const prevBtn = document.createElement('button');
+  prevBtn.type = 'button';
+  prevBtn.className = 'swal-calendar__nav swal-calendar__nav--prev';
+  prevBtn.setAttribute('aria-label', mode === 'month' ? 'Previous year' : 'Previous month');
+  prevBtn.innerHTML = '<svg viewBox="0 0 24 24" width="18" height="18" aria-hidden="true"><path fill="currentColor" d="M15.41 7.41L14 6l-6 6 6 6 1.41-1.41L10.83 12z"/></svg>';
+
+  const title = document.createElement('div');
+  title.className = 'swal-calendar__title';
+  title.id = `swal-calendar-${Math.random().toString(36).slice(2, 9)}-title`;
+  title.setAttribute('aria-live', 'polite');
+
+  const nextBtn = document.createElement('button');
+  nextBtn.type = 'button';
+  nextBtn.className = 'swal-calendar__nav swal-calendar__nav--next';
+  nextBtn.setAttribute('aria-label', mode === 'month' ? 'Next year' : 'Next month');
+  nextBtn.innerHTML = '<svg viewBox="0 0 24 24" width="18" height="18" aria-hidden="true"><path fill="currentColor" d="M10 6L8.59 7.41 13.17 12l-4.58 4.59L10 18l6-6z"/></svg>';
+
+  header.appendChild(prevBtn);
+  header.appendChild(title);
+  header.appendChild(nextBtn);
+
+  const grid = document.createElement('table');
+  grid.className = 'swal-calendar__grid';
+  grid.setAttribute('role', 'grid');
+  grid.setAttribute('aria-labelledby', title.id);
+  if (mode === 'range') grid.setAttribute('aria-multiselectable', 'true');
+
+  element.appendChild(header);
+  element.appendChild(grid);
+
+  // ==========================================================================
+  // State Helpers
+  // ==========================================================================
+
+  function clampDate(date: Date): Date {
+    if (minDate && date < minDate) return minDate;
+    if (maxDate && date > maxDate) return maxDate;
+    return startOfDay(date);
+  }
+
+  function isDisabled(date: Date): boolean {
+    if (minDate && date < minDate) return true;
+    if (maxDate && date > maxDate) return true;
+    return options.isDateDisabled?.(date) ?? false;
+  }
+
+  function isMonthDisabled(date: Date): boolean {
+    const first = new Date(date.getFullYear(), date.getMonth(), 1);
+    const last = new Date(date.getFullYear(), date.getMonth() + 1, 0);
+    return (!!minDate && last < minDate) || (!!maxDate && first > maxDate);
+  }
+
+  function isSelected(date: Date): boolean {
+    switch (mode) {
+      case 'range':
+        return isSameDay(date, range[0]) || isSameDay(date, range[1]);
+      case 'week':
+        return !!selected && isSameDay(startOfWeek(date, weekStartsOn), startOfWeek(selected, weekStartsOn));
+      case 'month':
+        return isSameMonth(date, selected);
+      default:
+        return isSameDay(date, selected);
+    }
+  }
+
+  function isInRange(date: Date): boolean {
+    const [start, end] = range;
+    const to = end ?? hovered;
+    if (!start || !to) return false;
+    const [lo, hi] = start <= to ? [start, to] : [to, start];
+    return date > lo && date < hi;
+  }
+
+  // ==========================================================================
+  // Rendering
+  // ==========================================================================
+
+  function render() {
+    const hadFocus = grid.contains(document.activeElement);
+    grid.innerHTML = '';
+
+    if (mode === 'month') {
+      renderMonths();
+    } else {
+      renderDays();
+    }
+
+    if (hadFocus) focus();
+  }
+
+  function renderDays() {
+    title.textContent = titleFormat.format(active);
+    const monthStart = new Date(active.getFullYear(), active.getMonth(), 1);
+    prevBtn.disabled = !!minDate && addDays(monthStart, -1) < minDate;
+    nextBtn.disabled = !!maxDate && new Date(active.getFullYear(), active.getMonth() + 1, 1) > maxDate;
+
+    const thead = document.createElement('thead');
+    const headRow = document.createElement('tr');
+    headRow.setAttribute('role', 'row');
+
+    if (mode === 'week') {
+      const th = document.createElement('th');
+      th.className = 'swal-calendar__weeknum';
+      th.setAttribute('role', 'columnheader');
+      th.setAttribute('abbr', 'Week');
+      th.textContent = 'Wk';
+      headRow.appendChild(th);
+    }
+
+    const gridStart = startOfWeek(monthStart, weekStartsOn);
+    for (let i = 0; i < 7; i++) {
+      const day = addDays(gridStart, i);
+      const th = document.createElement('th');
+      th.setAttribute('role', 'columnheader');
+      th.setAttribute('abbr', weekdayLong.format(day));
+      th.textContent = weekdayShort.format(day);
+      headRow.appendChild(th);
+    }
+    thead.appendChild(headRow);
+    grid.appendChild(thead);
+
+    const tbody = document.createElement('tbody');
+    for (let week = 0; week < 6; week++) {
+      const row = document.createElement('tr');
+      row.setAttribute('role', 'row');
+      const rowStart = addDays(gridStart, week * 7);
+
+      if (mode === 'week') {
+        const th = document.createElement('th');
+        th.className = 'swal-calendar__weeknum';
+        th.setAttribute('role', 'rowheader');
+        th.textContent = String(getISOWeek(rowStart).week);
+        row.appendChild(th);
+        if (isSelected(rowStart)) row.classList.add('swal-calendar__row--selected');
+      }
+
+      for (let i = 0; i < 7; i++) {
+        row.appendChild(createDayCell(addDays(rowStart, i)));
+      }
+      tbody.appendChild(row);
+    }
+    grid.appendChild(tbody);
+  }
+
+  function createDayCell(date: Date): HTMLElement {
+    const cell = document.createElement('td');
+    cell.className = 'swal-calendar__day';
+    cell.setAttribute('role', 'gridcell');
+    cell.dataset.date = formatDate(date, 'YYYY-MM-DD');
+    cell.tabIndex = isSameDay(date, active) ? 0 : -1;
+    cell.textContent = String(date.getDate());
+    cell.setAttribute('aria-label', dayLabelFormat.format(date));
+
+    const selectedCell = isSelected(date);
+    cell.setAttribute('aria-selected', String(selectedCell));
+    if (selectedCell) cell.classList.add('swal-calendar__day--selected');
+    if (!isSameMonth(date, active)) cell.classList.add('swal-calendar__day--outside');
+    if (isSameDay(date, today)) {
+      cell.classList.add('swal-calendar__day--today');
+      cell.setAttribute('aria-current', 'date');
+    }
+    if (mode === 'range') {
+      if (isInRange(date)) cell.classList.add('swal-calendar__day--in-range');
+      if (isSameDay(date, range[0])) cell.classList.add('swal-calendar__day--range-start');
+      if (isSameDay(date, range[1])) cell.classList.add('swal-calendar__day--range-end');
+    }
+    if (isDisabled(date)) {
+      cell.classList.add('swal-calendar__day--disabled');
+      cell.setAttribute('aria-disabled', 'true');
+    }
+
+    return cell;
+  }
+
+  function renderMonths() {
+    const year = active.getFullYear();
+    title.textContent = titleFormat.format(active);
+    prevBtn.disabled = !!minDate && year - 1 < minDate.getFullYear();
+    nextBtn.disabled = !!maxDate && year + 1 > maxDate.getFullYear();
+
+    const tbody = document.createElement('tbody');
+    for (let r = 0; r < 4; r++) {
+      const row = document.createElement('tr');
+      row.setAttribute('role', 'row');
+      for (let c = 0; c < 3; c++) {
+        const date = new Date(year, r * 3 + c, 1);
+        const cell = document.createElement('td');
+        cell.className = 'swal-calendar__month';
+        cell.setAttribute('role', 'gridcell');
+        cell.dataset.date = formatDate(date, 'YYYY-MM-DD');
+        cell.tabIndex = isSameMonth(date, active) ? 0 : -1;
+        cell.textContent = monthShort.format(date);
+        cell.setAttribute('aria-label', monthLabelFormat.format(date));
+
+        const selectedCell = isSelected(date);
+        cell.setAttribute('aria-selected', String(selectedCell));
+        if (selectedCell) cell.classList.add('swal-calendar__month--selected');
+        if (isSameMonth(date, today)) cell.setAttribute('aria-current', 'date');
+        if (isMonthDisabled(date)) {
+          cell.classList.add('swal-calendar__month--disabled');
+          cell.setAttribute('aria-disabled', 'true');
+        }
+        row.appendChild(cell);
+      }
+      tbody.appendChild(row);
+    }
+    grid.appendChild(tbody);
+  }
+
+  // ==========================================================================
+  // Selection
+  // ==========================================================================
+
+  function choose(date: Date) {
+    if (mode === 'month' ? isMonthDisabled(date) : isDisabled(date)) return;
+    active = date;
+
+    if (mode === 'range') {
+      const [start, end] = range;
+      if (!start || end) {
+        range = [date, null];
+      } else {
+        range = date < start ? [date, start] : [start, date];
+      }
+      hovered = null;
+      render();
+      options.onRangeChange?.([...range] as DateRangeValue);
+      return;
+    }
+
+    selected = mode === 'month' ? new Date(date.getFullYear(), date.getMonth(), 1) : date;
+    render();
+    options.onSelect?.(selected);
+  }
+
+  function moveActive(next: Date) {
+    const monthChanged = mode === 'month'
+      ? next.getFullYear() !== active.getFullYear()
+      : !isSameMonth(next, active);
+    active = clampDate(next);
+
+    if (monthChanged) {
+      render();
+    } else {
+      grid.querySelectorAll<HTMLElement>('[role="gridcell"]').forEach(cell => {
+        cell.tabIndex = cell.dataset.date === formatDate(active, 'YYYY-MM-DD') ? 0 : -1;
+      });
+    }
+    focus();
+  }
+
+  function cellDate(target: EventTarget | null): Date | null {
+    const cell = (target as HTMLElement | null)?.closest<HTMLElement>('[role="gridcell"]');
+    return cell?.dataset.date ? parseDateValue(cell.dataset.date) : null;
+  }
+
+  grid.addEventListener('click', (e) => {
+    const date = cellDate(e.target);
+    if (date) choose(date);
+  });
+
+  grid.addEventListener('mouseover', (e) => {
+    if (mode !== 'range' || !range[0] || range[1]) return;
+    const date = cellDate(e.target);
+    if (date && !isSameDay(date, hovered)) {
+      hovered = date;
+      grid.querySelectorAll<HTMLElement>('.swal-calendar__day').forEach(cell => {
+        cell.classList.toggle('swal-calendar__day--in-range', isInRange(parseDateValue(cell.dataset.date)!));
+      });
+    }
+  });
+
+  grid.addEventListener('keydown', (e) => {
+    const step = mode === 'month' ? { row: 3, col: 1 } : { row: 7, col: 1 };
+    const shift = (amount: number) => mode === 'month' ? addMonths(active, amount) : addDays(active, amount);
+    let next: Date | null = null;
+
+    switch (e.key) {
+      case 'ArrowLeft': next = shift(-step.col); break;
+      case 'ArrowRight': next = shift(step.col); break;
+      case 'ArrowUp': next = shift(-step.row); break;
+      case 'ArrowDown': next = shift(step.row); break;
+      case 'Home':
+        next = mode === 'month' ? new Date(active.getFullYear(), 0, 1) : startOfWeek(active, weekStartsOn);
+        break;
+      case 'End':
+        next = mode === 'month' ? new Date(active.getFullYear(), 11, 1) : addDays(startOfWeek(active, weekStartsOn), 6);
+        break;
+      case 'PageUp':
+        next = mode === 'month' || e.shiftKey ? addMonths(active, -12) : addMonths(active, -1);
+        break;
+      case 'PageDown':
+        next = mode === 'month' || e.shiftKey ? addMonths(active, 12) : addMonths(active, 1);
+        break;
+      case 'Enter':
+      case ' ':
+        e.preventDefault();
+        choose(active);
+        return;
+      default:
+        return;
+    }
+
+    e.preventDefault();
+    moveActive(next);
+  });
+
+  prevBtn.addEventListener('click', () => {
+    active = clampDate(addMonths(active, mode === 'month' ? -12 : -1));
+    render();
+  });
+
+  nextBtn.addEventListener('click', () => {
+    active = clampDate(addMonths(active, mode === 'month' ? 12 : 1));
+    render();
+  });
+
+  function focus() {
+    grid.querySelector<HTMLElement>('[role="gridcell"][tabindex="0"]')?.focus();
+  }
+
+  render();
+
+  return {
+    element,
+    focus,
+    setSelected: (date) => {
+      selected = date ? startOfDay(date) : null;
+      if (selected) active = clampDate(selected);
+      render();
+    },
+    setRange: (next) => {
+      range = [next[0] && startOfDay(next[0]), next[1] && startOfDay(next[1])];
+      if (range[0]) active = clampDate(range[0]);
+      render();
+    },
+  };
+}
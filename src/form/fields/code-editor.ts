@@ -0,0 +1,223 @@
+/**
+ * Code Field
+ * Monospace editor with line numbers, Tab indentation, bracket pairs and syntax highlighting
+ */
+
+import type { TextareaFieldConfig } from '../../core/types';
+import { highlight } from '../code-highlight';
+import { FieldRenderer, createFieldWrapper, createLabel, createHint, createError, setCommonAttributes } from '../field-helpers';
+
+const INDENT = '  ';
+
+/** Opening characters and the closing character typed for them */
+const PAIRS: Record<string, string> = { '(': ')', '[': ']', '{': '}', '"': '"', "'": "'", '`': '`' };
+const CLOSERS = new Set(Object.values(PAIRS));
+
+export const renderCodeEditor: FieldRenderer = (field, value, onChange, error) => {
+  const config = field as TextareaFieldConfig;
+  const autoClose = config.autoCloseBrackets !== false;
+  const wrapper = createFieldWrapper(field, error);
+  const label = createLabel(field);
+  if (label) wrapper.appendChild(label);
+
+  const editor = document.createElement('div');
+  editor.className = 'swal-code';
+  if (config.language) editor.dataset.language = config.language;
+
+  const gutter = document.createElement('div');
+  gutter.className = 'swal-code__gutter';
+  gutter.setAttribute('aria-hidden', 'true');
+
+  // The textarea's text is transparent; the highlighted copy behind it shows through
+  const body = document.createElement('div');
+  body.className = 'swal-code__body';
+
+  const highlighted = document.createElement('pre');
+  highlighted.className = 'swal-code__highlight';
+  highlighted.setAttribute('aria-hidden', 'true');
+
+  const textarea = document.createElement('textarea');
+  textarea.className = 'swal-code__input';
+  textarea.value = String(value ?? field.defaultValue ?? '');
+  textarea.rows = config.rows ?? 8;
+  textarea.spellcheck = false;
+  textarea.wrap = 'off';
+  textarea.setAttribute('autocapitalize', 'off');
+  textarea.setAttribute('autocorrect', 'off');
+  setCommonAttributes(textarea, field);
+  if (field.readOnly) textarea.readOnly = true;
+  if (config.language) {
+    textarea.setAttribute('aria-roledescription', `${config.language} code editor`);
+  }
+
+  function updateGutter() {
+    const lines = textarea.value.split('\n').length;
+    if (gutter.childElementCount === lines) return;
+    gutter.innerHTML = '';
+    for (let i = 1; i <= lines; i++) {
+      const line = document.createElement('span');
+      line.textContent = String(i);
+      gutter.appendChild(line);
+    }
+  }
+
+  function updateHighlight() {
+    // A trailing newline needs content after it to keep the layers the same height
+    highlighted.innerHTML = highlight(textarea.value, config.language) + '\n';
+  }
+
+  function syncScroll() {
+    gutter.scrollTop = textarea.scrollTop;
+    highlighted.scrollTop = textarea.scrollTop;
+    highlighted.scrollLeft = textarea.scrollLeft;
+  }
+
+  function commit() {
+    updateGutter();
+    updateHighlight();
+    onChange(textarea.value);
+  }
+
+  textarea.addEventListener('input', commit);
+  textarea.addEventListener('scroll', syncScroll);
+
+  // ==========================================================================
+  // Editing Keys
+  // ==========================================================================
+
+  /** Replace a range, keeping the native undo stack where the browser supports it */
+  function insert(text: string, start: number, end: number, caret: number) {
+    textarea.setSelectionRange(start, end);
+    if (!document.execCommand('insertText', false, text)) {
+      textarea.setRangeText(text, start, end, 'end');
+    }
+    textarea.setSelectionRange(caret, caret);
+  }
+
+  function indentation(lineStart: number): string {
+    return /^[ \t]*/.exec(textarea.value.slice(lineStart))![0];
+  }
+
+  function handleTab(outdent: boolean) {
+    const { selectionStart: start, selectionEnd: end } = textarea;
+    const text = textarea.value;
+    const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+
+    if (outdent) {
+      const block = text.slice(lineStart, end);
+      const outdented = block.replace(/^ {1,2}/gm, '');
+      textarea.setRangeText(outdented, lineStart, end, 'select');
+    } else if (start !== end) {
+      const block = text.slice(lineStart, end);
+      textarea.setRangeText(block.replace(/^/gm, INDENT), lineStart, end, 'select');
+    } else {
+      textarea.setRangeText(INDENT, start, end, 'end');
+    }
+  }
+
+  /** Keep the current indentation on a new line, and open a block between brackets */
+  function handleEnter(): boolean {
+    const { selectionStart: start, selectionEnd: end } = textarea;
+    const text = textarea.value;
+    const indent = indentation(text.lastIndexOf('\n', start - 1) + 1);
+    const before = text[start - 1];
+    const after = text[end];
+
+    if (before && PAIRS[before] === after && '([{'.includes(before)) {
+      const inner = `\n${indent}${INDENT}`;
+      insert(`${inner}\n${indent}`, start, end, start + inner.length);
+    } else {
+      insert(`\n${indent}`, start, end, start + indent.length + 1);
+    }
+    return true;
+  }
+
+  /** Auto-close brackets and quotes; returns true when the key was handled */
+  function handlePair(key: string): boolean {
+    const { selectionStart: start, selectionEnd: end } = textarea;
+    const text = textarea.value;
+
+    // Typing a closer that is already next to the caret steps over it
+    if (CLOSERS.has(key) && start === end && text[start] === key) {
+      textarea.setSelectionRange(start + 1, start + 1);
+      return true;
+    }
+
+    const closer = PAIRS[key];
+    if (!closer) return false;
+
+    if (start !== end) {
+      // Wrap the selection
+      insert(key + text.slice(start, end) + closer, start, end, end + 2);
+      textarea.setSelectionRange(start + 1, end + 1);
+      return true;
+    }
+
+    // Quotes pair only at word boundaries, so apostrophes in words stay single
+    const isQuote = key === closer;
+    if (isQuote && /[\w$]/.test(text[start - 1] ?? '')) return false;
+    if (/[\w$]/.test(text[start] ?? '')) return false;
+
+    insert(key + closer, start, end, start + 1);
+    return true;
+  }
+
+  /** Backspace between an empty pair removes both halves */
+  function handleBackspace(): boolean {
+    const { selectionStart: start, selectionEnd: end } = textarea;
+    const text = textarea.value;
+    if (start !== end || start === 0 || PAIRS[text[start - 1]] !== text[start]) return false;
+    insert('', start - 1, start + 1, start - 1);
+    return true;
+  }
+
+  // Pressing Escape lets the next Tab move focus instead of indenting;
+  // a second Escape reaches the modal as usual
+  let releaseTab = false;
+
+  textarea.addEventListener('keydown', (e) => {
+    if (e.key === 'Escape') {
+      if (!releaseTab) e.preventDefault();
+      releaseTab = true;
+      return;
+    }
+    if (e.ctrlKey || e.metaKey || e.altKey || e.isComposing || textarea.readOnly) {
+      releaseTab = false;
+      return;
+    }
+
+    let handled = false;
+    if (e.key === 'Tab' && !releaseTab) {
+      handleTab(e.shiftKey);
+      handled = true;
+    } else if (e.key === 'Enter') {
+      handled = handleEnter();
+    } else if (autoClose && e.key === 'Backspace') {
+      handled = handleBackspace();
+    } else if (autoClose && e.key.length === 1) {
+      handled = handlePair(e.key);
+    }
+    releaseTab = false;
+
+    if (handled) {
+      e.preventDefault();
+      commit();
+    }
+  });
+
+  body.appendChild(highlighted);
+  body.appendChild(textarea);
+  editor.appendChild(gutter);
+  editor.appendChild(body);
+  wrapper.appendChild(editor);
+
+  updateGutter();
+  updateHighlight();
+
+  const hint = createHint(field);
+  if (hint) wrapper.appendChild(hint);
+  const errorEl = createError(error);
+  if (errorEl) wrapper.appendChild(errorEl);
+
+  return wrapper;
+};
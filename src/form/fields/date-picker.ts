@@ -0,0 +1,356 @@
+/**
+ * Date Picker Fields
+ * Text input with a calendar popup for date, datetime, daterange, month and week
+ */
+
+import type { DateFieldConfig, DateRangeFieldConfig } from '../../core/types';
+import { FieldRenderer, createFieldWrapper, createLabel, createHint, createError, setCommonAttributes } from '../field-helpers';
+import {
+  Calendar,
+  CalendarMode,
+  DateRangeValue,
+  createCalendar,
+  formatDate,
+  parseDate,
+  parseDateValue,
+  isValidDate,
+  isSameDay,
+  startOfDay,
+  matchesDisabledDates,
+} from './calendar';
+
+type DatePickerConfig = DateFieldConfig & Omit<DateRangeFieldConfig, 'type'>;
+
+const DEFAULT_FORMATS: Record<string, string> = {
+  date: 'YYYY-MM-DD',
+  datetime: 'YYYY-MM-DD HH:mm',
+  daterange: 'YYYY-MM-DD',
+  month: 'YYYY-MM',
+  week: 'GGGG-[W]WW',
+};
+
+const CALENDAR_MODES: Record<string, CalendarMode> = {
+  daterange: 'range',
+  month: 'month',
+  week: 'week',
+};
+
+const RANGE_SEPARATOR = ' – ';
+
+export const renderDatePicker: FieldRenderer = (field, value, onChange, error) => {
+  const config = field as DatePickerConfig;
+  const type = field.type;
+  const mode = CALENDAR_MODES[type] ?? 'day';
+  const pattern = config.format ?? DEFAULT_FORMATS[type] ?? DEFAULT_FORMATS.date;
+  const locale = config.locale || document.documentElement.lang || undefined;
+  const minDate = parseDateValue(config.minDate);
+  const maxDate = parseDateValue(config.maxDate);
+  const interactive = !field.disabled && !field.readOnly;
+
+  const wrapper = createFieldWrapper(field, error);
+  const label = createLabel(field);
+  if (label) wrapper.appendChild(label);
+
+  // Current selection
+  let current: Date | null = null;
+  let currentRange: DateRangeValue = [null, null];
+
+  if (mode === 'range') {
+    if (Array.isArray(value)) {
+      currentRange = [validOrNull(value[0]), validOrNull(value[1])];
+    }
+  } else {
+    current = validOrNull(value);
+  }
+
+  const picker = document.createElement('div');
+  picker.className = 'swal-datepicker';
+
+  const input = document.createElement('input');
+  input.type = 'text';
+  input.className = 'swal-input swal-datepicker__input';
+  input.inputMode = 'numeric';
+  setCommonAttributes(input, field);
+  if (!field.placeholder) {
+    const hint = pattern.replace(/\[([^\]]*)\]/g, '$1');
+    input.placeholder = mode === 'range' ? `${hint}${RANGE_SEPARATOR}${hint}` : hint;
+  }
+  if (field.readOnly) input.readOnly = true;
+  if (field.required) input.setAttribute('aria-required', 'true');
+  if (error) input.setAttribute('aria-invalid', 'true');
+
+  const toggle = document.createElement('button');
+  toggle.type = 'button';
+  toggle.className = 'swal-datepicker__toggle';
+  toggle.setAttribute('aria-label', mode === 'range' ? 'Choose dates' : mode === 'month' ? 'Choose month' : mode === 'week' ? 'Choose week' : 'Choose date');
+  toggle.setAttribute('aria-haspopup', 'dialog');
+  toggle.setAttribute('aria-expanded', 'false');
+  toggle.innerHTML = '<svg viewBox="0 0 24 24" width="18" height="18" aria-hidden="true"><path fill="currentColor" d="M19 4h-1V2h-2v2H8V2H6v2H5c-1.11 0-2 .9-2 2v14c0 1.1.89 2 2 2h14c1.1 0 2-.9 2-2V6c0-1.1-.9-2-2-2zm0 16H5V9h14v11zM7 11h5v5H7z"/></svg>';
+  if (!interactive) toggle.disabled = true;
+
+  picker.appendChild(input);
+  picker.appendChild(toggle);
+  wrapper.appendChild(picker);
+
+  // ==========================================================================
+  // Value Conversion
+  // ==========================================================================
+
+  function validOrNull(v: unknown): Date | null {
+    const date = parseDateValue(v);
+    return isValidDate(date) ? date : null;
+  }
+
+  function toOutput(date: Date): Date | string {
+    switch (type) {
+      case 'month': return formatDate(date, 'YYYY-MM');
+      case 'week': return formatDate(date, 'GGGG-[W]WW');
+      case 'datetime': return date;
+      default: return startOfDay(date);
+    }
+  }
+
+  function display() {
+    if (mode === 'range') {
+      const [start, end] = currentRange;
+      input.value = start || end
+        ? `${start ? formatDate(start, pattern) : ''}${RANGE_SEPARATOR}${end ? formatDate(end, pattern) : ''}`
+        : '';
+    } else {
+      input.value = current ? formatDate(current, pattern) : '';
+    }
+  }
+
+  function emit() {
+    if (mode === 'range') {
+      const [start, end] = currentRange;
+      onChange(start || end ? [start, end] : null);
+    } else {
+      onChange(current ? toOutput(current) : null);
+    }
+  }
+
+  function isDisabled(date: Date): boolean {
+    return matchesDisabledDates(date, config.disabledDates);
+  }
+
+  // ==========================================================================
+  // Typed Input
+  // ==========================================================================
+
+  input.addEventListener('change', () => {
+    const text = input.value.trim();
+
+    if (mode === 'range') {
+      const parts = text ? text.split(/\s+[–-]\s+/) : [];
+      if (!text) {
+        currentRange = [null, null];
+      } else {
+        const start = parseDate(parts[0] ?? '', pattern);
+        const end = parts[1] ? parseDate(parts[1], pattern) : null;
+        if (!start || (parts[1] && !end)) {
+          // Leave the text for the user to fix; the validator reports it
+          onChange([start ?? new Date(NaN), parts[1] ? end ?? new Date(NaN) : null]);
+          return;
+        }
+        currentRange = end && end < start ? [end, start] : [start, end];
+      }
+      display();
+      calendar?.setRange(currentRange);
+      emit();
+      return;
+    }
+
+    if (!text) {
+      current = null;
+    } else {
+      const parsed = parseDate(text, pattern);
+      if (!parsed) {
+        onChange(type === 'month' || type === 'week' ? text : new Date(NaN));
+        return;
+      }
+      current = parsed;
+    }
+    display();
+    calendar?.setSelected(current);
+    emit();
+  });
+
+  // Alt+ArrowDown opens the calendar from the input
+  input.addEventListener('keydown', (e) => {
+    if (e.key === 'ArrowDown' && e.altKey && interactive) {
+      e.preventDefault();
+      open();
+    }
+  });
+
+  // ==========================================================================
+  // Popup
+  // ==========================================================================
+
+  let popup: HTMLElement | null = null;
+  let calendar: Calendar | null = null;
+  let timeInput: HTMLInputElement | null = null;
+
+  function handleOutsidePointer(e: PointerEvent) {
+    if (!picker.contains(e.target as Node)) close(false);
+  }
+
+  function select(date: Date) {
+    if (type === 'datetime' && timeInput?.value) {
+      const [hours, minutes] = timeInput.value.split(':').map(Number);
+      date = new Date(date.getFullYear(), date.getMonth(), date.getDate(), hours, minutes);
+    }
+    current = date;
+    display();
+    emit();
+    // Datetime stays open so the time can be adjusted
+    if (type !== 'datetime') close(true);
+  }
+
+  function selectRange(range: DateRangeValue) {
+    currentRange = range;
+    display();
+    // Partial ranges are only shown; the value updates once both ends are set
+    if (range[0] && range[1]) {
+      emit();
+      close(true);
+    }
+  }
+
+  function createFooterButton(text: string, className: string, onClick: () => void): HTMLButtonElement {
+    const btn = document.createElement('button');
+    btn.type = 'button';
+    btn.className = `swal-datepicker__action ${className}`;
+    btn.textContent = text;
+    btn.addEventListener('click', onClick);
+    return btn;
+  }
+
+  function open() {
+    if (popup || !interactive) return;
+
+    popup = document.createElement('div');
+    popup.className = 'swal-datepicker__popup';
+    popup.setAttribute('role', 'dialog');
+    popup.setAttribute('aria-label', field.label ? `Choose ${field.label}` : toggle.getAttribute('aria-label')!);
+
+    // Preset ranges
+    if (mode === 'range' && config.presets?.length) {
+      const presets = document.createElement('div');
+      presets.className = 'swal-datepicker__presets';
+      presets.setAttribute('role', 'group');
+      presets.setAttribute('aria-label', 'Preset ranges');
+
+      for (const preset of config.presets) {
+        const range: DateRangeValue = [validOrNull(preset.range[0]), validOrNull(preset.range[1])];
+        const btn = document.createElement('button');
+        btn.type = 'button';
+        btn.className = 'swal-datepicker__preset';
+        btn.textContent = preset.label;
+        btn.setAttribute('aria-pressed', String(isSameDay(range[0], currentRange[0]) && isSameDay(range[1], currentRange[1])));
+        btn.addEventListener('click', () => {
+          calendar?.setRange(range);
+          selectRange(range);
+        });
+        presets.appendChild(btn);
+      }
+      popup.appendChild(presets);
+    }
+
+    calendar = createCalendar({
+      mode,
+      selected: current,
+      range: currentRange,
+      minDate,
+      maxDate,
+      isDateDisabled: config.disabledDates ? isDisabled : undefined,
+      weekStartsOn: config.weekStartsOn,
+      locale,
+      label: field.label,
+      onSelect: select,
+      onRangeChange: selectRange,
+    });
+    popup.appendChild(calendar.element);
+
+    const footer = document.createElement('div');
+    footer.className = 'swal-datepicker__footer';
+
+    if (type === 'datetime') {
+      timeInput = document.createElement('input');
+      timeInput.type = 'time';
+      timeInput.className = 'swal-input swal-datepicker__time';
+      timeInput.setAttribute('aria-label', 'Time');
+      timeInput.value = current ? formatDate(current, 'HH:mm') : '00:00';
+      timeInput.addEventListener('change', () => {
+        if (current && timeInput!.value) select(current);
+      });
+      footer.appendChild(timeInput);
+    }
+
+    if (config.showToday) {
+      const today = startOfDay(new Date());
+      const todayBtn = createFooterButton(type === 'month' ? 'This month' : type === 'week' ? 'This week' : 'Today', 'swal-datepicker__today', () => {
+        if (mode === 'range') {
+          calendar?.setRange([today, today]);
+          selectRange([today, today]);
+        } else {
+          calendar?.setSelected(today);
+          select(today);
+        }
+      });
+      todayBtn.disabled = isDisabled(today) || (!!minDate && today < startOfDay(minDate)) || (!!maxDate && today > maxDate);
+      footer.appendChild(todayBtn);
+    }
+
+    if (config.clearable) {
+      footer.appendChild(createFooterButton('Clear', 'swal-datepicker__clear', () => {
+        current = null;
+        currentRange = [null, null];
+        display();
+        emit();
+        close(true);
+      }));
+    }
+
+    if (footer.childElementCount > 0) popup.appendChild(footer);
+
+    popup.addEventListener('keydown', (e) => {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        close(true);
+      }
+    });
+
+    picker.appendChild(popup);
+    toggle.setAttribute('aria-expanded', 'true');
+    picker.classList.add('swal-datepicker--open');
+    document.addEventListener('pointerdown', handleOutsidePointer, true);
+    calendar.focus();
+  }
+
+  function close(returnFocus: boolean) {
+    if (!popup) return;
+    popup.remove();
+    popup = null;
+    calendar = null;
+    timeInput = null;
+    toggle.setAttribute('aria-expanded', 'false');
+    picker.classList.remove('swal-datepicker--open');
+    document.removeEventListener('pointerdown', handleOutsidePointer, true);
+    if (returnFocus) input.focus();
+  }
+
+  toggle.addEventListener('click', () => (popup ? close(true) : open()));
+
+  display();
+
+  const hint = createHint(field);
+  if (hint) wrapper.appendChild(hint);
+  const errorEl = createError(error);
+  if (errorEl) wrapper.appendChild(errorEl);
+
+  (wrapper as any).__cleanup = () => close(false);
+
+  return wrapper;
+};
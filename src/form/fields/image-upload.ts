@@ -0,0 +1,464 @@
+/**
+ * Image & Avatar Fields
+ * Image picker with crop, rotation and client-side resizing
+ */
+
+import type { FileFieldConfig, ImageOutputOptions } from '../../core/types';
+import { FieldRenderer, createFieldWrapper, createLabel, createHint, createError } from '../field-helpers';
+
+/** On-screen width of the crop frame in CSS pixels */
+const CROP_FRAME_WIDTH = 280;
+const MAX_ZOOM = 4;
+const PAN_STEP = 10;
+const ENCODABLE_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+interface CropState {
+  /** Rotation in degrees (multiples of 90) */
+  rotation: number;
+  /** Zoom relative to the smallest scale that covers the frame (1-MAX_ZOOM) */
+  zoom: number;
+  /** Image center offset from the frame center, in frame pixels */
+  offsetX: number;
+  offsetY: number;
+}
+
+// ============================================================================
+// Image Helpers
+// ============================================================================
+
+/**
+ * Load an image from a Blob or URL
+ */
+export function loadImage(source: Blob | string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const url = typeof source === 'string' ? source : URL.createObjectURL(source);
+    const img = new Image();
+    img.onload = () => {
+      if (typeof source !== 'string') URL.revokeObjectURL(url);
+      resolve(img);
+    };
+    img.onerror = () => {
+      if (typeof source !== 'string') URL.revokeObjectURL(url);
+      reject(new Error('Could not load image'));
+    };
+    img.src = url;
+  });
+}
+
+/**
+ * Read the pixel dimensions of an image Blob or URL
+ */
+export async function readImageDimensions(source: Blob | string): Promise<{ width: number; height: number }> {
+  const img = await loadImage(source);
+  return { width: img.naturalWidth, height: img.naturalHeight };
+}
+
+/**
+ * Fit a size inside the output constraints, keeping its aspect ratio
+ */
+function fitOutputSize(width: number, height: number, output: ImageOutputOptions = {}): { width: number; height: number } {
+  if (output.width && output.height) return { width: output.width, height: output.height };
+  if (output.width) return { width: output.width, height: Math.round((output.width / width) * height) };
+  if (output.height) return { width: Math.round((output.height / height) * width), height: output.height };
+
+  const scale = Math.min(
+    1,
+    output.maxWidth ? output.maxWidth / width : 1,
+    output.maxHeight ? output.maxHeight / height : 1
+  );
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+}
+
+function canvasToFile(canvas: HTMLCanvasElement, source: File, output: ImageOutputOptions = {}): Promise<File> {
+  const type = output.type ?? (ENCODABLE_TYPES.includes(source.type) ? source.type : 'image/png');
+  const extension = type.split('/')[1].replace('jpeg', 'jpg');
+  const name = source.name.replace(/\.[^.]+$/, '') + '.' + extension;
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(new File([blob], name, { type, lastModified: Date.now() })) : reject(new Error('Could not encode image'))),
+      type,
+      output.quality ?? 0.92
+    );
+  });
+}
+
+// ============================================================================
+// Renderer
+// ============================================================================
+
+export const renderImageUpload: FieldRenderer = (field, value, onChange, error) => {
+  const config = field as FileFieldConfig;
+  const isAvatar = field.type === 'avatar';
+  const aspectRatio = config.aspectRatio ?? (isAvatar ? 1 : undefined);
+  const canCrop = config.crop ?? isAvatar;
+  const wrapper = createFieldWrapper(field, error);
+  const label = createLabel(field);
+  if (label) wrapper.appendChild(label);
+
+  const container = document.createElement('div');
+  container.className = `swal-image-upload${isAvatar ? ' swal-image-upload--avatar' : ''}`;
+
+  const input = document.createElement('input');
+  input.type = 'file';
+  input.className = 'swal-image-upload__input';
+  input.id = `swal-field-${field.name}`;
+  input.name = field.name;
+  input.accept = config.accept || 'image/*';
+  if (field.disabled) input.disabled = true;
+  if (error) input.setAttribute('aria-invalid', 'true');
+
+  const preview = document.createElement('div');
+  preview.className = 'swal-image-upload__preview';
+  if (aspectRatio && !isAvatar) {
+    preview.style.aspectRatio = String(aspectRatio);
+  }
+
+  const img = document.createElement('img');
+  img.className = 'swal-image-upload__img';
+  img.alt = field.label ? `${field.label} preview` : 'Selected image preview';
+
+  const placeholder = document.createElement('span');
+  placeholder.className = 'swal-image-upload__placeholder';
+  placeholder.textContent = field.placeholder || (isAvatar ? 'Upload photo' : 'Choose an image');
+
+  const removeBtn = document.createElement('button');
+  removeBtn.type = 'button';
+  removeBtn.className = 'swal-image-upload__remove';
+  removeBtn.setAttribute('aria-label', 'Remove image');
+  removeBtn.textContent = '×';
+  if (field.disabled) removeBtn.disabled = true;
+
+  const status = document.createElement('div');
+  status.className = 'swal-image-upload__status';
+  status.setAttribute('role', 'status');
+  status.setAttribute('aria-live', 'polite');
+
+  let objectUrl: string | null = null;
+  let cropper: HTMLElement | null = null;
+
+  function show(src: string | null) {
+    if (objectUrl && src !== objectUrl) {
+      URL.revokeObjectURL(objectUrl);
+      objectUrl = null;
+    }
+    const visible = !!src && config.showPreview !== false;
+    img.hidden = !visible;
+    placeholder.hidden = !!src;
+    removeBtn.hidden = !src;
+    if (visible) img.src = src!;
+    else img.removeAttribute('src');
+  }
+
+  function showFile(file: Blob) {
+    objectUrl = URL.createObjectURL(file);
+    show(objectUrl);
+  }
+
+  function reject(file: File, reason: 'type' | 'size' | 'load', message: string) {
+    input.value = '';
+    status.textContent = message;
+    wrapper.dispatchEvent(new CustomEvent('swal:file-rejected', { detail: { file, reason }, bubbles: true }));
+  }
+
+  async function select(file: File | undefined) {
+    if (!file) return;
+    status.textContent = '';
+
+    if (!file.type.startsWith('image/')) {
+      reject(file, 'type', 'Please choose an image file');
+      return;
+    }
+    if (config.maxSize && file.size > config.maxSize) {
+      reject(file, 'size', 'The image is too large');
+      return;
+    }
+
+    let source: HTMLImageElement;
+    try {
+      source = await loadImage(file);
+    } catch {
+      reject(file, 'load', 'The image could not be read');
+      return;
+    }
+
+    if (canCrop) {
+      openCropper(file, source);
+    } else if (config.output) {
+      const size = fitOutputSize(source.naturalWidth, source.naturalHeight, config.output);
+      const canvas = document.createElement('canvas');
+      canvas.width = size.width;
+      canvas.height = size.height;
+      canvas.getContext('2d')?.drawImage(source, 0, 0, size.width, size.height);
+      try {
+        commit(await canvasToFile(canvas, file, config.output));
+      } catch {
+        reject(file, 'load', 'The image could not be processed');
+      }
+    } else {
+      commit(file);
+    }
+  }
+
+  function commit(file: File) {
+    input.value = '';
+    showFile(file);
+    onChange(file);
+  }
+
+  // ==========================================================================
+  // Crop UI
+  // ==========================================================================
+
+  function openCropper(file: File, source: HTMLImageElement) {
+    closeCropper();
+
+    const frameWidth = CROP_FRAME_WIDTH;
+    const frameHeight = Math.round(frameWidth / (aspectRatio ?? source.naturalWidth / source.naturalHeight));
+    const state: CropState = { rotation: 0, zoom: 1, offsetX: 0, offsetY: 0 };
+
+    cropper = document.createElement('div');
+    cropper.className = `swal-image-crop${isAvatar ? ' swal-image-crop--round' : ''}`;
+    cropper.setAttribute('role', 'group');
+    cropper.setAttribute('aria-label', 'Crop image');
+
+    const ratio = Math.max(window.devicePixelRatio || 1, 1);
+    const stage = document.createElement('canvas');
+    stage.className = 'swal-image-crop__stage';
+    stage.width = frameWidth * ratio;
+    stage.height = frameHeight * ratio;
+    stage.style.width = `${frameWidth}px`;
+    stage.style.height = `${frameHeight}px`;
+    stage.tabIndex = 0;
+    stage.setAttribute('role', 'img');
+    stage.setAttribute('aria-label', 'Crop area. Drag or use arrow keys to move, plus and minus to zoom.');
+
+    // Dimensions of the source once rotated
+    const rotatedSize = () => state.rotation % 180 === 0
+      ? { width: source.naturalWidth, height: source.naturalHeight }
+      : { width: source.naturalHeight, height: source.naturalWidth };
+
+    // Scale (frame px per source px) at which the image just covers the frame
+    const coverScale = () => {
+      const { width, height } = rotatedSize();
+      return Math.max(frameWidth / width, frameHeight / height);
+    };
+
+    const scale = () => coverScale() * state.zoom;
+
+    // Keep the frame fully covered by the image
+    function clampOffsets() {
+      const { width, height } = rotatedSize();
+      const maxX = Math.max(0, (width * scale() - frameWidth) / 2);
+      const maxY = Math.max(0, (height * scale() - frameHeight) / 2);
+      state.offsetX = Math.min(maxX, Math.max(-maxX, state.offsetX));
+      state.offsetY = Math.min(maxY, Math.max(-maxY, state.offsetY));
+    }
+
+    function paint(ctx: CanvasRenderingContext2D, width: number, height: number) {
+      const factor = width / frameWidth;
+      ctx.clearRect(0, 0, width, height);
+      ctx.save();
+      ctx.translate(width / 2 + state.offsetX * factor, height / 2 + state.offsetY * factor);
+      ctx.rotate((state.rotation * Math.PI) / 180);
+      ctx.scale(scale() * factor, scale() * factor);
+      ctx.drawImage(source, -source.naturalWidth / 2, -source.naturalHeight / 2);
+      ctx.restore();
+    }
+
+    function redraw() {
+      clampOffsets();
+      const ctx = stage.getContext('2d');
+      if (ctx) paint(ctx, stage.width, stage.height);
+    }
+
+    // Pointer panning
+    let drag: { x: number; y: number; pointerId: number } | null = null;
+    stage.addEventListener('pointerdown', (e) => {
+      drag = { x: e.clientX, y: e.clientY, pointerId: e.pointerId };
+      stage.setPointerCapture?.(e.pointerId);
+      stage.classList.add('swal-image-crop__stage--dragging');
+    });
+    stage.addEventListener('pointermove', (e) => {
+      if (!drag || e.pointerId !== drag.pointerId) return;
+      state.offsetX += e.clientX - drag.x;
+      state.offsetY += e.clientY - drag.y;
+      drag.x = e.clientX;
+      drag.y = e.clientY;
+      redraw();
+    });
+    const endDrag = () => {
+      drag = null;
+      stage.classList.remove('swal-image-crop__stage--dragging');
+    };
+    stage.addEventListener('pointerup', endDrag);
+    stage.addEventListener('pointercancel', endDrag);
+
+    // Wheel zoom
+    stage.addEventListener('wheel', (e) => {
+      e.preventDefault();
+      setZoom(state.zoom * (e.deltaY < 0 ? 1.1 : 1 / 1.1));
+    }, { passive: false });
+
+    // Keyboard panning and zoom
+    stage.addEventListener('keydown', (e) => {
+      const moves: Record<string, [number, number]> = {
+        ArrowLeft: [PAN_STEP, 0],
+        ArrowRight: [-PAN_STEP, 0],
+        ArrowUp: [0, PAN_STEP],
+        ArrowDown: [0, -PAN_STEP],
+      };
+      if (moves[e.key]) {
+        e.preventDefault();
+        state.offsetX += moves[e.key][0];
+        state.offsetY += moves[e.key][1];
+        redraw();
+      } else if (e.key === '+' || e.key === '=') {
+        e.preventDefault();
+        setZoom(state.zoom * 1.1);
+      } else if (e.key === '-') {
+        e.preventDefault();
+        setZoom(state.zoom / 1.1);
+      }
+    });
+
+    const zoom = document.createElement('input');
+    zoom.type = 'range';
+    zoom.className = 'swal-range swal-image-crop__zoom';
+    zoom.min = '1';
+    zoom.max = String(MAX_ZOOM);
+    zoom.step = '0.01';
+    zoom.value = '1';
+    zoom.setAttribute('aria-label', 'Zoom');
+    zoom.addEventListener('input', () => setZoom(parseFloat(zoom.value)));
+
+    function setZoom(next: number) {
+      state.zoom = Math.min(MAX_ZOOM, Math.max(1, next));
+      zoom.value = String(state.zoom);
+      redraw();
+    }
+
+    const toolbar = document.createElement('div');
+    toolbar.className = 'swal-image-crop__toolbar';
+
+    const createButton = (text: string, className: string, onClick: () => void, ariaLabel?: string) => {
+      const btn = document.createElement('button');
+      btn.type = 'button';
+      btn.className = `swal-image-crop__btn ${className}`;
+      btn.textContent = text;
+      if (ariaLabel) btn.setAttribute('aria-label', ariaLabel);
+      btn.addEventListener('click', onClick);
+      return btn;
+    };
+
+    const rotate = (delta: number) => {
+      state.rotation = (state.rotation + delta + 360) % 360;
+      redraw();
+    };
+
+    if (config.rotatable !== false) {
+      toolbar.appendChild(createButton('⟲', 'swal-image-crop__rotate', () => rotate(-90), 'Rotate left'));
+      toolbar.appendChild(createButton('⟳', 'swal-image-crop__rotate', () => rotate(90), 'Rotate right'));
+    }
+    toolbar.appendChild(zoom);
+
+    const actions = document.createElement('div');
+    actions.className = 'swal-image-crop__actions';
+    actions.appendChild(createButton('Cancel', 'swal-image-crop__cancel', () => {
+      closeCropper();
+      input.value = '';
+    }));
+    actions.appendChild(createButton('Apply', 'swal-image-crop__apply', async () => {
+      // Output the frame at source resolution unless constrained
+      const natural = {
+        width: Math.round(frameWidth / scale()),
+        height: Math.round(frameHeight / scale()),
+      };
+      const size = fitOutputSize(natural.width, natural.height, config.output);
+      const canvas = document.createElement('canvas');
+      canvas.width = size.width;
+      canvas.height = size.height;
+      const ctx = canvas.getContext('2d');
+      if (ctx) paint(ctx, size.width, size.height);
+
+      try {
+        const output = await canvasToFile(canvas, file, config.output);
+        closeCropper();
+        commit(output);
+      } catch {
+        status.textContent = 'The image could not be processed';
+      }
+    }));
+
+    cropper.appendChild(stage);
+    cropper.appendChild(toolbar);
+    cropper.appendChild(actions);
+    container.classList.add('swal-image-upload--cropping');
+    container.appendChild(cropper);
+
+    redraw();
+    stage.focus({ preventScroll: true });
+  }
+
+  function closeCropper() {
+    cropper?.remove();
+    cropper = null;
+    container.classList.remove('swal-image-upload--cropping');
+  }
+
+  // ==========================================================================
+  // Events
+  // ==========================================================================
+
+  input.addEventListener('change', () => select(input.files?.[0]));
+
+  removeBtn.addEventListener('click', () => {
+    input.value = '';
+    closeCropper();
+    show(null);
+    onChange(null);
+  });
+
+  preview.addEventListener('dragover', (e) => {
+    e.preventDefault();
+    preview.classList.add('swal-image-upload__preview--dragover');
+  });
+  preview.addEventListener('dragleave', () => {
+    preview.classList.remove('swal-image-upload__preview--dragover');
+  });
+  preview.addEventListener('drop', (e) => {
+    e.preventDefault();
+    preview.classList.remove('swal-image-upload__preview--dragover');
+    if (!field.disabled) select(e.dataTransfer?.files[0]);
+  });
+
+  // Clicking the preview opens the picker
+  preview.addEventListener('click', () => {
+    if (!field.disabled) input.click();
+  });
+
+  preview.appendChild(img);
+  preview.appendChild(placeholder);
+  container.appendChild(input);
+  container.appendChild(preview);
+  container.appendChild(removeBtn);
+  container.appendChild(status);
+  wrapper.appendChild(container);
+
+  if (value instanceof Blob) {
+    showFile(value);
+  } else {
+    show(typeof value === 'string' && value ? value : null);
+  }
+
+  const hint = createHint(field);
+  if (hint) wrapper.appendChild(hint);
+  const errorEl = createError(error);
+  if (errorEl) wrapper.appendChild(errorEl);
+
+  (wrapper as any).__cleanup = () => {
+    if (objectUrl) URL.revokeObjectURL(objectUrl);
+  };
+
+  return wrapper;
+};
@@ -0,0 +1,186 @@
+/**
+ * Markdown Field
+ * Textarea with a toolbar that inserts Markdown syntax, and a sanitized preview tab
+ */
+
+import type { TextareaFieldConfig } from '../../core/types';
+import { sanitize } from '../../core/sanitizer';
+import { parseMarkdown } from '../markdown-parser';
+import { FieldRenderer, createFieldWrapper, createLabel, createHint, createError, setCommonAttributes } from '../field-helpers';
+
+interface MarkdownAction {
+  label: string;
+  icon: string;
+  /** Text inserted before the selection */
+  before: string;
+  /** Text inserted after the selection */
+  after?: string;
+  /** Apply to the start of each selected line */
+  linePrefix?: boolean;
+}
+
+const MARKDOWN_ACTIONS: Record<string, MarkdownAction> = {
+  bold: { label: 'Bold', icon: 'B', before: '**', after: '**' },
+  italic: { label: 'Italic', icon: 'I', before: '_', after: '_' },
+  strike: { label: 'Strikethrough', icon: 'S', before: '~~', after: '~~' },
+  heading: { label: 'Heading', icon: 'H', before: '## ', linePrefix: true },
+  quote: { label: 'Quote', icon: '❝', before: '> ', linePrefix: true },
+  code: { label: 'Code', icon: '</>', before: '`', after: '`' },
+  codeblock: { label: 'Code block', icon: '{ }', before: '```\n', after: '\n```' },
+  link: { label: 'Link', icon: '🔗', before: '[', after: '](url)' },
+  ul: { label: 'Bulleted list', icon: '•', before: '- ', linePrefix: true },
+  ol: { label: 'Numbered list', icon: '1.', before: '1. ', linePrefix: true },
+  table: { label: 'Table', icon: '▦', before: '\n| Column | Column |\n| --- | --- |\n| ', after: ' |  |\n' },
+};
+
+const DEFAULT_TOOLBAR = ['bold', 'italic', 'heading', 'link', 'code', 'ul', 'ol', 'quote'];
+
+export const renderMarkdown: FieldRenderer = (field, value, onChange, error) => {
+  const config = field as TextareaFieldConfig;
+  const wrapper = createFieldWrapper(field, error);
+  const label = createLabel(field);
+  if (label) wrapper.appendChild(label);
+
+  const editorWrapper = document.createElement('div');
+  editorWrapper.className = 'swal-markdown';
+
+  const header = document.createElement('div');
+  header.className = 'swal-markdown__header';
+
+  const tabs = document.createElement('div');
+  tabs.className = 'swal-markdown__tabs';
+  tabs.setAttribute('role', 'tablist');
+  tabs.setAttribute('aria-label', 'Editor mode');
+
+  const toolbar = document.createElement('div');
+  toolbar.className = 'swal-markdown__toolbar';
+  toolbar.setAttribute('role', 'toolbar');
+  toolbar.setAttribute('aria-label', 'Markdown formatting');
+
+  const textarea = document.createElement('textarea');
+  textarea.className = 'swal-textarea swal-markdown__input';
+  textarea.value = String(value ?? field.defaultValue ?? '');
+  textarea.rows = config.rows ?? 6;
+  textarea.spellcheck = true;
+  setCommonAttributes(textarea, field);
+  if (config.maxLength) textarea.maxLength = config.maxLength;
+
+  function apply(action: MarkdownAction) {
+    const { selectionStart: start, selectionEnd: end } = textarea;
+    const text = textarea.value;
+    let replacement: string;
+
+    if (action.linePrefix) {
+      const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+      const block = text.slice(lineStart, end);
+      replacement = block.split('\n').map(line => action.before + line).join('\n');
+      textarea.setRangeText(replacement, lineStart, end, 'select');
+    } else {
+      replacement = action.before + text.slice(start, end) + (action.after ?? '');
+      textarea.setRangeText(replacement, start, end, 'end');
+      if (start === end) {
+        // Place the caret between the markers when nothing was selected
+        const caret = start + action.before.length;
+        textarea.setSelectionRange(caret, caret);
+      }
+    }
+
+    textarea.focus();
+    onChange(textarea.value);
+  }
+
+  for (const key of config.toolbar || DEFAULT_TOOLBAR) {
+    const action = MARKDOWN_ACTIONS[key];
+    if (!action) continue;
+
+    const btn = document.createElement('button');
+    btn.type = 'button';
+    btn.className = 'swal-markdown__tool';
+    btn.textContent = action.icon;
+    btn.title = action.label;
+    btn.setAttribute('aria-label', action.label);
+    if (field.disabled || field.readOnly) btn.disabled = true;
+    btn.addEventListener('click', () => apply(action));
+    toolbar.appendChild(btn);
+  }
+
+  const preview = document.createElement('div');
+  preview.className = 'swal-markdown__preview';
+  preview.id = `swal-field-${field.name}-preview`;
+  preview.setAttribute('role', 'tabpanel');
+  preview.tabIndex = 0;
+  preview.hidden = true;
+
+  // ==========================================================================
+  // Write / Preview Tabs
+  // ==========================================================================
+
+  const panels = { write: textarea, preview };
+  const tabButtons = {} as Record<keyof typeof panels, HTMLButtonElement>;
+  let mode: keyof typeof panels = 'write';
+
+  function renderPreview() {
+    preview.innerHTML = sanitize(parseMarkdown(textarea.value));
+  }
+
+  function selectTab(next: keyof typeof panels, focus = false) {
+    mode = next;
+    if (mode === 'preview') renderPreview();
+
+    for (const key of Object.keys(panels) as Array<keyof typeof panels>) {
+      const selected = key === mode;
+      panels[key].hidden = !selected;
+      tabButtons[key].setAttribute('aria-selected', String(selected));
+      tabButtons[key].tabIndex = selected ? 0 : -1;
+      tabButtons[key].classList.toggle('swal-markdown__tab--active', selected);
+    }
+    // Formatting only applies while writing
+    toolbar.hidden = mode === 'preview';
+    if (focus) tabButtons[mode].focus();
+  }
+
+  for (const [key, text] of [['write', 'Write'], ['preview', 'Preview']] as const) {
+    const tab = document.createElement('button');
+    tab.type = 'button';
+    tab.className = 'swal-markdown__tab';
+    tab.id = `swal-field-${field.name}-tab-${key}`;
+    tab.textContent = text;
+    tab.setAttribute('role', 'tab');
+    tab.setAttribute('aria-controls', key === 'write' ? textarea.id : preview.id);
+    tab.addEventListener('click', () => selectTab(key));
+    tabButtons[key] = tab;
+    tabs.appendChild(tab);
+  }
+  preview.setAttribute('aria-labelledby', tabButtons.preview.id);
+
+  // Arrow keys move between tabs
+  tabs.addEventListener('keydown', (e) => {
+    if (e.key === 'ArrowLeft' || e.key === 'ArrowRight') {
+      e.preventDefault();
+      selectTab(mode === 'write' ? 'preview' : 'write', true);
+    } else if (e.key === 'Home' || e.key === 'End') {
+      e.preventDefault();
+      selectTab(e.key === 'Home' ? 'write' : 'preview', true);
+    }
+  });
+
+  textarea.addEventListener('input', () => {
+    onChange(textarea.value);
+    if (mode === 'preview') renderPreview();
+  });
+
+  header.appendChild(tabs);
+  header.appendChild(toolbar);
+  editorWrapper.appendChild(header);
+  editorWrapper.appendChild(textarea);
+  editorWrapper.appendChild(preview);
+  wrapper.appendChild(editorWrapper);
+  selectTab('write');
+
+  const hint = createHint(field);
+  if (hint) wrapper.appendChild(hint);
+  const errorEl = createError(error);
+  if (errorEl) wrapper.appendChild(errorEl);
+
+  return wrapper;
+};
@@ -0,0 +1,343 @@
+/**
+ * Rich Text Field
+ * Contenteditable editor with a formatting toolbar and sanitized HTML output
+ */
+
+import type { TextareaFieldConfig } from '../../core/types';
+import { sanitize } from '../../core/sanitizer';
+import { FieldRenderer, createFieldWrapper, createLabel, createHint, createError } from '../field-helpers';
+
+interface ToolbarCommand {
+  label: string;
+  icon: string;
+  command: string;
+  arg?: string;
+  /** Keyboard shortcut, `Mod` being Ctrl or ⌘ (e.g. `Mod+Shift+8`) */
+  shortcut?: string;
+  /** Inline style whose on/off state is shown with aria-pressed */
+  toggle?: boolean;
+}
+
+const TOOLBAR_COMMANDS: Record<string, ToolbarCommand> = {
+  bold: { label: 'Bold', icon: '<b>B</b>', command: 'bold', shortcut: 'Mod+B', toggle: true },
+  italic: { label: 'Italic', icon: '<i>I</i>', command: 'italic', shortcut: 'Mod+I', toggle: true },
+  underline: { label: 'Underline', icon: '<u>U</u>', command: 'underline', shortcut: 'Mod+U', toggle: true },
+  strike: { label: 'Strikethrough', icon: '<s>S</s>', command: 'strikeThrough', shortcut: 'Mod+Shift+X', toggle: true },
+  h1: { label: 'Heading 1', icon: 'H1', command: 'formatBlock', arg: 'h1', shortcut: 'Mod+Alt+1' },
+  h2: { label: 'Heading 2', icon: 'H2', command: 'formatBlock', arg: 'h2', shortcut: 'Mod+Alt+2' },
+  h3: { label: 'Heading 3', icon: 'H3', command: 'formatBlock', arg: 'h3', shortcut: 'Mod+Alt+3' },
+  paragraph: { label: 'Normal text', icon: '¶', command: 'formatBlock', arg: 'p', shortcut: 'Mod+Alt+0' },
+  quote: { label: 'Quote', icon: '❝', command: 'formatBlock', arg: 'blockquote' },
+  ul: { label: 'Bulleted list', icon: '•', command: 'insertUnorderedList', shortcut: 'Mod+Shift+8' },
+  ol: { label: 'Numbered list', icon: '1.', command: 'insertOrderedList', shortcut: 'Mod+Shift+7' },
+  link: { label: 'Link', icon: '🔗', command: 'createLink', shortcut: 'Mod+K' },
+  clear: { label: 'Clear formatting', icon: '⨯', command: 'removeFormat', shortcut: 'Mod+\\' },
+};
+
+const DEFAULT_TOOLBAR = ['bold', 'italic', 'underline', 'ul', 'ol', 'link'];
+
+/** Shortcuts browsers apply natively in contenteditable, blocked when their tool is not enabled */
+const NATIVE_SHORTCUTS = ['bold', 'italic', 'underline'];
+
+/** Pasted elements whose content is never text the user meant to paste */
+const DROPPED_ON_PASTE = 'style, script, meta, link, title, template, xml, img';
+
+const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+// ============================================================================
+// Markup Helpers
+// ============================================================================
+
+/**
+ * Sanitize editor HTML. sanitize() escapes input without tags as plain text,
+ * but editor HTML is already escaped, so `&amp;` must not become `&amp;amp;`.
+ */
+function cleanHtml(html: string): string {
+  return html.includes('<') ? sanitize(html) : html;
+}
+
+/**
+ * Rewrite browser-generated markup into tags the sanitizer allows
+ */
+function normalizeMarkup(root: HTMLElement): void {
+  // strikeThrough produces <s> or <strike>, which are not allowed; <del> is
+  root.querySelectorAll('s, strike').forEach((el) => {
+    const del = document.createElement('del');
+    del.append(...Array.from(el.childNodes));
+    el.replaceWith(del);
+  });
+
+  // Google Docs wraps every copied selection in a non-bold <b>
+  root.querySelectorAll('b[id^="docs-internal-guid"]').forEach((el) => {
+    el.replaceWith(...Array.from(el.childNodes));
+  });
+}
+
+/**
+ * Reduce HTML pasted from Word, Google Docs or web pages to plain allowed markup
+ */
+function cleanPastedHtml(html: string): string {
+  const source = new DOMParser().parseFromString(html, 'text/html').body;
+  source.querySelectorAll(DROPPED_ON_PASTE).forEach(el => el.remove());
+  normalizeMarkup(source);
+
+  const clean = new DOMParser().parseFromString(`<body>${cleanHtml(source.innerHTML)}</body>`, 'text/html').body;
+
+  // Classes, ids and data attributes belong to the source document
+  clean.querySelectorAll('*').forEach((el) => {
+    for (const attr of Array.from(el.attributes)) {
+      if (!(el.tagName === 'A' && attr.name === 'href')) el.removeAttribute(attr.name);
+    }
+  });
+  // Without their styles, spans are empty wrappers
+  clean.querySelectorAll('span').forEach(el => el.replaceWith(...Array.from(el.childNodes)));
+
+  return clean.innerHTML;
+}
+
+// ============================================================================
+// Keyboard Shortcuts
+// ============================================================================
+
+function matchesShortcut(event: KeyboardEvent, shortcut: string): boolean {
+  const parts = shortcut.split('+');
+  const key = parts[parts.length - 1];
+  const code = /^\d$/.test(key) ? `Digit${key}` : key === '\\' ? 'Backslash' : `Key${key}`;
+
+  // Match physical keys, since Shift and Alt change event.key
+  return event.code === code
+    && (isMac ? event.metaKey : event.ctrlKey)
+    && event.shiftKey === parts.includes('Shift')
+    && event.altKey === parts.includes('Alt');
+}
+
+function formatShortcut(shortcut: string): string {
+  return isMac
+    ? shortcut.replace('Mod+', '⌘').replace('Shift+', '⇧').replace('Alt+', '⌥')
+    : shortcut.replace('Mod', 'Ctrl');
+}
+
+// ============================================================================
+// Renderer
+// ============================================================================
+
+export const renderRichText: FieldRenderer = (field, value, onChange, error) => {
+  const config = field as TextareaFieldConfig;
+  const wrapper = createFieldWrapper(field, error);
+  const label = createLabel(field);
+  if (label) {
+    label.id = `swal-field-${field.name}-label`;
+    wrapper.appendChild(label);
+  }
+
+  const editorWrapper = document.createElement('div');
+  editorWrapper.className = 'swal-richtext';
+
+  const toolbar = document.createElement('div');
+  toolbar.className = 'swal-richtext__toolbar';
+  toolbar.setAttribute('role', 'toolbar');
+  toolbar.setAttribute('aria-label', 'Formatting');
+
+  const editor = document.createElement('div');
+  editor.className = 'swal-richtext__editor';
+  editor.id = `swal-field-${field.name}`;
+  editor.contentEditable = field.disabled || field.readOnly ? 'false' : 'true';
+  editor.setAttribute('role', 'textbox');
+  editor.setAttribute('aria-multiline', 'true');
+  if (label) editor.setAttribute('aria-labelledby', label.id);
+  if (field.placeholder) editor.dataset.placeholder = field.placeholder;
+  if (field.required) editor.setAttribute('aria-required', 'true');
+  if (config.rows) editor.style.minHeight = `${config.rows * 1.5}em`;
+  editor.innerHTML = cleanHtml(String(value ?? field.defaultValue ?? ''));
+
+  function emit() {
+    // Normalize a copy so the caret position in the editor is untouched
+    const copy = editor.cloneNode(true) as HTMLElement;
+    normalizeMarkup(copy);
+    const html = cleanHtml(copy.innerHTML);
+    // An editor containing only whitespace or empty blocks counts as empty
+    onChange(editor.textContent?.trim() ? html : '');
+  }
+
+  function run(cmd: ToolbarCommand) {
+    if (cmd.command === 'createLink') {
+      openLinkBar();
+      return;
+    }
+    editor.focus();
+    document.execCommand(cmd.command, false, cmd.arg);
+    updateToolbarState();
+    emit();
+  }
+
+  // ==========================================================================
+  // Link Bar
+  // ==========================================================================
+
+  const linkBar = document.createElement('div');
+  linkBar.className = 'swal-richtext__linkbar';
+  linkBar.hidden = true;
+
+  const linkInput = document.createElement('input');
+  linkInput.type = 'url';
+  linkInput.className = 'swal-input swal-richtext__link-input';
+  linkInput.placeholder = 'https://';
+  linkInput.setAttribute('aria-label', 'Link URL');
+
+  const applyLink = document.createElement('button');
+  applyLink.type = 'button';
+  applyLink.className = 'swal-richtext__tool';
+  applyLink.textContent = 'Apply';
+
+  const cancelLink = document.createElement('button');
+  cancelLink.type = 'button';
+  cancelLink.className = 'swal-richtext__tool';
+  cancelLink.textContent = 'Cancel';
+
+  linkBar.append(linkInput, applyLink, cancelLink);
+
+  /** The editor selection to link, kept while focus is in the link bar */
+  let linkRange: Range | null = null;
+
+  function openLinkBar() {
+    const selection = document.getSelection();
+    const range = selection && selection.rangeCount > 0 ? selection.getRangeAt(0) : null;
+    linkRange = range && editor.contains(range.commonAncestorContainer) ? range.cloneRange() : null;
+
+    // Editing an existing link starts from its address
+    const node = linkRange?.startContainer;
+    const anchor = (node instanceof Element ? node : node?.parentElement)?.closest('a');
+    linkInput.value = anchor && editor.contains(anchor) ? anchor.getAttribute('href') ?? '' : '';
+
+    linkBar.hidden = false;
+    linkInput.focus();
+    linkInput.select();
+  }
+
+  function closeLinkBar(url?: string) {
+    linkBar.hidden = true;
+    editor.focus();
+
+    const selection = document.getSelection();
+    if (linkRange && selection) {
+      selection.removeAllRanges();
+      selection.addRange(linkRange);
+    }
+
+    if (url) {
+      if (linkRange && !linkRange.collapsed) {
+        document.execCommand('createLink', false, url);
+      } else {
+        // Without selected text, the address itself becomes the link text
+        const link = document.createElement('a');
+        link.setAttribute('href', url);
+        link.textContent = url;
+        document.execCommand('insertHTML', false, link.outerHTML);
+      }
+      updateToolbarState();
+      emit();
+    }
+    linkRange = null;
+  }
+
+  linkInput.addEventListener('keydown', (e) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      closeLinkBar(linkInput.value.trim());
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      closeLinkBar();
+    }
+  });
+  applyLink.addEventListener('click', () => closeLinkBar(linkInput.value.trim()));
+  cancelLink.addEventListener('click', () => closeLinkBar());
+
+  const enabled = (config.toolbar || DEFAULT_TOOLBAR).filter(key => TOOLBAR_COMMANDS[key]);
+  const toggleButtons: Array<[ToolbarCommand, HTMLButtonElement]> = [];
+
+  for (const key of enabled) {
+    const cmd = TOOLBAR_COMMANDS[key];
+    const title = cmd.shortcut ? `${cmd.label} (${formatShortcut(cmd.shortcut)})` : cmd.label;
+
+    const btn = document.createElement('button');
+    btn.type = 'button';
+    btn.className = 'swal-richtext__tool';
+    btn.innerHTML = cmd.icon;
+    btn.title = title;
+    btn.setAttribute('aria-label', cmd.label);
+    if (cmd.shortcut) btn.setAttribute('aria-keyshortcuts', cmd.shortcut.replace('Mod', isMac ? 'Meta' : 'Control'));
+    if (cmd.toggle) {
+      btn.setAttribute('aria-pressed', 'false');
+      toggleButtons.push([cmd, btn]);
+    }
+    if (field.disabled || field.readOnly) btn.disabled = true;
+    // Keep the selection inside the editor
+    btn.addEventListener('mousedown', (e) => e.preventDefault());
+    btn.addEventListener('click', () => run(cmd));
+    toolbar.appendChild(btn);
+  }
+
+  // Reflect the formatting at the caret on the toggle buttons
+  function updateToolbarState() {
+    for (const [cmd, btn] of toggleButtons) {
+      const active = document.queryCommandState(cmd.command);
+      btn.setAttribute('aria-pressed', String(active));
+      btn.classList.toggle('swal-richtext__tool--active', active);
+    }
+  }
+
+  function handleSelectionChange() {
+    const selection = document.getSelection();
+    if (selection?.anchorNode && editor.contains(selection.anchorNode)) updateToolbarState();
+  }
+
+  document.addEventListener('selectionchange', handleSelectionChange);
+
+  editor.addEventListener('keydown', (e) => {
+    for (const key of enabled) {
+      const cmd = TOOLBAR_COMMANDS[key];
+      if (cmd.shortcut && matchesShortcut(e, cmd.shortcut)) {
+        e.preventDefault();
+        run(cmd);
+        return;
+      }
+    }
+
+    // Formatting the toolbar does not offer would be stripped from the output anyway
+    for (const key of NATIVE_SHORTCUTS) {
+      if (!enabled.includes(key) && matchesShortcut(e, TOOLBAR_COMMANDS[key].shortcut!)) {
+        e.preventDefault();
+        return;
+      }
+    }
+  });
+
+  editor.addEventListener('input', emit);
+
+  // Keep the structure of pasted rich text but drop foreign styles and attributes
+  editor.addEventListener('paste', (e) => {
+    e.preventDefault();
+    const html = e.clipboardData?.getData('text/html');
+    if (html) {
+      document.execCommand('insertHTML', false, cleanPastedHtml(html));
+    } else {
+      document.execCommand('insertText', false, e.clipboardData?.getData('text/plain') ?? '');
+    }
+  });
+
+  editorWrapper.appendChild(toolbar);
+  editorWrapper.appendChild(linkBar);
+  editorWrapper.appendChild(editor);
+  wrapper.appendChild(editorWrapper);
+
+  const hint = createHint(field);
+  if (hint) wrapper.appendChild(hint);
+  const errorEl = createError(error);
+  if (errorEl) wrapper.appendChild(errorEl);
+
+  (wrapper as any).__cleanup = () => {
+    document.removeEventListener('selectionchange', handleSelectionChange);
+  };
+
+  return wrapper;
+};
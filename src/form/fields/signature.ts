@@ -0,0 +1,417 @@
+/**
+ * Signature Field
+ * Canvas drawing pad with pressure-smoothed strokes and PNG/SVG/JSON export
+ */
+
+import type { SignatureFieldConfig, SignaturePoint, SignatureStroke } from '../../core/types';
+import { FieldRenderer, createFieldWrapper, createLabel, createHint, createError } from '../field-helpers';
+import { escapeHtml } from '../../core/sanitizer';
+
+const DEFAULT_MIN_WIDTH = 0.75;
+const DEFAULT_MAX_WIDTH = 3;
+/** Weight of the previous pressure when smoothing (0 = no smoothing) */
+const PRESSURE_SMOOTHING = 0.7;
+/** Pointer speed (px/ms) at which synthesized pressure bottoms out */
+const MAX_VELOCITY = 3;
+
+interface StrokeSegment {
+  from: { x: number; y: number };
+  control: { x: number; y: number };
+  to: { x: number; y: number };
+  width: number;
+}
+
+export interface SignatureExportOptions {
+  width: number;
+  height: number;
+  backgroundColor?: string;
+  minStrokeWidth?: number;
+  maxStrokeWidth?: number;
+}
+
+// ============================================================================
+// Geometry
+// ============================================================================
+
+function midpoint(a: SignaturePoint, b: SignaturePoint) {
+  return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+}
+
+function round(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+/**
+ * Split a stroke into quadratic curve segments through the midpoints of
+ * consecutive points, each with a width derived from the local pressure
+ */
+function strokeSegments(stroke: SignatureStroke, minWidth: number, maxWidth: number): StrokeSegment[] {
+  const { points } = stroke;
+  const widthAt = (p: SignaturePoint) => minWidth + (maxWidth - minWidth) * p.pressure;
+  const segments: StrokeSegment[] = [];
+
+  for (let i = 1; i < points.length; i++) {
+    const prev = points[i - 1];
+    const curr = points[i];
+    segments.push({
+      from: i === 1 ? { x: prev.x, y: prev.y } : midpoint(points[i - 2], prev),
+      control: { x: prev.x, y: prev.y },
+      to: i === points.length - 1 ? { x: curr.x, y: curr.y } : midpoint(prev, curr),
+      width: (widthAt(prev) + widthAt(curr)) / 2,
+    });
+  }
+
+  return segments;
+}
+
+// ============================================================================
+// Export Helpers
+// ============================================================================
+
+/**
+ * Check whether a signature value contains any ink
+ */
+export function isSignatureEmpty(value: unknown): boolean {
+  if (value === null || value === undefined || value === '') return true;
+  if (Array.isArray(value)) {
+    return !value.some((stroke: SignatureStroke) => stroke?.points?.length > 0);
+  }
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    if (trimmed.startsWith('[')) {
+      try {
+        return isSignatureEmpty(JSON.parse(trimmed));
+      } catch {
+        return true;
+      }
+    }
+    if (trimmed.startsWith('<svg')) return !/<(path|circle)\b/.test(trimmed);
+  }
+  return false;
+}
+
+/**
+ * Render strokes as a standalone SVG document
+ */
+export function signatureToSVG(strokes: SignatureStroke[], options: SignatureExportOptions): string {
+  const minWidth = options.minStrokeWidth ?? DEFAULT_MIN_WIDTH;
+  const maxWidth = options.maxStrokeWidth ?? DEFAULT_MAX_WIDTH;
+  const parts: string[] = [];
+
+  if (options.backgroundColor && options.backgroundColor !== 'transparent') {
+    parts.push(`<rect width="100%" height="100%" fill="${escapeHtml(options.backgroundColor)}"/>`);
+  }
+
+  for (const stroke of strokes) {
+    if (stroke.points.length === 1) {
+      const [p] = stroke.points;
+      const r = round((minWidth + (maxWidth - minWidth) * p.pressure) / 2);
+      parts.push(`<circle cx="${round(p.x)}" cy="${round(p.y)}" r="${r}" fill="${escapeHtml(stroke.color)}"/>`);
+      continue;
+    }
+
+    const paths = strokeSegments(stroke, minWidth, maxWidth).map(s =>
+      `<path d="M${round(s.from.x)} ${round(s.from.y)} Q${round(s.control.x)} ${round(s.control.y)} ${round(s.to.x)} ${round(s.to.y)}" stroke-width="${round(s.width)}"/>`
+    );
+    parts.push(`<g fill="none" stroke="${escapeHtml(stroke.color)}" stroke-linecap="round" stroke-linejoin="round">${paths.join('')}</g>`);
+  }
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${options.width}" height="${options.height}" viewBox="0 0 ${options.width} ${options.height}">${parts.join('')}</svg>`;
+}
+
+/**
+ * Parse a stored value back into strokes, if it holds raw stroke data
+ */
+function parseStrokes(value: unknown): SignatureStroke[] | null {
+  if (Array.isArray(value)) return value as SignatureStroke[];
+  if (typeof value === 'string' && value.trim().startsWith('[')) {
+    try {
+      const parsed = JSON.parse(value);
+      return Array.isArray(parsed) ? parsed : null;
+    } catch {
+      return null;
+    }
+  }
+  return null;
+}
+
+// ============================================================================
+// Renderer
+// ============================================================================
+
+export const renderSignature: FieldRenderer = (field, value, onChange, error) => {
+  const config = field as SignatureFieldConfig;
+  const wrapper = createFieldWrapper(field, error);
+  const label = createLabel(field);
+  if (label) wrapper.appendChild(label);
+
+  const width = config.width ?? 400;
+  const height = config.height ?? 160;
+  const penColor = config.penColor ?? '#111827';
+  const backgroundColor = config.backgroundColor ?? 'transparent';
+  const minWidth = config.minStrokeWidth ?? DEFAULT_MIN_WIDTH;
+  const maxWidth = config.maxStrokeWidth ?? DEFAULT_MAX_WIDTH;
+  const format = config.format ?? 'png';
+  const interactive = !field.disabled && !field.readOnly;
+
+  const pad = document.createElement('div');
+  pad.className = 'swal-signature';
+
+  // Back the canvas with device pixels so strokes stay crisp on HiDPI screens
+  const ratio = Math.max(window.devicePixelRatio || 1, 1);
+  const canvas = document.createElement('canvas');
+  canvas.className = 'swal-signature__canvas';
+  canvas.id = `swal-field-${field.name}`;
+  canvas.width = width * ratio;
+  canvas.height = height * ratio;
+  canvas.style.width = `${width}px`;
+  canvas.style.aspectRatio = `${width} / ${height}`;
+  canvas.style.backgroundColor = backgroundColor;
+  canvas.tabIndex = 0;
+  canvas.setAttribute('role', 'img');
+  canvas.setAttribute('aria-label', field.label ? `${field.label} signature pad` : 'Signature pad');
+  if (field.required) canvas.setAttribute('aria-required', 'true');
+  if (error) canvas.setAttribute('aria-invalid', 'true');
+
+  const ctx = canvas.getContext('2d');
+  ctx?.scale(ratio, ratio);
+
+  let strokes: SignatureStroke[] = parseStrokes(value)?.map(s => ({ ...s, points: [...s.points] })) ?? [];
+  let baseImage: HTMLImageElement | null = null;
+  let current: SignatureStroke | null = null;
+  let strokeStart = 0;
+  let lastPoint: SignaturePoint | null = null;
+  let activePointer: number | null = null;
+
+  // ==========================================================================
+  // Drawing
+  // ==========================================================================
+
+  function drawStroke(stroke: SignatureStroke) {
+    if (!ctx) return;
+    ctx.strokeStyle = stroke.color;
+    ctx.fillStyle = stroke.color;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+
+    if (stroke.points.length === 1) {
+      const [p] = stroke.points;
+      ctx.beginPath();
+      ctx.arc(p.x, p.y, (minWidth + (maxWidth - minWidth) * p.pressure) / 2, 0, Math.PI * 2);
+      ctx.fill();
+      return;
+    }
+
+    for (const segment of strokeSegments(stroke, minWidth, maxWidth)) {
+      ctx.lineWidth = segment.width;
+      ctx.beginPath();
+      ctx.moveTo(segment.from.x, segment.from.y);
+      ctx.quadraticCurveTo(segment.control.x, segment.control.y, segment.to.x, segment.to.y);
+      ctx.stroke();
+    }
+  }
+
+  function redraw() {
+    if (!ctx) return;
+    ctx.clearRect(0, 0, width, height);
+    if (backgroundColor !== 'transparent') {
+      ctx.fillStyle = backgroundColor;
+      ctx.fillRect(0, 0, width, height);
+    }
+    if (baseImage) ctx.drawImage(baseImage, 0, 0, width, height);
+    strokes.forEach(drawStroke);
+    updateControls();
+  }
+
+  function isEmpty(): boolean {
+    return !baseImage && strokes.every(s => s.points.length === 0);
+  }
+
+  function exportValue(): string | SignatureStroke[] | null {
+    if (isEmpty()) return null;
+    switch (format) {
+      case 'json':
+        return strokes.map(s => ({ color: s.color, points: s.points.map(p => ({ ...p })) }));
+      case 'svg':
+        return signatureToSVG(strokes, { width, height, backgroundColor, minStrokeWidth: minWidth, maxStrokeWidth: maxWidth });
+      default:
+        return canvas.toDataURL('image/png');
+    }
+  }
+
+  function emit() {
+    pad.classList.toggle('swal-signature--empty', isEmpty());
+    onChange(exportValue());
+  }
+
+  // ==========================================================================
+  // Pointer Input
+  // ==========================================================================
+
+  function pointFrom(e: PointerEvent): SignaturePoint {
+    const rect = canvas.getBoundingClientRect();
+    const x = ((e.clientX - rect.left) / (rect.width || width)) * width;
+    const y = ((e.clientY - rect.top) / (rect.height || height)) * height;
+    const time = e.timeStamp - strokeStart;
+
+    // Pens report real pressure; mice and most touch screens report a constant,
+    // so synthesize it from speed (faster movement draws thinner lines)
+    let pressure: number;
+    if (e.pointerType === 'pen' && e.pressure > 0) {
+      pressure = e.pressure;
+    } else if (lastPoint) {
+      const distance = Math.hypot(x - lastPoint.x, y - lastPoint.y);
+      const velocity = distance / Math.max(time - lastPoint.time, 1);
+      pressure = 1 - Math.min(velocity / MAX_VELOCITY, 1);
+    } else {
+      pressure = 0.5;
+    }
+
+    if (lastPoint) {
+      pressure = PRESSURE_SMOOTHING * lastPoint.pressure + (1 - PRESSURE_SMOOTHING) * pressure;
+    }
+
+    return { x: round(x), y: round(y), pressure: round(pressure), time: Math.round(time) };
+  }
+
+  canvas.addEventListener('pointerdown', (e) => {
+    if (!interactive || activePointer !== null || e.button > 0) return;
+    e.preventDefault();
+    activePointer = e.pointerId;
+    canvas.setPointerCapture?.(e.pointerId);
+    canvas.focus({ preventScroll: true });
+
+    strokeStart = e.timeStamp;
+    lastPoint = null;
+    const point = pointFrom(e);
+    lastPoint = point;
+    current = { color: penColor, points: [point] };
+    strokes.push(current);
+    drawStroke(current);
+  });
+
+  canvas.addEventListener('pointermove', (e) => {
+    if (e.pointerId !== activePointer || !current || !ctx) return;
+
+    // Coalesced events give pens and fast touch devices their full sample rate
+    const events = e.getCoalescedEvents?.() ?? [e];
+    for (const sample of events.length > 0 ? events : [e]) {
+      const point = pointFrom(sample);
+      if (lastPoint && point.x === lastPoint.x && point.y === lastPoint.y) continue;
+      current.points.push(point);
+      lastPoint = point;
+    }
+
+    // Only repaint the tail of the stroke for responsiveness
+    const tail = { color: current.color, points: current.points.slice(-3) };
+    const segments = strokeSegments(tail, minWidth, maxWidth);
+    const last = segments[segments.length - 1];
+    if (last) {
+      ctx.strokeStyle = current.color;
+      ctx.lineWidth = last.width;
+      ctx.beginPath();
+      ctx.moveTo(last.from.x, last.from.y);
+      ctx.quadraticCurveTo(last.control.x, last.control.y, last.to.x, last.to.y);
+      ctx.stroke();
+    }
+  });
+
+  const endStroke = (e: PointerEvent) => {
+    if (e.pointerId !== activePointer) return;
+    activePointer = null;
+    current = null;
+    lastPoint = null;
+    // Repaint so the final segments are drawn with their settled widths
+    redraw();
+    emit();
+  };
+  canvas.addEventListener('pointerup', endStroke);
+  canvas.addEventListener('pointercancel', endStroke);
+
+  // Ctrl/Cmd+Z undoes the last stroke while the pad has focus
+  canvas.addEventListener('keydown', (e) => {
+    if (interactive && (e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'z') {
+      e.preventDefault();
+      undo();
+    }
+  });
+
+  pad.appendChild(canvas);
+
+  // ==========================================================================
+  // Controls
+  // ==========================================================================
+
+  function undo() {
+    if (strokes.length === 0) return;
+    strokes.pop();
+    redraw();
+    emit();
+  }
+
+  function clear() {
+    strokes = [];
+    baseImage = null;
+    redraw();
+    emit();
+  }
+
+  const controls = document.createElement('div');
+  controls.className = 'swal-signature__controls';
+
+  const undoBtn = document.createElement('button');
+  undoBtn.type = 'button';
+  undoBtn.className = 'swal-signature__undo';
+  undoBtn.textContent = 'Undo';
+  undoBtn.addEventListener('click', undo);
+
+  const clearBtn = document.createElement('button');
+  clearBtn.type = 'button';
+  clearBtn.className = 'swal-signature__clear';
+  clearBtn.textContent = 'Clear';
+  clearBtn.addEventListener('click', clear);
+
+  function updateControls() {
+    undoBtn.disabled = !interactive || strokes.length === 0;
+    clearBtn.disabled = !interactive || isEmpty();
+  }
+
+  if (config.undoable !== false) controls.appendChild(undoBtn);
+  if (config.clearable !== false) controls.appendChild(clearBtn);
+  if (controls.childElementCount > 0) pad.appendChild(controls);
+
+  wrapper.appendChild(pad);
+
+  // ==========================================================================
+  // Rehydration
+  // ==========================================================================
+
+  // Image values (PNG data URLs or SVG markup) become a non-undoable base layer
+  if (typeof value === 'string' && !parseStrokes(value) && value) {
+    const src = value.trim().startsWith('<svg')
+      ? `data:image/svg+xml;charset=utf-8,${encodeURIComponent(value)}`
+      : value;
+    if (src.startsWith('data:image/')) {
+      const img = new Image();
+      img.onload = () => {
+        baseImage = img;
+        redraw();
+        pad.classList.remove('swal-signature--empty');
+      };
+      img.src = src;
+    }
+  }
+
+  redraw();
+  pad.classList.toggle('swal-signature--empty', isEmpty());
+
+  const hint = createHint(field);
+  if (hint) {
+    canvas.setAttribute('aria-describedby', hint.id);
+    wrapper.appendChild(hint);
+  }
+  const errorEl = createError(error);
+  if (errorEl) wrapper.appendChild(errorEl);
+
+  return wrapper;
+};
@@ -3,9 +3,23 @@
  * Renders complete forms from schema definitions
  */
 
-import type { FormSchema, FormField, ModalOptions } from '../core/types';
+import type { FormSchema, FormField, FormRule, ModalOptions, SelectOption, ArrayFieldConfig } from '../core/types';
 import { getFieldRenderer, registerFieldRenderer } from './field-renderers';
-import { validateField, validateForm } from './validation';
+import { validateFieldMessages, validateForm, createDebouncedValidator, runFormRule, isPathValidated } from './validation';
+import type { FormValidationResult } from './validation';
+import {
+  assertNoDependencyCycles,
+  sortComputedFields,
+  getValueDependencies,
+  resolveFieldState,
+  isFieldVisible,
+} from './dependencies';
+import { createArrayDefault, pickItemErrors } from './fields/array';
+import { getPath, setPath, deletePath, pathsOverlap, cloneData } from './paths';
+import { createDraftAutosave, formatDraftAge, DraftAutosave } from './persistence';
+
+/** Change validation delay for fields with a `unique` rule, so each keystroke is not checked */
+const UNIQUE_DEBOUNCE = 300;
 
 // ============================================================================
 // Form State Management
@@ -14,6 +28,10 @@ import { validateField, validateForm } from './validation';
 export interface FormState {
   data: Record<string, any>;
   errors: Record<string, string>;
+  /** Failed warning rules, which do not block submission */
+  warnings: Record<string, string>;
+  /** Failed info rules */
+  info: Record<string, string>;
   touched: Set<string>;
   dirty: boolean;
   valid: boolean;
@@ -23,12 +41,21 @@ export interface FormState {
 export interface FormController {
   getState(): FormState;
   getData(): Record<string, any>;
+  /** Replace values programmatically; unlike user edits this leaves the form clean */
   setData(data: Record<string, any>): void;
   setFieldValue(name: string, value: any): void;
   getFieldValue(name: string): any;
-  validate(): Promise<{ valid: boolean; errors: Record<string, string> }>;
+  validate(): Promise<FormValidationResult>;
   validateField(name: string): Promise<string | null>;
+  /** Show errors (e.g. from a server), including `items[0].name` keys for array fields */
+  setErrors(errors: Record<string, string>): void;
+  /** Show an error banner above the fields, or remove it with null */
+  setFormError(message: string | null): void;
+  /** Mark the form as busy while it is being submitted */
+  setSubmitting(submitting: boolean): void;
   reset(): void;
+  /** Delete the saved draft of a `persist` form, e.g. after a successful submit */
+  clearDraft(): Promise<void>;
   destroy(): void;
 }
 
@@ -43,11 +70,15 @@ export function renderForm(
     initialData?: Record<string, any>;
     onChange?: (data: Record<string, any>) => void;
     onValidate?: (valid: boolean, errors: Record<string, string>) => void;
+    /** Prefix for rendered field names and ids, keeping repeated sub-forms unique */
+    namePrefix?: string;
   }
 ): FormController {
   const state: FormState = {
-    data: { ...options?.initialData },
+    data: createInitialData(schema.fields, options?.initialData),
     errors: {},
+    warnings: {},
+    info: {},
     touched: new Set(),
     dirty: false,
     valid: true,
@@ -57,12 +88,31 @@ export function renderForm(
   const fieldElements = new Map<string, HTMLElement>();
   const cleanupFunctions: (() => void)[] = [];
 
-  // Initialize default values
-  for (const field of schema.fields) {
-    if (field.name && field.defaultValue !== undefined && state.data[field.name] === undefined) {
-      state.data[field.name] = field.defaultValue;
-    }
-  }
+  // Dependency state
+  assertNoDependencyCycles(schema.fields);
+  const computedFields = sortComputedFields(schema.fields);
+  const runtimeOptions = new Map<string, SelectOption[]>();
+  const optionLoads = new Map<string, AbortController>();
+  const renderedStates = new Map<string, string>();
+
+  // Draft state
+  const draft = schema.persist ? createDraftAutosave(schema.persist, schema.fields) : null;
+  let draftBanner: HTMLElement | null = null;
+  let formError: HTMLElement | null = null;
+  let destroyed = false;
+  const flushDraft = () => draft?.flush();
+
+  // Validation state: a counter per field discards results of superseded validations
+  const validationRuns = new Map<string, number>();
+  const debouncedValidators = new Map<string, ReturnType<typeof createDebouncedValidator>>();
+
+  // Cross-field rules: each rule's latest errors, and the rule errors currently shown
+  const formRules = schema.validation?.rules ?? [];
+  const ruleResults = new Map<FormRule, Record<string, string>>();
+  const ruleRuns = new Map<FormRule, number>();
+  let shownRuleErrors: Record<string, string> = {};
+
+  runComputed();
 
   // Create form element
   const form = document.createElement('div');
@@ -136,7 +186,7 @@ export function renderForm(
     // Render fields directly
     for (const field of schema.fields) {
       // Check conditional visibility
-      if (field.showWhen && !field.showWhen(state.data)) {
+      if (!isFieldVisible(field, state.data)) {
         continue;
       }
 
@@ -149,6 +199,23 @@ export function renderForm(
   }
 
   container.appendChild(form);
+  reloadDependentOptions();
+
+  if (draft) {
+    window.addEventListener('pagehide', flushDraft);
+    restoreDraft(draft);
+  }
+
+  // Field config with loaded options and enableWhen/requiredWhen applied
+  function effectiveField(field: FormField): FormField {
+    const options = runtimeOptions.get(field.name);
+    const withOptions = options ? ({ ...field, options } as FormField) : field;
+    return resolveFieldState(withOptions, state.data);
+  }
+
+  function fieldStateKey(field: FormField): string {
+    return `${!!field.disabled}|${!!field.required}`;
+  }
 
   // Field rendering helper
   function renderField(field: FormField): HTMLElement | null {
@@ -158,11 +225,13 @@ export function renderForm(
       return null;
     }
 
-    const value = state.data[field.name];
+    const value = getPath(state.data, field.name);
     const error = state.errors[field.name];
+    const effective = effectiveField(field);
+    renderedStates.set(field.name, fieldStateKey(effective));
 
     const element = renderer(
-      field,
+      options?.namePrefix ? ({ ...effective, name: `${options.namePrefix}${field.name}` } as FormField) : effective,
       value,
       (newValue) => handleFieldChange(field, newValue),
       error
@@ -173,30 +242,99 @@ export function renderForm(
       cleanupFunctions.push((element as any).__cleanup);
     }
 
+    updateFieldNotice(field.name, element);
     return element;
   }
 
+  // Offer to restore a draft saved by an earlier session of this form
+  async function restoreDraft(autosave: DraftAutosave): Promise<void> {
+    const saved = await autosave.load();
+    // Once the user has started typing, their new input takes precedence
+    if (!saved || destroyed || state.dirty) return;
+
+    if (schema.persist?.restore === 'auto') {
+      applyDraft(saved.data);
+      return;
+    }
+
+    draftBanner = document.createElement('div');
+    draftBanner.className = 'swal-form__draft';
+    draftBanner.setAttribute('role', 'status');
+
+    const text = document.createElement('span');
+    text.className = 'swal-form__draft-text';
+    text.textContent = `You have an unsaved draft from ${formatDraftAge(saved.savedAt)}.`;
+
+    const restoreBtn = document.createElement('button');
+    restoreBtn.type = 'button';
+    restoreBtn.className = 'swal-form__draft-restore';
+    restoreBtn.textContent = 'Restore';
+    restoreBtn.addEventListener('click', () => {
+      dismissDraftBanner();
+      applyDraft(saved.data);
+    });
+
+    const discardBtn = document.createElement('button');
+    discardBtn.type = 'button';
+    discardBtn.className = 'swal-form__draft-discard';
+    discardBtn.textContent = 'Discard';
+    discardBtn.addEventListener('click', () => {
+      dismissDraftBanner();
+      autosave.clear();
+    });
+
+    draftBanner.appendChild(text);
+    draftBanner.appendChild(restoreBtn);
+    draftBanner.appendChild(discardBtn);
+    form.prepend(draftBanner);
+  }
+
+  // A restored draft holds unsaved input, unlike data set by the app
+  function applyDraft(data: Record<string, any>): void {
+    controller.setData(data);
+    state.dirty = true;
+  }
+
+  function dismissDraftBanner(): void {
+    draftBanner?.remove();
+    draftBanner = null;
+  }
+
   // Handle field value changes
   async function handleFieldChange(field: FormField, value: any): Promise<void> {
-    state.data[field.name] = value;
+    setPath(state.data, field.name, value);
     state.dirty = true;
     state.touched.add(field.name);
+    dismissDraftBanner();
+    draft?.save(state.data);
 
     // Validate on change if configured
     if (schema.validation?.validateOnSubmit !== true) {
-      const error = await validateField(value, field, state.data);
-      if (error) {
-        state.errors[field.name] = error;
+      const delay = field.validation?.debounce
+        ?? (field.validation?.rules?.some(rule => rule.type === 'unique') ? UNIQUE_DEBOUNCE : 0);
+
+      if (delay > 0) {
+        supersedeValidation(field.name);
+        let debounced = debouncedValidators.get(field.name);
+        if (!debounced) {
+          debounced = createDebouncedValidator(async () => {
+            await revalidateField(field);
+            options?.onValidate?.(state.valid, state.errors);
+          }, delay);
+          debouncedValidators.set(field.name, debounced);
+        }
+        debounced.validate();
       } else {
-        delete state.errors[field.name];
+        await revalidateField(field);
       }
-
-      // Update field error display
-      updateFieldError(field.name, error);
     }
 
-    // Re-render conditional fields
-    updateConditionalFields();
+    // Propagate to dependent fields
+    applyDependencies([field.name]);
+
+    if (schema.validation?.validateOnSubmit !== true) {
+      await revalidateRules([field.name]);
+    }
 
     // Notify change
     options?.onChange?.(state.data);
@@ -206,6 +344,95 @@ export function renderForm(
     options?.onValidate?.(state.valid, state.errors);
   }
 
+  /** Start a new validation run for a field, making any running one stale */
+  function supersedeValidation(name: string): number {
+    const run = (validationRuns.get(name) ?? 0) + 1;
+    validationRuns.set(name, run);
+    return run;
+  }
+
+  function cancelPendingValidation(): void {
+    for (const debounced of debouncedValidators.values()) debounced.cancel();
+    for (const name of validationRuns.keys()) supersedeValidation(name);
+    for (const rule of formRules) ruleRuns.set(rule, (ruleRuns.get(rule) ?? 0) + 1);
+  }
+
+  /** Validate a field's current value and show the result, unless a newer run started meanwhile */
+  async function revalidateField(field: FormField): Promise<string | null> {
+    const run = supersedeValidation(field.name);
+    const messages = await validateFieldMessages(getPath(state.data, field.name), effectiveField(field), state.data);
+    // A cross-field rule's error shows once the field's own rules pass
+    const error = messages.error ?? shownRuleErrors[field.name] ?? null;
+    if (validationRuns.get(field.name) !== run || destroyed) return error;
+
+    if (error) {
+      state.errors[field.name] = error;
+    } else {
+      delete state.errors[field.name];
+    }
+    setFieldMessage(state.warnings, field.name, messages.warning);
+    setFieldMessage(state.info, field.name, messages.info);
+
+    // Update field error display
+    updateFieldError(field.name, error);
+    state.valid = Object.keys(state.errors).length === 0;
+    return error;
+  }
+
+  /** Re-run the cross-field rules that read changed fields and update the errors they show */
+  async function revalidateRules(changed: string[]): Promise<void> {
+    const affected = formRules.filter(rule =>
+      !rule.dependsOn || rule.dependsOn.some(dep => changed.some(name => pathsOverlap(dep, name))));
+    if (affected.length === 0) return;
+
+    await Promise.all(affected.map(async (rule) => {
+      const run = (ruleRuns.get(rule) ?? 0) + 1;
+      ruleRuns.set(rule, run);
+      const errors = await runFormRule(rule, state.data);
+      if (ruleRuns.get(rule) === run) ruleResults.set(rule, errors);
+    }));
+    if (destroyed) return;
+
+    // New failures appear only on touched fields; errors already shown stay up to date
+    const touched = (path: string) => [...state.touched].some(name => pathsOverlap(name, path));
+    showRuleErrors(collectRuleErrors(path => path in shownRuleErrors || (!!path && touched(path))));
+  }
+
+  /** Combine the rules' errors, the first rule winning, for validated paths passing `include` */
+  function collectRuleErrors(include: (path: string) => boolean = () => true): Record<string, string> {
+    const errors: Record<string, string> = {};
+    for (const rule of formRules) {
+      for (const [path, message] of Object.entries(ruleResults.get(rule) ?? {})) {
+        if (!(path in errors) && include(path) && isPathValidated(path, schema.fields, state.data)) {
+          errors[path] = message;
+        }
+      }
+    }
+    return errors;
+  }
+
+  /** Replace the rule errors on display, leaving errors from fields' own rules in place */
+  function showRuleErrors(next: Record<string, string>): void {
+    for (const path of new Set([...Object.keys(shownRuleErrors), ...Object.keys(next)])) {
+      const current = state.errors[path];
+      if (current && current !== shownRuleErrors[path]) continue;
+
+      const error = next[path] ?? null;
+      if (error) {
+        state.errors[path] = error;
+      } else {
+        delete state.errors[path];
+      }
+      if (path) {
+        updateFieldError(path, error);
+      } else {
+        controller.setFormError(error);
+      }
+    }
+    shownRuleErrors = next;
+    state.valid = Object.keys(state.errors).length === 0;
+  }
+
   // Update field error display
   function updateFieldError(fieldName: string, error: string | null): void {
     const fieldEl = fieldElements.get(fieldName);
@@ -213,8 +440,8 @@ export function renderForm(
 
     fieldEl.classList.toggle('swal-field--error', !!error);
 
-    // Update or create error element
-    let errorEl = fieldEl.querySelector('.swal-field__error') as HTMLElement;
+    // Update or create error element (not one inside a nested item)
+    let errorEl = fieldEl.querySelector(':scope > .swal-field__error') as HTMLElement;
     if (error) {
       if (!errorEl) {
         errorEl = document.createElement('div');
@@ -226,6 +453,182 @@ export function renderForm(
     } else if (errorEl) {
       errorEl.remove();
     }
+
+    updateFieldNotice(fieldName, fieldEl);
+  }
+
+  function setFieldMessage(messages: Record<string, string>, fieldName: string, message: string | null): void {
+    if (message) {
+      messages[fieldName] = message;
+    } else {
+      delete messages[fieldName];
+    }
+  }
+
+  // Show a field's warning, or else its info message, while it has no error
+  function updateFieldNotice(fieldName: string, fieldEl = fieldElements.get(fieldName)): void {
+    if (!fieldEl) return;
+
+    const hasError = fieldEl.classList.contains('swal-field--error');
+    const warning = hasError ? null : state.warnings[fieldName] ?? null;
+    const info = hasError || warning ? null : state.info[fieldName] ?? null;
+    fieldEl.classList.toggle('swal-field--warning', !!warning);
+    fieldEl.classList.toggle('swal-field--info', !!info);
+
+    const id = `swal-field-${options?.namePrefix ?? ''}${fieldName}-notice`;
+    const control = fieldEl.querySelector('input, textarea, select');
+    const describedBy = (control?.getAttribute('aria-describedby') ?? '').split(' ').filter(ref => ref && ref !== id);
+    let noticeEl = fieldEl.querySelector(':scope > .swal-field__notice') as HTMLElement;
+
+    const message = warning ?? info;
+    if (message) {
+      if (!noticeEl) {
+        noticeEl = document.createElement('div');
+        noticeEl.id = id;
+        noticeEl.setAttribute('role', 'status');
+        fieldEl.appendChild(noticeEl);
+      }
+      noticeEl.className = `swal-field__notice swal-field__notice--${warning ? 'warning' : 'info'}`;
+      noticeEl.textContent = message;
+      describedBy.push(id);
+    } else if (noticeEl) {
+      noticeEl.remove();
+    }
+
+    if (describedBy.length > 0) {
+      control?.setAttribute('aria-describedby', describedBy.join(' '));
+    } else {
+      control?.removeAttribute('aria-describedby');
+    }
+  }
+
+  // Show errors on every field, forwarding item errors to array fields
+  function showErrors(errors: Record<string, string>): void {
+    for (const field of schema.fields) {
+      if (!field.name) continue;
+      updateFieldError(field.name, errors[field.name] || null);
+
+      const setItemErrors = (fieldElements.get(field.name) as any)?.__setErrors;
+      if (setItemErrors) setItemErrors(pickItemErrors(errors, field.name));
+    }
+  }
+
+  // Replace a rendered field with a fresh render of its current state
+  function rerenderField(field: FormField): void {
+    const element = fieldElements.get(field.name);
+    if (!element) return;
+
+    const newElement = renderField(field);
+    if (newElement) {
+      element.replaceWith(newElement);
+      fieldElements.set(field.name, newElement);
+    }
+  }
+
+  // Whether a field's declared dependencies include any changed field
+  function isAffected(field: FormField, changed?: string[]): boolean {
+    if (!changed) return true;
+    const deps = getValueDependencies(field);
+    return deps === null || deps.some(dep => changed.some(name => pathsOverlap(dep, name)));
+  }
+
+  // Propagate changes to computed values, visibility, dependent options and field states
+  function applyDependencies(changed?: string[]): void {
+    const affected = runComputed(changed);
+    updateConditionalFields();
+    reloadDependentOptions(affected);
+    updateFieldStates();
+  }
+
+  // Recompute derived values in dependency order
+  function runComputed(changed?: string[]): string[] | undefined {
+    const affected = changed ? [...changed] : undefined;
+
+    for (const field of computedFields) {
+      if (!isAffected(field, affected)) continue;
+
+      let value: any;
+      try {
+        value = field.compute!(state.data);
+      } catch (error) {
+        console.error(`[SweetAlert++] compute() for field "${field.name}" threw:`, error);
+        continue;
+      }
+
+      if (value !== getPath(state.data, field.name)) {
+        setPath(state.data, field.name, value);
+        affected?.push(field.name);
+        rerenderField(field);
+      }
+    }
+
+    return affected;
+  }
+
+  // Reload option lists that depend on changed fields
+  function reloadDependentOptions(changed?: string[]): void {
+    for (const field of schema.fields) {
+      const config = field.dependentOptions;
+      if (!config) continue;
+      if (changed && !config.dependsOn.some(dep => changed.some(name => pathsOverlap(dep, name)))) continue;
+
+      // Cancel a load still in flight for stale data
+      optionLoads.get(field.name)?.abort();
+      const controller = new AbortController();
+      optionLoads.set(field.name, controller);
+      fieldElements.get(field.name)?.classList.add('swal-field--loading');
+
+      Promise.resolve()
+        .then(() => config.load({ ...state.data }, controller.signal))
+        .then((loaded) => {
+          if (controller.signal.aborted) return;
+          runtimeOptions.set(field.name, loaded);
+
+          // Drop selections that are no longer offered
+          const current = getPath(state.data, field.name);
+          if (!config.keepValue && current !== undefined && current !== null && current !== '') {
+            const allowed = new Set(loaded.map(o => o.value));
+            const next = Array.isArray(current) ? current.filter(v => allowed.has(v)) : (allowed.has(current) ? current : undefined);
+            if (Array.isArray(next) ? next.length !== current.length : next !== current) {
+              if (next === undefined) deletePath(state.data, field.name);
+              else setPath(state.data, field.name, next);
+              applyDependencies([field.name]);
+              options?.onChange?.(state.data);
+            }
+          }
+
+          rerenderField(field);
+        })
+        .catch((error) => {
+          if (controller.signal.aborted) return;
+          console.error(`[SweetAlert++] Failed to load options for field "${field.name}":`, error);
+        })
+        .finally(() => {
+          if (optionLoads.get(field.name) === controller) {
+            optionLoads.delete(field.name);
+            fieldElements.get(field.name)?.classList.remove('swal-field--loading');
+          }
+        });
+    }
+  }
+
+  // Re-render fields whose enableWhen/requiredWhen outcome changed
+  function updateFieldStates(): void {
+    for (const field of schema.fields) {
+      if (!field.enableWhen && !field.requiredWhen) continue;
+      if (!fieldElements.has(field.name)) continue;
+
+      const key = fieldStateKey(effectiveField(field));
+      if (renderedStates.get(field.name) !== key) {
+        // A field that became disabled no longer reports errors
+        if (key.startsWith('true')) {
+          delete state.errors[field.name];
+          delete state.warnings[field.name];
+          delete state.info[field.name];
+        }
+        rerenderField(field);
+      }
+    }
   }
 
   // Update conditional field visibility
@@ -233,7 +636,7 @@ export function renderForm(
     for (const field of schema.fields) {
       if (!field.showWhen) continue;
 
-      const shouldShow = field.showWhen(state.data);
+      const shouldShow = isFieldVisible(field, state.data);
       const existingEl = fieldElements.get(field.name);
 
       if (shouldShow && !existingEl) {
@@ -265,8 +668,10 @@ export function renderForm(
         // Remove field
         existingEl.remove();
         fieldElements.delete(field.name);
-        delete state.data[field.name];
+        deletePath(state.data, field.name);
         delete state.errors[field.name];
+        delete state.warnings[field.name];
+        delete state.info[field.name];
       }
     }
   }
@@ -275,11 +680,13 @@ export function renderForm(
   const controller: FormController = {
     getState: () => ({ ...state }),
 
-    getData: () => ({ ...state.data }),
+    getData: () => cloneData(state.data),
 
     setData: (data) => {
-      Object.assign(state.data, data);
-      state.dirty = true;
+      // Keys may be paths such as `address.city`
+      for (const [key, value] of Object.entries(data)) {
+        setPath(state.data, key, cloneData(value));
+      }
 
       // Re-render all fields
       for (const [name, element] of fieldElements) {
@@ -293,7 +700,8 @@ export function renderForm(
         }
       }
 
-      updateConditionalFields();
+      applyDependencies(Object.keys(data));
+      draft?.save(state.data);
       options?.onChange?.(state.data);
     },
 
@@ -301,30 +709,66 @@ export function renderForm(
       const field = schema.fields.find(f => f.name === name);
       if (field) {
         handleFieldChange(field, value);
+        return;
+      }
+
+      // A path inside a field's value, e.g. `items[0].qty` of the `items` array field
+      const owner = schema.fields.find(f => f.name && name.startsWith(f.name) && pathsOverlap(f.name, name));
+      if (owner) {
+        const rest = name.slice(owner.name.length).replace(/^\./, '');
+        const ownerValue = cloneData(getPath(state.data, owner.name)) ?? (rest.startsWith('[') ? [] : {});
+        setPath(ownerValue, rest, value);
+        handleFieldChange(owner, ownerValue);
+        rerenderField(owner);
+      } else {
+        setPath(state.data, name, value);
+        options?.onChange?.(state.data);
       }
     },
 
-    getFieldValue: (name) => state.data[name],
+    getFieldValue: (name) => cloneData(getPath(state.data, name)),
 
     validate: async () => {
+      cancelPendingValidation();
       const result = await validateForm(state.data, schema.fields, {
         stopOnFirstError: schema.validation?.stopOnFirstError,
+        schema: schema.validation?.schema,
       });
 
+      // Cross-field rules fill in paths without an error
+      if (result.valid || !schema.validation?.stopOnFirstError) {
+        for (const rule of formRules) {
+          ruleResults.set(rule, await runFormRule(rule, state.data));
+        }
+        shownRuleErrors = collectRuleErrors();
+        for (const [path, message] of Object.entries(shownRuleErrors)) {
+          if (result.errors[path]) continue;
+          result.errors[path] = message;
+          result.valid = false;
+        }
+      }
+
       state.errors = result.errors;
+      state.warnings = result.warnings;
+      state.info = result.info;
       state.valid = result.valid;
 
       // Update all field errors
-      for (const field of schema.fields) {
-        if (field.name) {
-          updateFieldError(field.name, result.errors[field.name] || null);
-        }
-      }
+      showErrors(result.errors);
+
+      // Schema issues no field shows, such as those without a path, go above the form
+      const unshown = Object.entries(result.errors)
+        .find(([path]) => !path || !schema.fields.some(f => f.name && pathsOverlap(f.name, path)));
+      controller.setFormError(unshown ? unshown[1] : null);
 
       // Scroll to first error if configured
       if (!result.valid && schema.validation?.scrollToError) {
-        const firstErrorField = Object.keys(result.errors)[0];
-        const errorEl = fieldElements.get(firstErrorField);
+        const firstErrorField = Object.keys(result.errors)[0].split('[')[0];
+        const fieldEl = fieldElements.get(firstErrorField);
+        // Item errors live in a nested field of an array item
+        const errorEl = fieldEl?.classList.contains('swal-field--error')
+          ? fieldEl
+          : fieldEl?.querySelector<HTMLElement>('.swal-field--error') ?? fieldEl;
         if (errorEl) {
           errorEl.scrollIntoView({ behavior: 'smooth', block: 'center' });
           const input = errorEl.querySelector('input, textarea, select') as HTMLElement;
@@ -340,24 +784,43 @@ export function renderForm(
       const field = schema.fields.find(f => f.name === name);
       if (!field) return null;
 
-      const value = state.data[name];
-      const error = await validateField(value, field, state.data);
-
-      if (error) {
-        state.errors[name] = error;
-      } else {
-        delete state.errors[name];
-      }
+      debouncedValidators.get(name)?.cancel();
+      return revalidateField(field);
+    },
 
-      updateFieldError(name, error);
+    setErrors: (errors) => {
+      state.errors = { ...errors };
       state.valid = Object.keys(state.errors).length === 0;
+      showErrors(state.errors);
+      options?.onValidate?.(state.valid, state.errors);
+    },
 
-      return error;
+    setFormError: (message) => {
+      formError?.remove();
+      formError = null;
+      if (!message) return;
+
+      formError = document.createElement('div');
+      formError.className = 'swal-form__error';
+      formError.setAttribute('role', 'alert');
+      formError.textContent = message;
+      form.prepend(formError);
+    },
+
+    setSubmitting: (submitting) => {
+      state.submitting = submitting;
+      form.classList.toggle('swal-form--submitting', submitting);
+      form.setAttribute('aria-busy', String(submitting));
     },
 
     reset: () => {
-      state.data = { ...options?.initialData };
+      cancelPendingValidation();
+      ruleResults.clear();
+      shownRuleErrors = {};
+      state.data = createInitialData(schema.fields, options?.initialData);
       state.errors = {};
+      state.warnings = {};
+      state.info = {};
       state.touched.clear();
       state.dirty = false;
       state.valid = true;
@@ -374,11 +837,34 @@ export function renderForm(
         }
       }
 
-      updateConditionalFields();
+      applyDependencies();
+      dismissDraftBanner();
+      controller.setFormError(null);
+      draft?.clear();
       options?.onChange?.(state.data);
     },
 
+    clearDraft: async () => {
+      dismissDraftBanner();
+      await draft?.clear();
+    },
+
     destroy: () => {
+      destroyed = true;
+      cancelPendingValidation();
+
+      // Save the latest changes, so a dismissed form can be restored
+      if (draft) {
+        draft.flush();
+        window.removeEventListener('pagehide', flushDraft);
+      }
+
+      // Cancel pending option loads
+      for (const load of optionLoads.values()) {
+        load.abort();
+      }
+      optionLoads.clear();
+
       // Run cleanup functions
       for (const cleanup of cleanupFunctions) {
         cleanup();
@@ -393,6 +879,22 @@ export function renderForm(
   return controller;
 }
 
+/**
+ * A deep copy of the initial data with field and array defaults filled in
+ */
+function createInitialData(fields: FormField[], initialData?: Record<string, any>): Record<string, any> {
+  const data = cloneData({ ...initialData });
+  for (const field of fields) {
+    if (field.name && field.defaultValue !== undefined && getPath(data, field.name) === undefined) {
+      setPath(data, field.name, cloneData(field.defaultValue));
+    }
+    if (field.type === 'array' && getPath(data, field.name) === undefined) {
+      setPath(data, field.name, createArrayDefault(field as ArrayFieldConfig));
+    }
+  }
+  return data;
+}
+
 // ============================================================================
 // Quick Form Builder
 // ============================================================================
@@ -505,7 +1007,8 @@ export const formPresets = {
         type: 'text',
         label: 'Card Number',
         required: true,
-        mask: '9999 9999 9999 9999',
+        // American Express numbers are grouped 4-6-5
+        mask: { pattern: raw => /^3[47]/.test(raw) ? '9999 999999 99999' : '9999 9999 9999 9999' },
         validation: { rules: [{ type: 'creditCard' }] },
       },
       { name: 'expiry', type: 'text', label: 'Expiry Date', required: true, mask: '99/99' },
@@ -5,16 +5,26 @@
 
 export {
   validateField,
+  validateFieldMessages,
   validateForm,
   registerValidator,
   unregisterValidator,
-  applyMask,
-  unmask,
-  createMaskedInput,
+  hasValidator,
   createDebouncedValidator,
+  validateWithSchema,
 } from './validation';
 
-export type { MaskOptions } from './validation';
+export type { FieldMessages, FormValidationResult } from './validation';
+
+export { schema } from './schema-builder';
+
+export type { SchemaType, StringSchema, NumberSchema, ArraySchema, Infer } from './schema-builder';
+
+export { formatMessage, translateMessage, registerMessages } from './messages';
+
+export { applyMask, unmask, createMaskedInput } from './mask';
+
+export type { MaskOptions, MaskedValue, MaskedInput } from './mask';
 
 export {
   renderForm,
@@ -25,7 +35,40 @@ export {
 
 export type { FormState, FormController } from './form-renderer';
 
+export {
+  evaluateCondition,
+  getValueDependencies,
+  findDependencyCycle,
+  resolveFieldState,
+  isFieldVisible,
+  registerCondition,
+  unregisterCondition,
+  hasCondition,
+} from './dependencies';
+
+export { getPath, setPath, deletePath, parsePath, formatPath } from './paths';
+export type { PathSegment } from './paths';
+
+export { loadSchema, serializeSchema, formSchemaJSONSchema } from './schema-json';
+export type { SerializedSchema, SchemaSerializationIssue } from './schema-json';
+
+export { createIndexedDBStorage, clearFormDraft } from './persistence';
+export type { Draft, DraftAutosave } from './persistence';
+
+export { parseMarkdown } from './markdown-parser';
+
+export { tokenize, highlight, registerGrammar, unregisterGrammar, hasGrammar } from './code-highlight';
+export type { Grammar, TokenRule, Token } from './code-highlight';
+
 export {
   getFieldRenderer,
   builtInRenderers,
 } from './field-renderers';
+
+export { isSignatureEmpty, signatureToSVG } from './fields/signature';
+export type { SignatureExportOptions } from './fields/signature';
+
+export { readImageDimensions } from './fields/image-upload';
+
+export { createCalendar, formatDate, parseDate } from './fields/calendar';
+export type { Calendar, CalendarOptions, CalendarMode, DateRangeValue } from './fields/calendar';
@@ -0,0 +1,265 @@
+/**
+ * Markdown Parser
+ * A small CommonMark subset: headings, emphasis, lists, code, links, quotes and tables.
+ * Output is not sanitized; pass it through sanitize() before inserting it into the page.
+ */
+
+import { escapeHtml } from '../core/sanitizer';
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([\w+#.-]*)/;
+const HEADING = /^ {0,3}(#{1,6})(?:\s+(.*?))?(?:\s+#+)?\s*$/;
+const RULE = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const QUOTE = /^ {0,3}> ?/;
+const LIST_ITEM = /^( *)([-*+]|\d{1,9}[.)])(?:\s+(.*))?$/;
+const SETEXT = /^ {0,3}(=+|-+)\s*$/;
+const TABLE_DELIMITER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+/**
+ * Convert Markdown to HTML
+ */
+export function parseMarkdown(markdown: string): string {
+  const lines = markdown.replace(/\r\n?/g, '\n').replace(/\t/g, '    ').split('\n');
+  return parseBlocks(lines).join('\n');
+}
+
+// ============================================================================
+// Blocks
+// ============================================================================
+
+function indentOf(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+/** Whether a line starts a block that ends the paragraph before it */
+function startsBlock(line: string): boolean {
+  return FENCE.test(line) || HEADING.test(line) || RULE.test(line) || QUOTE.test(line) || LIST_ITEM.test(line);
+}
+
+function parseBlocks(lines: string[]): string[] {
+  const out: string[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    // Fenced code block
+    const fence = line.match(FENCE);
+    if (fence) {
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !(lines[i].trim().startsWith(fence[1]) && /^[`~]+$/.test(lines[i].trim()))) {
+        body.push(lines[i++]);
+      }
+      i++;
+      const lang = fence[2] ? ` class="language-${escapeHtml(fence[2])}"` : '';
+      out.push(`<pre><code${lang}>${escapeHtml(body.join('\n'))}</code></pre>`);
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      const level = heading[1].length;
+      out.push(`<h${level}>${parseInline(heading[2] ?? '')}</h${level}>`);
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      out.push('<hr>');
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const inner: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) {
+        inner.push(lines[i++].replace(QUOTE, ''));
+      }
+      out.push(`<blockquote>\n${parseBlocks(inner).join('\n')}\n</blockquote>`);
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      const [html, next] = parseList(lines, i);
+      out.push(html);
+      i = next;
+      continue;
+    }
+
+    if (line.includes('|') && TABLE_DELIMITER.test(lines[i + 1] ?? '')) {
+      const [html, next] = parseTable(lines, i);
+      out.push(html);
+      i = next;
+      continue;
+    }
+
+    // Paragraph, which a following === or --- line turns into a heading
+    const paragraph: string[] = [];
+    while (i < lines.length && lines[i].trim() && (paragraph.length === 0 || !startsBlock(lines[i]))) {
+      const setext = lines[i].match(SETEXT);
+      if (setext && paragraph.length > 0) {
+        const level = setext[1][0] === '=' ? 1 : 2;
+        out.push(`<h${level}>${parseInline(paragraph.join('\n').trim())}</h${level}>`);
+        paragraph.length = 0;
+        i++;
+        break;
+      }
+      // Trailing spaces are kept for hard line breaks
+      paragraph.push(lines[i++].trimStart());
+    }
+    if (paragraph.length > 0) {
+      out.push(`<p>${parseInline(paragraph.join('\n').trimEnd())}</p>`);
+    }
+  }
+
+  return out;
+}
+
+function parseList(lines: string[], start: number): [string, number] {
+  const first = lines[start].match(LIST_ITEM)!;
+  const indent = first[1].length;
+  const ordered = /\d/.test(first[2]);
+  // Continuation lines are indented to the item's content
+  const contentIndent = indent + first[2].length + 1;
+
+  const items: string[][] = [];
+  let loose = false;
+  let i = start;
+
+  const isSibling = (item: RegExpMatchArray | null | undefined) =>
+    !!item && item[1].length === indent && /\d/.test(item[2]) === ordered;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const item = line.match(LIST_ITEM);
+
+    if (isSibling(item)) {
+      items.push([item![3] ?? '']);
+      i++;
+      continue;
+    }
+
+    if (!line.trim()) {
+      // A blank line continues the list only if more of it follows
+      const next = lines[i + 1];
+      if (next !== undefined && (isSibling(next.match(LIST_ITEM)) || (next.trim() && indentOf(next) > indent))) {
+        items[items.length - 1].push('');
+        loose = true;
+        i++;
+        continue;
+      }
+      break;
+    }
+
+    if (indentOf(line) > indent) {
+      items[items.length - 1].push(line.slice(Math.min(indentOf(line), contentIndent)));
+      i++;
+      continue;
+    }
+
+    // Lazy continuation of the item's paragraph
+    if (startsBlock(line)) break;
+    items[items.length - 1].push(line);
+    i++;
+  }
+
+  const tag = ordered ? 'ol' : 'ul';
+  const startNumber = ordered ? parseInt(first[2], 10) : 1;
+  const startAttr = startNumber !== 1 ? ` start="${startNumber}"` : '';
+
+  const rendered = items.map((itemLines) => {
+    let blocks = parseBlocks(itemLines);
+    // Tight lists put item text straight into the <li>
+    if (!loose) blocks = blocks.map(block => block.replace(/^<p>([\s\S]*)<\/p>$/, '$1'));
+    return `<li>${blocks.join('\n')}</li>`;
+  });
+
+  return [`<${tag}${startAttr}>\n${rendered.join('\n')}\n</${tag}>`, i];
+}
+
+function splitRow(line: string): string[] {
+  const trimmed = line.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '');
+  return trimmed.split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, '|'));
+}
+
+function parseTable(lines: string[], start: number): [string, number] {
+  const header = splitRow(lines[start]);
+  const aligns = splitRow(lines[start + 1]).map((cell) => {
+    if (cell.startsWith(':') && cell.endsWith(':')) return 'center';
+    if (cell.endsWith(':')) return 'right';
+    if (cell.startsWith(':')) return 'left';
+    return null;
+  });
+
+  // Alignment uses classes, since the sanitizer drops style attributes
+  const cell = (tag: string, content: string, index: number) => {
+    const align = aligns[index];
+    const cls = align ? ` class="swal-markdown__cell--${align}"` : '';
+    return `<${tag}${cls}>${parseInline(content)}</${tag}>`;
+  };
+
+  const rows: string[] = [];
+  let i = start + 2;
+  while (i < lines.length && lines[i].trim() && lines[i].includes('|')) {
+    const cells = splitRow(lines[i]);
+    rows.push(`<tr>${header.map((_, index) => cell('td', cells[index] ?? '', index)).join('')}</tr>`);
+    i++;
+  }
+
+  const head = `<thead>\n<tr>${header.map((text, index) => cell('th', text, index)).join('')}</tr>\n</thead>`;
+  const body = rows.length > 0 ? `\n<tbody>\n${rows.join('\n')}\n</tbody>` : '';
+  return [`<table>\n${head}${body}\n</table>`, i];
+}
+
+// ============================================================================
+// Inline
+// ============================================================================
+
+function parseInline(text: string): string {
+  // Finished HTML is parked behind placeholders so later rules leave it alone
+  const stash: string[] = [];
+  const park = (html: string) => `\u0000${stash.push(html) - 1}\u0000`;
+
+  // NUL characters would be taken for placeholders
+  let out = text.replace(/\u0000/g, '')
+    // Code spans
+    .replace(/(`+)([\s\S]*?[^`])\1(?!`)/g, (_, __, code: string) => park(`<code>${escapeHtml(code.trim())}</code>`))
+    // Backslash escapes
+    .replace(/\\([\\`*_{}[\]()#+\-.!|~<>])/g, (_, char: string) => park(escapeHtml(char)));
+
+  out = escapeHtml(out);
+
+  out = out
+    // Images and links
+    .replace(/(!?)\[([^\]]*)\]\(\s*([^\s)]+)(?:\s+&quot;(.*?)&quot;)?\s*\)/g, (_, image: string, label: string, url: string, title?: string) => {
+      const titleAttr = title ? ` title="${title}"` : '';
+      return image
+        ? park(`<img src="${url}" alt="${label}"${titleAttr}>`)
+        : park(`<a href="${url}"${titleAttr}>${parseEmphasis(label)}</a>`);
+    })
+    // Autolinks
+    .replace(/&lt;((?:https?:\/\/|mailto:)[^\s&]+)&gt;/g, (_, url: string) => park(`<a href="${url}">${url}</a>`));
+
+  out = parseEmphasis(out)
+    // Hard line breaks: two trailing spaces or a backslash
+    .replace(/(?: {2,}|\\)\n/g, '<br>\n');
+
+  // Placeholders can nest (a code span inside link text), always pointing to earlier entries
+  const restore = (html: string): string =>
+    html.replace(/\u0000(\d+)\u0000/g, (_, index: string) => restore(stash[Number(index)] ?? ''));
+  return restore(out);
+}
+
+function parseEmphasis(text: string): string {
+  return text
+    .replace(/\*\*(?=\S)([\s\S]*?\S)\*\*/g, '<strong>$1</strong>')
+    .replace(/(^|[^\w])__(?=\S)([\s\S]*?\S)__(?!\w)/g, '$1<strong>$2</strong>')
+    .replace(/\*(?=\S)([\s\S]*?\S)\*/g, '<em>$1</em>')
+    .replace(/(^|[^\w])_(?=\S)([\s\S]*?\S)_(?!\w)/g, '$1<em>$2</em>')
+    .replace(/~~(?=\S)([\s\S]*?\S)~~/g, '<del>$1</del>');
+}
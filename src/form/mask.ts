@@ -0,0 +1,362 @@
+/**
+ * Input Masking
+ * Pattern and number masks for text inputs that keep the caret in place while typing, deleting and pasting
+ */
+
+import type { MaskConfig, MaskPattern, MaskTokenDefinition, NumberMaskOptions } from '../core/types';
+
+export interface MaskOptions {
+  pattern: string;
+  placeholder?: string;
+}
+
+export interface MaskedValue {
+  /** Text shown in the input */
+  masked: string;
+  /** Typed characters without literals or placeholders; a plain number string for number masks */
+  raw: string;
+}
+
+export interface MaskedInput {
+  /** Current masked and raw value */
+  getValue: () => MaskedValue;
+  destroy: () => void;
+}
+
+interface Slot {
+  token?: MaskTokenDefinition;
+  literal?: string;
+  optional: boolean;
+}
+
+interface Formatted extends MaskedValue {
+  /** Input position before each typed character, used to put the caret back */
+  positions: number[];
+}
+
+interface MaskEngine {
+  /** Typed characters in displayed, typed or pasted text; `context` is the full value that picks a dynamic pattern */
+  extract: (text: string, context?: string) => string;
+  /** Format typed characters as returned by extract() */
+  format: (chars: string) => Formatted;
+}
+
+const DEFAULT_TOKENS: Record<string, MaskTokenDefinition> = {
+  '9': { pattern: /[0-9]/ },
+  'a': { pattern: /[a-zA-Z]/ },
+  'A': { pattern: /[a-zA-Z]/, transform: 'upper' },
+  '*': { pattern: /[a-zA-Z0-9]/ },
+};
+
+// ============================================================================
+// Pattern Masks
+// ============================================================================
+
+function resolveTokens(custom: MaskConfig['tokens'] = {}): Record<string, MaskTokenDefinition> {
+  const tokens = { ...DEFAULT_TOKENS };
+  for (const [char, definition] of Object.entries(custom)) {
+    const token = definition instanceof RegExp ? { pattern: definition } : definition;
+    // A global or sticky pattern would make test() skip every other character
+    const flags = token.pattern.flags.replace(/[gy]/g, '');
+    tokens[char] = { ...token, pattern: new RegExp(token.pattern.source, flags) };
+  }
+  return tokens;
+}
+
+function parsePattern(pattern: string, tokens: Record<string, MaskTokenDefinition>): Slot[] {
+  const slots: Slot[] = [];
+  let optional = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\' && i + 1 < pattern.length) {
+      slots.push({ literal: pattern[++i], optional });
+    } else if (char === '[') {
+      optional = true;
+    } else if (char === ']') {
+      optional = false;
+    } else if (tokens[char]) {
+      slots.push({ token: tokens[char], optional });
+    } else {
+      slots.push({ literal: char, optional });
+    }
+  }
+
+  return slots;
+}
+
+function transformChar(token: MaskTokenDefinition, char: string): string {
+  if (token.transform === 'upper') return char.toUpperCase();
+  if (token.transform === 'lower') return char.toLowerCase();
+  return token.transform ? token.transform(char) : char;
+}
+
+function createPatternEngine(pattern: MaskPattern, customTokens: MaskConfig['tokens'], fill?: string): MaskEngine {
+  const tokens = resolveTokens(customTokens);
+  const tokenList = Object.values(tokens);
+  const parsed = new Map<string, Slot[]>();
+
+  function slotsOf(source: string): Slot[] {
+    let slots = parsed.get(source);
+    if (!slots) {
+      slots = parsePattern(source, tokens);
+      parsed.set(source, slots);
+    }
+    return slots;
+  }
+
+  const capacity = (source: string) => slotsOf(source).filter(slot => slot.token).length;
+
+  /** Pick the pattern for the typed characters of a dynamic mask */
+  function slotsFor(chars: string): Slot[] {
+    if (typeof pattern === 'string') return slotsOf(pattern);
+    if (typeof pattern === 'function') return slotsOf(pattern(chars));
+
+    const sorted = [...pattern].sort((a, b) => capacity(a) - capacity(b));
+    return slotsOf(sorted.find(source => capacity(source) >= chars.length) ?? sorted[sorted.length - 1] ?? '');
+  }
+
+  function extract(text: string, context = text): string {
+    const loose = Array.from(context).filter(char => tokenList.some(token => token.pattern.test(char))).join('');
+    const slots = slotsFor(loose);
+    let chars = '';
+    let s = 0;
+
+    for (const char of text) {
+      // A literal at or just ahead of the current slot is part of the mask, not input
+      let k = s;
+      while (k < slots.length && slots[k].literal !== undefined && slots[k].literal !== char) k++;
+      if (k < slots.length && slots[k].literal === char) {
+        s = k + 1;
+        continue;
+      }
+
+      while (s < slots.length && slots[s].literal !== undefined) s++;
+      if (s < slots.length && slots[s].token!.pattern.test(char)) {
+        chars += char;
+        s++;
+      }
+    }
+
+    return chars;
+  }
+
+  function format(chars: string): Formatted {
+    if (!chars) return { masked: '', raw: '', positions: [0] };
+
+    const slots = slotsFor(chars);
+    const positions: number[] = [];
+    let masked = '';
+    let raw = '';
+    // Literals are only shown once a character after them is
+    let pending = '';
+    let c = 0;
+
+    for (const slot of slots) {
+      if (slot.literal !== undefined) {
+        pending += slot.literal;
+        continue;
+      }
+
+      const token = slot.token!;
+      while (c < chars.length && !token.pattern.test(chars[c])) c++;
+      positions.push(masked.length + pending.length);
+
+      if (c < chars.length) {
+        const char = transformChar(token, chars[c++]);
+        masked += pending + char;
+        raw += char;
+        pending = '';
+      } else if (!fill) {
+        break;
+      } else if (!slot.optional) {
+        masked += pending + fill;
+        pending = '';
+      }
+    }
+
+    return { masked, raw, positions };
+  }
+
+  return { extract, format };
+}
+
+// ============================================================================
+// Number Masks
+// ============================================================================
+
+function createNumberEngine(options: NumberMaskOptions): MaskEngine {
+  const {
+    thousandsSeparator = ',',
+    decimalSeparator = '.',
+    decimals = 0,
+    allowNegative = false,
+    prefix = '',
+    suffix = '',
+  } = options;
+
+  // A `.` typed for a comma decimal separator still counts, unless it groups thousands
+  const isDecimal = (char: string) =>
+    char === decimalSeparator || (char === '.' && thousandsSeparator !== '.');
+
+  function extract(text: string): string {
+    let body = prefix ? text.replace(prefix, '') : text;
+    if (suffix && body.endsWith(suffix)) body = body.slice(0, -suffix.length);
+
+    let chars = '';
+    for (const char of body) {
+      if (/[0-9]/.test(char)) {
+        chars += char;
+      } else if (char === '-' && allowNegative && !chars) {
+        chars = '-';
+      } else if (decimals > 0 && isDecimal(char) && !chars.includes('.')) {
+        chars += '.';
+      }
+    }
+    return chars;
+  }
+
+  function format(chars: string): Formatted {
+    if (!chars) return { masked: '', raw: '', positions: [0] };
+
+    const [, sign, intPart, decPart] = /^(-?)([0-9]*)(?:\.([0-9]*))?$/.exec(chars)!;
+    // Leading zeros are dropped, keeping one for zero itself
+    const zeros = /^0*/.exec(intPart)![0].length;
+    const dropped = zeros === intPart.length ? Math.max(zeros - 1, 0) : zeros;
+    const int = intPart.slice(dropped);
+    const fraction = decPart?.slice(0, decimals);
+
+    // The sign goes before the prefix: -$12, not $-12
+    const positions: number[] = sign ? [0] : [];
+    let masked = sign + prefix;
+    for (let i = 0; i < dropped; i++) positions.push(masked.length);
+    if (!int && decPart !== undefined) masked += '0';
+
+    for (let i = 0; i < int.length; i++) {
+      if (i > 0 && (int.length - i) % 3 === 0) masked += thousandsSeparator;
+      positions.push(masked.length);
+      masked += int[i];
+    }
+
+    if (decPart !== undefined) {
+      positions.push(masked.length);
+      masked += decimalSeparator;
+      for (const digit of fraction!) {
+        positions.push(masked.length);
+        masked += digit;
+      }
+      // Digits past the precision were dropped
+      for (let i = fraction!.length; i < decPart.length; i++) positions.push(masked.length);
+    }
+
+    positions.push(masked.length);
+    if (int || decPart !== undefined) masked += suffix;
+
+    const whole = int || (decPart !== undefined ? '0' : '');
+    const raw = `${sign}${whole}${fraction ? `.${fraction}` : ''}`;
+    return { masked, raw, positions };
+  }
+
+  return { extract, format };
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+function createEngine(mask: string | MaskConfig, fill?: string): MaskEngine {
+  const config = typeof mask === 'string' ? { pattern: mask } : mask;
+  if (config.number) return createNumberEngine(config.number === true ? {} : config.number);
+  return createPatternEngine(config.pattern ?? '', config.tokens, fill);
+}
+
+/**
+ * Apply mask to input value; `placeholder` fills the slots not typed yet
+ */
+export function applyMask(value: string, mask: string | MaskConfig, placeholder?: string): string {
+  if (!value || !mask) return value;
+  const engine = createEngine(mask, placeholder);
+  return engine.format(engine.extract(value)).masked;
+}
+
+/**
+ * Remove mask from value (get raw value)
+ */
+export function unmask(value: string, mask: string | MaskConfig): string {
+  if (!value || !mask) return value;
+  const engine = createEngine(mask);
+  return engine.format(engine.extract(value)).raw;
+}
+
+/**
+ * Create a masked input handler
+ */
+export function createMaskedInput(
+  input: HTMLInputElement,
+  mask: string | MaskConfig,
+  placeholder?: string
+): MaskedInput {
+  const engine = createEngine(mask, placeholder);
+
+  /** Show typed characters, with the caret after the first `caretChars` of them */
+  function render(chars: string, caretChars: number) {
+    const { masked, positions } = engine.format(chars);
+    if (input.value !== masked) input.value = masked;
+
+    // Moving the selection of an unfocused input can focus it in some browsers
+    if (document.activeElement !== input) return;
+    const caret = Math.min(positions[caretChars] ?? masked.length, masked.length);
+    input.setSelectionRange(caret, caret);
+  }
+
+  function handleInput(e: Event) {
+    if ((e as InputEvent).isComposing) return;
+    const text = input.value;
+    const caret = input.selectionStart ?? text.length;
+    render(engine.extract(text), engine.extract(text.slice(0, caret), text).length);
+  }
+
+  function handleKeyDown(e: KeyboardEvent) {
+    if (e.key !== 'Backspace' && e.key !== 'Delete') return;
+    const { selectionStart: start, selectionEnd: end, value } = input;
+    if (start === null || start !== end || e.ctrlKey || e.metaKey || e.altKey) return;
+
+    const chars = engine.extract(value);
+    const before = engine.extract(value.slice(0, start), value).length;
+
+    // Next to a literal the browser would delete the literal, only for the mask to put it back,
+    // so the nearest typed character is deleted instead
+    if (e.key === 'Backspace') {
+      if (before === 0 || engine.extract(value.slice(0, start - 1), value).length !== before) return;
+      e.preventDefault();
+      render(chars.slice(0, before - 1) + chars.slice(before), before - 1);
+    } else {
+      if (before >= chars.length || engine.extract(value.slice(0, start + 1), value).length !== before) return;
+      e.preventDefault();
+      render(chars.slice(0, before) + chars.slice(before + 1), before);
+    }
+
+    input.dispatchEvent(new Event('input', { bubbles: true }));
+  }
+
+  input.addEventListener('input', handleInput);
+  input.addEventListener('compositionend', handleInput);
+  input.addEventListener('keydown', handleKeyDown);
+
+  // Initialize with mask
+  if (input.value) {
+    input.value = engine.format(engine.extract(input.value)).masked;
+  }
+
+  return {
+    getValue: () => {
+      const { masked, raw } = engine.format(engine.extract(input.value));
+      return { masked, raw };
+    },
+    destroy: () => {
+      input.removeEventListener('input', handleInput);
+      input.removeEventListener('compositionend', handleInput);
+      input.removeEventListener('keydown', handleKeyDown);
+    },
+  };
+}
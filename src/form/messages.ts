@@ -0,0 +1,286 @@
+/**
+ * Validation Messages
+ * Message templates with interpolation and plurals, in per-locale catalogs
+ */
+
+import type { ValidationMessages } from '../core/types';
+
+const FALLBACK_LOCALE = 'en';
+
+const en: ValidationMessages = {
+  required: 'This field is required',
+  email: 'Please enter a valid email address',
+  url: 'Please enter a valid URL',
+  phone: 'Please enter a valid phone number',
+  creditCard: 'Please enter a valid credit card number',
+  min: 'Value must be at least {min}',
+  max: 'Value must be at most {max}',
+  minLength: 'Must be at least {min, plural, one {# character} other {# characters}}',
+  maxLength: 'Must be at most {max, plural, one {# character} other {# characters}}',
+  pattern: 'Invalid format',
+  match: 'Values do not match',
+  json: 'Invalid JSON: {error}',
+  date: 'Please enter a valid date',
+  dateIncomplete: 'Please select both a start and an end date',
+  dateMin: 'Date must be on or after {min}',
+  dateMax: 'Date must be on or before {max}',
+  dateDisabled: 'This date is not available',
+  dateOrder: 'The end date must be after the start date',
+  fileSize: 'File size must be less than {max}MB',
+  fileType: 'File type not allowed. Allowed: {allowed}',
+  imageUnreadable: 'The image could not be read',
+  imageMinWidth: 'Image must be at least {min}px wide',
+  imageMaxWidth: 'Image must be at most {max}px wide',
+  imageMinHeight: 'Image must be at least {min}px tall',
+  imageMaxHeight: 'Image must be at most {max}px tall',
+  aspectRatio: 'Image must have a {ratio}:1 aspect ratio',
+  minAspectRatio: 'Image must be at least {min} times as wide as it is tall',
+  maxAspectRatio: 'Image must be at most {max} times as wide as it is tall',
+  uniqueFailed: 'This value could not be checked',
+  uniqueTaken: 'This value is already taken',
+  minItems: 'Add at least {min, plural, one {# item} other {# items}}',
+  maxItems: 'Add no more than {max, plural, one {# item} other {# items}}',
+  formRule: 'Please check these fields',
+  string: 'Must be text',
+  number: 'Must be a number',
+  integer: 'Must be a whole number',
+  boolean: 'Must be true or false',
+  oneOf: 'Must be one of: {options}',
+  array: 'Must be a list',
+  object: 'Must be an object',
+};
+
+const de: ValidationMessages = {
+  required: 'Dieses Feld ist erforderlich',
+  email: 'Bitte geben Sie eine gültige E-Mail-Adresse ein',
+  url: 'Bitte geben Sie eine gültige URL ein',
+  phone: 'Bitte geben Sie eine gültige Telefonnummer ein',
+  creditCard: 'Bitte geben Sie eine gültige Kreditkartennummer ein',
+  min: 'Der Wert muss mindestens {min} betragen',
+  max: 'Der Wert darf höchstens {max} betragen',
+  minLength: 'Muss mindestens {min} Zeichen lang sein',
+  maxLength: 'Darf höchstens {max} Zeichen lang sein',
+  pattern: 'Ungültiges Format',
+  match: 'Die Werte stimmen nicht überein',
+  json: 'Ungültiges JSON: {error}',
+  date: 'Bitte geben Sie ein gültiges Datum ein',
+  dateIncomplete: 'Bitte wählen Sie ein Start- und ein Enddatum',
+  dateMin: 'Das Datum muss am oder nach dem {min} liegen',
+  dateMax: 'Das Datum muss am oder vor dem {max} liegen',
+  dateDisabled: 'Dieses Datum ist nicht verfügbar',
+  dateOrder: 'Das Enddatum muss nach dem Startdatum liegen',
+  fileSize: 'Die Datei muss kleiner als {max} MB sein',
+  fileType: 'Dateityp nicht erlaubt. Erlaubt: {allowed}',
+  imageUnreadable: 'Das Bild konnte nicht gelesen werden',
+  imageMinWidth: 'Das Bild muss mindestens {min} px breit sein',
+  imageMaxWidth: 'Das Bild darf höchstens {max} px breit sein',
+  imageMinHeight: 'Das Bild muss mindestens {min} px hoch sein',
+  imageMaxHeight: 'Das Bild darf höchstens {max} px hoch sein',
+  aspectRatio: 'Das Bild muss ein Seitenverhältnis von {ratio}:1 haben',
+  minAspectRatio: 'Das Bild muss mindestens {min}-mal so breit wie hoch sein',
+  maxAspectRatio: 'Das Bild darf höchstens {max}-mal so breit wie hoch sein',
+  uniqueFailed: 'Dieser Wert konnte nicht geprüft werden',
+  uniqueTaken: 'Dieser Wert ist bereits vergeben',
+  minItems: 'Fügen Sie mindestens {min, plural, one {# Eintrag} other {# Einträge}} hinzu',
+  maxItems: 'Fügen Sie höchstens {max, plural, one {# Eintrag} other {# Einträge}} hinzu',
+  formRule: 'Bitte überprüfen Sie diese Felder',
+  string: 'Muss ein Text sein',
+  number: 'Muss eine Zahl sein',
+  integer: 'Muss eine ganze Zahl sein',
+  boolean: 'Muss wahr oder falsch sein',
+  oneOf: 'Muss einer der folgenden Werte sein: {options}',
+  array: 'Muss eine Liste sein',
+  object: 'Muss ein Objekt sein',
+};
+
+const ja: ValidationMessages = {
+  required: 'この項目は必須です',
+  email: '有効なメールアドレスを入力してください',
+  url: '有効なURLを入力してください',
+  phone: '有効な電話番号を入力してください',
+  creditCard: '有効なクレジットカード番号を入力してください',
+  min: '{min}以上の値を入力してください',
+  max: '{max}以下の値を入力してください',
+  minLength: '{min}文字以上で入力してください',
+  maxLength: '{max}文字以内で入力してください',
+  pattern: '形式が正しくありません',
+  match: '値が一致しません',
+  json: 'JSONが正しくありません: {error}',
+  date: '有効な日付を入力してください',
+  dateIncomplete: '開始日と終了日を選択してください',
+  dateMin: '{min}以降の日付を選択してください',
+  dateMax: '{max}以前の日付を選択してください',
+  dateDisabled: 'この日付は選択できません',
+  dateOrder: '終了日は開始日より後にしてください',
+  fileSize: 'ファイルサイズは{max}MB未満にしてください',
+  fileType: 'このファイル形式は使用できません。使用できる形式: {allowed}',
+  imageUnreadable: '画像を読み込めませんでした',
+  imageMinWidth: '画像の幅は{min}px以上にしてください',
+  imageMaxWidth: '画像の幅は{max}px以下にしてください',
+  imageMinHeight: '画像の高さは{min}px以上にしてください',
+  imageMaxHeight: '画像の高さは{max}px以下にしてください',
+  aspectRatio: '画像の縦横比は{ratio}:1にしてください',
+  minAspectRatio: '画像の幅は高さの{min}倍以上にしてください',
+  maxAspectRatio: '画像の幅は高さの{max}倍以下にしてください',
+  uniqueFailed: 'この値を確認できませんでした',
+  uniqueTaken: 'この値は既に使用されています',
+  minItems: '{min}件以上追加してください',
+  maxItems: '{max}件以下にしてください',
+  formRule: '入力内容を確認してください',
+  string: 'テキストを入力してください',
+  number: '数値を入力してください',
+  integer: '整数を入力してください',
+  boolean: 'true または false を指定してください',
+  oneOf: '次のいずれかを指定してください: {options}',
+  array: 'リストを指定してください',
+  object: 'オブジェクトを指定してください',
+};
+
+/** Catalogs keyed by lowercase locale */
+const catalogs = new Map<string, ValidationMessages>([['en', en], ['de', de], ['ja', ja]]);
+
+let configuredLocale: string | undefined;
+
+const pluralRules = new Map<string, Intl.PluralRules>();
+const numberFormats = new Map<string, Intl.NumberFormat>();
+
+// ============================================================================
+// Catalogs
+// ============================================================================
+
+/**
+ * Add or override message templates for a locale, such as `de` or `de-CH`
+ */
+export function registerMessages(locale: string, messages: ValidationMessages): void {
+  const key = locale.toLowerCase();
+  catalogs.set(key, { ...catalogs.get(key), ...messages });
+}
+
+/**
+ * Set the locale validation messages are shown in; without one the page's `lang` is used
+ */
+export function setValidationLocale(locale: string | undefined): void {
+  configuredLocale = locale;
+}
+
+function currentLocale(): string {
+  const pageLocale = typeof document !== 'undefined' ? document.documentElement.lang : '';
+  try {
+    return Intl.getCanonicalLocales(configuredLocale || pageLocale || FALLBACK_LOCALE)[0] ?? FALLBACK_LOCALE;
+  } catch {
+    // Not a valid language tag
+    return FALLBACK_LOCALE;
+  }
+}
+
+/** The template for a key, from the locale, its language (`de` for `de-CH`) or English */
+function findTemplate(key: string, locale: string): string {
+  const tag = locale.toLowerCase();
+  for (const candidate of [tag, tag.split('-')[0], FALLBACK_LOCALE]) {
+    const template = catalogs.get(candidate)?.[key];
+    if (template !== undefined) return template;
+  }
+  return key;
+}
+
+/**
+ * The current locale's message for a key, with its parameters filled in
+ */
+export function translateMessage(key: string, params: Record<string, unknown> = {}): string {
+  const locale = currentLocale();
+  return formatMessage(findTemplate(key, locale), params, locale);
+}
+
+// ============================================================================
+// Templates
+// ============================================================================
+
+/**
+ * Fill in a template: `{name}` inserts a parameter, and
+ * `{count, plural, one {# item} other {# items}}` picks a plural form, with `#` as the number.
+ * Placeholders without a parameter are left as they are.
+ */
+export function formatMessage(
+  template: string,
+  params: Record<string, unknown> = {},
+  locale: string = currentLocale()
+): string {
+  let message = '';
+  let i = 0;
+
+  while (i < template.length) {
+    const open = template.indexOf('{', i);
+    const close = open === -1 ? -1 : matchingBrace(template, open);
+    if (close === -1) {
+      message += template.slice(i);
+      break;
+    }
+
+    message += template.slice(i, open);
+    message += placeholder(template.slice(open + 1, close), params, locale) ?? template.slice(open, close + 1);
+    i = close + 1;
+  }
+
+  return message;
+}
+
+function matchingBrace(text: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < text.length; i++) {
+    if (text[i] === '{') depth++;
+    else if (text[i] === '}' && --depth === 0) return i;
+  }
+  return -1;
+}
+
+function placeholder(body: string, params: Record<string, unknown>, locale: string): string | null {
+  const plural = /^\s*(\w+)\s*,\s*plural\s*,([\s\S]*)$/.exec(body);
+  if (plural) {
+    const count = Number(params[plural[1]]);
+    if (params[plural[1]] === undefined || isNaN(count)) return null;
+
+    const forms = pluralForms(plural[2]);
+    const form = forms[`=${count}`] ?? forms[selectPlural(count, locale)] ?? forms.other;
+    if (form === undefined) return null;
+    return formatMessage(form.replace(/#/g, formatNumber(count, locale)), params, locale);
+  }
+
+  const name = /^\s*(\w+)\s*$/.exec(body);
+  if (!name || params[name[1]] === undefined || params[name[1]] === null) return null;
+  const value = params[name[1]];
+  return typeof value === 'number' ? formatNumber(value, locale) : String(value);
+}
+
+/** Plural forms such as `one {# item} other {# items}`, keyed by selector */
+function pluralForms(text: string): Record<string, string> {
+  const forms: Record<string, string> = {};
+  let i = 0;
+
+  while (i < text.length) {
+    const open = text.indexOf('{', i);
+    const close = open === -1 ? -1 : matchingBrace(text, open);
+    if (close === -1) break;
+    forms[text.slice(i, open).trim()] = text.slice(open + 1, close);
+    i = close + 1;
+  }
+
+  return forms;
+}
+
+function selectPlural(count: number, locale: string): string {
+  let rules = pluralRules.get(locale);
+  if (!rules) {
+    rules = new Intl.PluralRules(locale);
+    pluralRules.set(locale, rules);
+  }
+  return rules.select(count);
+}
+
+function formatNumber(value: number, locale: string): string {
+  let format = numberFormats.get(locale);
+  if (!format) {
+    format = new Intl.NumberFormat(locale, { maximumFractionDigits: 2 });
+    numberFormats.set(locale, format);
+  }
+  return format.format(value);
+}
@@ -0,0 +1,126 @@
+/**
+ * Field Paths
+ * Read and write nested form data with names like `address.city` or `items[0].qty`
+ */
+
+export type PathSegment = string | number;
+
+const pathCache = new Map<string, PathSegment[]>();
+
+/** Keys that would reach into prototypes instead of the data */
+const UNSAFE_KEYS = new Set(['__proto__', 'constructor', 'prototype']);
+
+function hasOwn(data: object, key: PropertyKey): boolean {
+  return Object.prototype.hasOwnProperty.call(data, key);
+}
+
+/**
+ * Split a path into keys and array indexes: `items[0].qty` -> ['items', 0, 'qty'].
+ * Throws for `__proto__`, `constructor` and `prototype` keys.
+ */
+export function parsePath(path: string): PathSegment[] {
+  const cached = pathCache.get(path);
+  if (cached) return cached;
+
+  const segments: PathSegment[] = [];
+  const pattern = /([^.[\]]+)|\[(\d+)\]/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(path)) !== null) {
+    if (UNSAFE_KEYS.has(match[1])) throw new Error(`Invalid field path: ${path}`);
+    segments.push(match[2] !== undefined ? Number(match[2]) : match[1]);
+  }
+
+  pathCache.set(path, segments);
+  return segments;
+}
+
+/**
+ * Join keys and array indexes into a path: ['items', 0, 'qty'] -> `items[0].qty`
+ */
+export function formatPath(segments: ReadonlyArray<PathSegment>): string {
+  return segments.reduce<string>((path, segment) =>
+    typeof segment === 'number' ? `${path}[${segment}]` : path ? `${path}.${segment}` : segment, '');
+}
+
+/**
+ * Read the value at a path, or undefined if any step is missing
+ */
+export function getPath(data: Record<string, any>, path: string): any {
+  // Flat keys win, so data that already uses a dotted key keeps working
+  if (hasOwn(data, path)) return data[path];
+
+  let current: any = data;
+  for (const segment of parsePath(path)) {
+    if (current === null || typeof current !== 'object' || !hasOwn(current, segment)) return undefined;
+    current = current[segment];
+  }
+  return current;
+}
+
+/**
+ * Write a value at a path, creating objects and arrays along the way
+ */
+export function setPath(data: Record<string, any>, path: string, value: any): void {
+  if (hasOwn(data, path)) {
+    data[path] = value;
+    return;
+  }
+
+  const segments = parsePath(path);
+  let current: any = data;
+
+  for (let i = 0; i < segments.length - 1; i++) {
+    const segment = segments[i];
+    if (!hasOwn(current, segment) || current[segment] === null || typeof current[segment] !== 'object') {
+      current[segment] = typeof segments[i + 1] === 'number' ? [] : {};
+    }
+    current = current[segment];
+  }
+
+  current[segments[segments.length - 1]] = value;
+}
+
+/**
+ * Remove the value at a path
+ */
+export function deletePath(data: Record<string, any>, path: string): void {
+  if (hasOwn(data, path)) {
+    delete data[path];
+    return;
+  }
+
+  const segments = parsePath(path);
+  let current: any = data;
+  for (let i = 0; i < segments.length - 1; i++) {
+    current = current?.[segments[i]];
+    if (current === null || typeof current !== 'object') return;
+  }
+  delete current[segments[segments.length - 1]];
+}
+
+/**
+ * Whether one path contains the other (`address` and `address.city`)
+ */
+export function pathsOverlap(a: string, b: string): boolean {
+  if (a === b) return true;
+  const pa = parsePath(a);
+  const pb = parsePath(b);
+  const length = Math.min(pa.length, pb.length);
+  for (let i = 0; i < length; i++) {
+    if (String(pa[i]) !== String(pb[i])) return false;
+  }
+  return true;
+}
+
+/**
+ * Copy plain objects and arrays deeply; other values (Date, File, ...) are shared
+ */
+export function cloneData<T>(value: T): T {
+  if (Array.isArray(value)) return value.map(cloneData) as unknown as T;
+  if (value !== null && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    const copy: Record<string, any> = {};
+    for (const [key, item] of Object.entries(value)) copy[key] = cloneData(item);
+    return copy as T;
+  }
+  return value;
+}
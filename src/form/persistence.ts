@@ -0,0 +1,231 @@
+/**
+ * Form Drafts
+ * Autosave form data to storage and restore it when the form reopens
+ */
+
+import type { FormField, FormPersistConfig, DraftStorage, ArrayFieldConfig } from '../core/types';
+import { getPath, deletePath, cloneData } from './paths';
+
+/** Field types whose values are never stored: secrets and File objects */
+const EXCLUDED_TYPES = ['password', 'file', 'image', 'avatar'];
+
+const KEY_PREFIX = 'swal-draft:';
+
+interface StoredDraft {
+  savedAt: number;
+  version?: string | number;
+  data: Record<string, any>;
+}
+
+export interface Draft {
+  data: Record<string, any>;
+  savedAt: Date;
+}
+
+export interface DraftAutosave {
+  /** Read the stored draft, dropping it if expired or from another version */
+  load(): Promise<Draft | null>;
+  /** Schedule a debounced save */
+  save(data: Record<string, any>): void;
+  /** Write a scheduled save immediately */
+  flush(): void;
+  /** Cancel pending saves and delete the stored draft */
+  clear(): Promise<void>;
+}
+
+// ============================================================================
+// Storage Adapters
+// ============================================================================
+
+function webStorage(getStorage: () => Storage): DraftStorage {
+  // Storage can be unavailable (privacy mode, sandboxed iframes) or full
+  return {
+    getItem: (key) => {
+      try {
+        return getStorage().getItem(key);
+      } catch {
+        return null;
+      }
+    },
+    setItem: (key, value) => {
+      try {
+        getStorage().setItem(key, value);
+      } catch (error) {
+        console.warn('[SweetAlert++] Could not save form draft:', error);
+      }
+    },
+    removeItem: (key) => {
+      try {
+        getStorage().removeItem(key);
+      } catch {
+        // Nothing to remove
+      }
+    },
+  };
+}
+
+/**
+ * Draft storage backed by IndexedDB, for large forms
+ */
+export function createIndexedDBStorage(dbName = 'sweetalert-plus-plus', storeName = 'drafts'): DraftStorage {
+  let db: Promise<IDBDatabase> | null = null;
+
+  function open(): Promise<IDBDatabase> {
+    db ??= new Promise((resolve, reject) => {
+      const request = indexedDB.open(dbName, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(storeName);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return db;
+  }
+
+  async function run<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const database = await open();
+    return new Promise((resolve, reject) => {
+      const request = action(database.transaction(storeName, mode).objectStore(storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  return {
+    getItem: async (key) => (await run<string | undefined>('readonly', store => store.get(key))) ?? null,
+    setItem: async (key, value) => {
+      await run('readwrite', store => store.put(value, key));
+    },
+    removeItem: async (key) => {
+      await run('readwrite', store => store.delete(key));
+    },
+  };
+}
+
+function resolveStorage(storage: FormPersistConfig['storage']): DraftStorage {
+  if (storage && typeof storage === 'object') return storage;
+  switch (storage) {
+    case 'session': return webStorage(() => sessionStorage);
+    case 'indexeddb': return createIndexedDBStorage();
+    default: return webStorage(() => localStorage);
+  }
+}
+
+// ============================================================================
+// Drafts
+// ============================================================================
+
+/** Delete the values of excluded field types, including those inside array items */
+function deleteExcludedValues(data: Record<string, any>, fields: FormField[]): void {
+  for (const field of fields) {
+    if (EXCLUDED_TYPES.includes(field.type)) {
+      deletePath(data, field.name);
+    } else if (field.type === 'array') {
+      const items = getPath(data, field.name);
+      if (!Array.isArray(items)) continue;
+      for (const item of items) {
+        if (item && typeof item === 'object') deleteExcludedValues(item, (field as ArrayFieldConfig).fields);
+      }
+    }
+  }
+}
+
+function storageKey(config: FormPersistConfig): string {
+  return `${KEY_PREFIX}${config.key}`;
+}
+
+/**
+ * Delete a stored draft, e.g. when the user signs out
+ */
+export async function clearFormDraft(config: FormPersistConfig): Promise<void> {
+  await resolveStorage(config.storage).removeItem(storageKey(config));
+}
+
+/**
+ * Create the autosave controller for a form with a `persist` config
+ */
+export function createDraftAutosave(config: FormPersistConfig, fields: FormField[]): DraftAutosave {
+  const storage = resolveStorage(config.storage);
+  const key = storageKey(config);
+  const excluded = config.exclude ?? [];
+
+  let pending: Record<string, any> | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  function write(data: Record<string, any>) {
+    const stored = cloneData(data);
+    for (const path of excluded) deletePath(stored, path);
+    deleteExcludedValues(stored, fields);
+
+    const draft: StoredDraft = { savedAt: Date.now(), version: config.version, data: stored };
+    Promise.resolve(storage.setItem(key, JSON.stringify(draft))).catch((error) => {
+      console.warn('[SweetAlert++] Could not save form draft:', error);
+    });
+  }
+
+  function cancel() {
+    if (timer) clearTimeout(timer);
+    timer = null;
+    pending = null;
+  }
+
+  function flush() {
+    if (!pending) return;
+    const data = pending;
+    cancel();
+    write(data);
+  }
+
+  return {
+    async load() {
+      let raw: string | null;
+      try {
+        raw = await storage.getItem(key);
+      } catch {
+        return null;
+      }
+      if (!raw) return null;
+
+      let draft: StoredDraft;
+      try {
+        draft = JSON.parse(raw);
+      } catch {
+        await storage.removeItem(key);
+        return null;
+      }
+
+      const expired = config.ttl !== undefined && Date.now() - draft.savedAt > config.ttl;
+      if (expired || draft.version !== config.version || !draft.data) {
+        await storage.removeItem(key);
+        return null;
+      }
+
+      return { data: draft.data, savedAt: new Date(draft.savedAt) };
+    },
+
+    save(data) {
+      pending = data;
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(flush, config.debounce ?? 500);
+    },
+
+    flush,
+
+    async clear() {
+      cancel();
+      await storage.removeItem(key);
+    },
+  };
+}
+
+/**
+ * Describe when a draft was saved, e.g. "5 minutes ago"
+ */
+export function formatDraftAge(savedAt: Date, locale?: string): string {
+  const seconds = Math.round((savedAt.getTime() - Date.now()) / 1000);
+  const format = new Intl.RelativeTimeFormat(locale, { numeric: 'auto' });
+  const units: Array<[Intl.RelativeTimeFormatUnit, number]> = [['day', 86400], ['hour', 3600], ['minute', 60]];
+
+  for (const [unit, size] of units) {
+    if (Math.abs(seconds) >= size) return format.format(Math.round(seconds / size), unit);
+  }
+  return format.format(0, 'second');
+}
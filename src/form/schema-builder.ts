@@ -0,0 +1,254 @@
+/**
+ * Schema Builder
+ * A tiny Standard Schema implementation for describing form data without a schema library
+ */
+
+import type { StandardSchema, StandardSchemaIssue } from '../core/types';
+import { formatMessage, translateMessage } from './messages';
+
+const VENDOR = 'sweetalert-plus-plus';
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const URL_REGEX = /^https?:\/\/.+/;
+
+export interface SchemaType<T> extends StandardSchema<T> {
+  /** Allow the value to be empty (undefined, null or '') */
+  optional(): SchemaType<T | undefined>;
+  /** Add a check that returns true for valid values; `path` reports the issue on a nested key */
+  refine(check: (value: T) => boolean, message: string, path?: PropertyKey[]): SchemaType<T>;
+}
+
+export interface StringSchema extends SchemaType<string> {
+  min(length: number, message?: string): StringSchema;
+  max(length: number, message?: string): StringSchema;
+  email(message?: string): StringSchema;
+  url(message?: string): StringSchema;
+  pattern(pattern: RegExp, message?: string): StringSchema;
+}
+
+export interface NumberSchema extends SchemaType<number> {
+  min(min: number, message?: string): NumberSchema;
+  max(max: number, message?: string): NumberSchema;
+  integer(message?: string): NumberSchema;
+}
+
+export interface ArraySchema<T> extends SchemaType<T[]> {
+  min(count: number, message?: string): ArraySchema<T>;
+  max(count: number, message?: string): ArraySchema<T>;
+}
+
+/** The value type a schema accepts */
+export type Infer<S> = S extends StandardSchema<infer T> ? T : never;
+
+type Shape = Record<string, SchemaType<any>>;
+
+interface Check<T> {
+  /** Returns a message for invalid values */
+  test: (value: T) => string | null;
+  /** Key path below the checked value to report the issue on */
+  path?: PropertyKey[];
+}
+
+interface Definition<T> {
+  /** Convert raw input, such as text typed into an input, before it is checked */
+  coerce?: (value: unknown) => unknown;
+  /** Check the value's type and any nested values; returns the parsed value, or null if it is not a T */
+  parse: (value: unknown, path: PropertyKey[], issues: StandardSchemaIssue[]) => { value: T } | null;
+  checks: Check<T>[];
+  optional: boolean;
+}
+
+/** Definitions of built schemas, for validating nested values with their paths */
+const definitions = new WeakMap<object, Definition<any>>();
+
+// ============================================================================
+// Core
+// ============================================================================
+
+/** A custom message, or the current locale's message for `key`, with `params` filled in */
+function describe(message: string | undefined, key: string, params: Record<string, unknown> = {}): string {
+  return message ? formatMessage(message, params) : translateMessage(key, params);
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+/** Check a value, adding any issues; returns the parsed value */
+function run<T>(definition: Definition<T>, input: unknown, path: PropertyKey[], issues: StandardSchemaIssue[]): unknown {
+  const value = definition.coerce ? definition.coerce(input) : input;
+  if (isEmpty(value)) {
+    if (!definition.optional) issues.push({ message: translateMessage('required'), path });
+    return value;
+  }
+  const parsed = definition.parse(value, path, issues);
+  if (!parsed) return value;
+
+  for (const check of definition.checks) {
+    const message = check.test(parsed.value);
+    if (message) {
+      issues.push({ message, path: [...path, ...(check.path ?? [])] });
+      break;
+    }
+  }
+  return parsed.value;
+}
+
+function createType<T, S extends SchemaType<T>>(
+  definition: Definition<T>,
+  methods: (withCheck: (test: (value: T) => string | null) => S) => Omit<S, keyof SchemaType<T>>
+): S {
+  const addCheck = (check: Check<T>) =>
+    createType({ ...definition, checks: [...definition.checks, check] }, methods);
+  const withCheck = (test: (value: T) => string | null) => addCheck({ test });
+
+  const schema = {
+    '~standard': {
+      version: 1 as const,
+      vendor: VENDOR,
+      validate: (value: unknown) => {
+        const issues: StandardSchemaIssue[] = [];
+        const output = run(definition, value, [], issues);
+        return issues.length > 0 ? { issues } : { value: output as T };
+      },
+    },
+    optional: () => createType({ ...definition, optional: true }, methods),
+    refine: (check: (value: T) => boolean, message: string, path?: PropertyKey[]) =>
+      addCheck({ test: value => (check(value) ? null : message), path }),
+    ...methods(withCheck),
+  } as unknown as S;
+
+  definitions.set(schema, definition);
+  return schema;
+}
+
+/** Validate a nested value against a schema built here; returns the parsed value */
+function runNested(schema: SchemaType<any>, value: unknown, path: PropertyKey[], issues: StandardSchemaIssue[]): unknown {
+  const definition = definitions.get(schema);
+  if (!definition) throw new Error('Nested schemas must be created with the schema builder');
+  return run(definition, value, path, issues);
+}
+
+function typeCheck(test: (value: unknown) => boolean, message: string | undefined, key: string): Definition<any>['parse'] {
+  return (value, path, issues) => {
+    if (test(value)) return { value };
+    issues.push({ message: describe(message, key), path });
+    return null;
+  };
+}
+
+// ============================================================================
+// Types
+// ============================================================================
+
+function string(message?: string): StringSchema {
+  const definition: Definition<string> = {
+    parse: typeCheck(value => typeof value === 'string', message, 'string'),
+    checks: [],
+    optional: false,
+  };
+
+  return createType<string, StringSchema>(definition, withCheck => ({
+    min: (length, msg) => withCheck(value =>
+      value.length >= length ? null : describe(msg, 'minLength', { min: length, actual: value.length })),
+    max: (length, msg) => withCheck(value =>
+      value.length <= length ? null : describe(msg, 'maxLength', { max: length, actual: value.length })),
+    email: msg => withCheck(value => EMAIL_REGEX.test(value) ? null : describe(msg, 'email')),
+    url: msg => withCheck(value => URL_REGEX.test(value) ? null : describe(msg, 'url')),
+    pattern: (pattern, msg) => withCheck(value => pattern.test(value) ? null : describe(msg, 'pattern')),
+  }));
+}
+
+function number(message?: string): NumberSchema {
+  const definition: Definition<number> = {
+    // Numbers typed into text inputs arrive as strings; blank ones count as empty
+    coerce: value => (typeof value === 'string' ? (value.trim() ? Number(value) : undefined) : value),
+    parse: typeCheck(value => typeof value === 'number' && !isNaN(value), message, 'number'),
+    checks: [],
+    optional: false,
+  };
+
+  return createType<number, NumberSchema>(definition, withCheck => ({
+    min: (min, msg) => withCheck(value => value >= min ? null : describe(msg, 'min', { min, actual: value })),
+    max: (max, msg) => withCheck(value => value <= max ? null : describe(msg, 'max', { max, actual: value })),
+    integer: msg => withCheck(value => Number.isInteger(value) ? null : describe(msg, 'integer')),
+  }));
+}
+
+function boolean(message?: string): SchemaType<boolean> {
+  const definition: Definition<boolean> = {
+    parse: typeCheck(value => typeof value === 'boolean', message, 'boolean'),
+    checks: [],
+    optional: false,
+  };
+  return createType<boolean, SchemaType<boolean>>(definition, () => ({}));
+}
+
+function oneOf<T extends string | number | boolean>(values: readonly T[], message?: string): SchemaType<T> {
+  const definition: Definition<T> = {
+    parse: (value, path, issues) => {
+      if (values.includes(value as T)) return { value: value as T };
+      issues.push({ message: describe(message, 'oneOf', { options: values.join(', '), actual: String(value) }), path });
+      return null;
+    },
+    checks: [],
+    optional: false,
+  };
+  return createType<T, SchemaType<T>>(definition, () => ({}));
+}
+
+function array<T>(item: SchemaType<T>, message?: string): ArraySchema<T> {
+  const definition: Definition<T[]> = {
+    parse: (value, path, issues) => {
+      if (!Array.isArray(value)) {
+        issues.push({ message: describe(message, 'array'), path });
+        return null;
+      }
+      const count = issues.length;
+      const items = value.map((entry, index) => runNested(item, entry, [...path, index], issues) as T);
+      return issues.length === count ? { value: items } : null;
+    },
+    checks: [],
+    optional: false,
+  };
+
+  return createType<T[], ArraySchema<T>>(definition, withCheck => ({
+    min: (count, msg) => withCheck(value =>
+      value.length >= count ? null : describe(msg, 'minItems', { min: count, actual: value.length })),
+    max: (count, msg) => withCheck(value =>
+      value.length <= count ? null : describe(msg, 'maxItems', { max: count, actual: value.length })),
+  }));
+}
+
+function object<S extends Shape>(shape: S, message?: string): SchemaType<{ [K in keyof S]: Infer<S[K]> }> {
+  const definition: Definition<{ [K in keyof S]: Infer<S[K]> }> = {
+    parse: (value, path, issues) => {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        issues.push({ message: describe(message, 'object'), path });
+        return null;
+      }
+      const count = issues.length;
+      const parsed: Record<string, unknown> = { ...value };
+      for (const [key, child] of Object.entries(shape)) {
+        const entry = runNested(child, (value as Record<string, unknown>)[key], [...path, key], issues);
+        if (entry !== undefined || key in parsed) parsed[key] = entry;
+      }
+      // Object-level checks, such as comparing two keys, run once the keys are valid
+      return issues.length === count ? { value: parsed as { [K in keyof S]: Infer<S[K]> } } : null;
+    },
+    checks: [],
+    optional: false,
+  };
+  return createType(definition, () => ({}));
+}
+
+/**
+ * Build Standard Schemas: `schema.object({ email: schema.string().email() })`
+ */
+export const schema = {
+  string,
+  number,
+  boolean,
+  oneOf,
+  array,
+  object,
+};
@@ -0,0 +1,498 @@
+/**
+ * JSON Form Schemas
+ * Load and serialize form schemas in a function-free JSON dialect
+ */
+
+import type { FormSchema, JsonFormSchema } from '../core/types';
+import { getFieldRenderer } from './field-renderers';
+import { hasValidator } from './validation';
+import { hasCondition } from './dependencies';
+import { parsePath, pathsOverlap } from './paths';
+
+export interface SchemaSerializationIssue {
+  /** Location in the schema, e.g. `fields[2].showWhen` */
+  path: string;
+  /** Why the value was dropped or changed */
+  message: string;
+}
+
+export interface SerializedSchema {
+  schema: JsonFormSchema;
+  /** Values that could not be represented; empty when the schema round-trips */
+  issues: SchemaSerializationIssue[];
+}
+
+const CONDITION_KEYS = ['showWhen', 'enableWhen', 'requiredWhen'] as const;
+
+const LEAF_OPERATORS = ['equals', 'notEquals', 'in', 'notIn', 'gt', 'gte', 'lt', 'lte', 'empty', 'matches'];
+const SEVERITIES = ['error', 'warning', 'info'];
+
+// ============================================================================
+// Loading
+// ============================================================================
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  if (value === null || typeof value !== 'object') return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+/**
+ * Check a condition's shape and that named conditions and fields exist
+ */
+/** Whether a name can be used as a data path (no `__proto__` and similar keys) */
+function isSafePath(name: string): boolean {
+  try {
+    parsePath(name);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function checkCondition(condition: unknown, path: string, fieldNames: Set<string>, problems: string[]): void {
+  if (!isPlainObject(condition)) {
+    problems.push(`${path}: condition must be an object`);
+    return;
+  }
+
+  if ('all' in condition || 'any' in condition) {
+    const key = 'all' in condition ? 'all' : 'any';
+    if (!Array.isArray(condition[key])) {
+      problems.push(`${path}.${key}: must be an array of conditions`);
+      return;
+    }
+    condition[key].forEach((c: unknown, i: number) => checkCondition(c, `${path}.${key}[${i}]`, fieldNames, problems));
+    return;
+  }
+
+  if ('not' in condition) {
+    checkCondition(condition.not, `${path}.not`, fieldNames, problems);
+    return;
+  }
+
+  if ('condition' in condition) {
+    if (!hasCondition(condition.condition)) {
+      problems.push(`${path}.condition: unknown condition "${condition.condition}" (register it with registerCondition)`);
+    }
+    return;
+  }
+
+  if (typeof condition.field !== 'string') {
+    problems.push(`${path}: expected "field", "all", "any", "not" or "condition"`);
+    return;
+  }
+  if (!isSafePath(condition.field) || ![...fieldNames].some(name => pathsOverlap(name, condition.field))) {
+    problems.push(`${path}.field: unknown field "${condition.field}"`);
+  }
+  for (const key of Object.keys(condition)) {
+    if (key !== 'field' && !LEAF_OPERATORS.includes(key)) {
+      problems.push(`${path}.${key}: unknown condition operator`);
+    }
+  }
+  if (typeof condition.matches === 'string') {
+    try {
+      new RegExp(condition.matches);
+    } catch {
+      problems.push(`${path}.matches: invalid regular expression`);
+    }
+  }
+}
+
+/**
+ * Check a list of fields, and the item fields of array fields within it; `prefix` is the path to the list's owner.
+ * Returns the names of the fields, which conditions in the list may refer to.
+ */
+function checkFields(fields: any[], prefix: string, problems: string[]): Set<string> {
+  const fieldNames = new Set<string>();
+  fields.forEach((field: unknown, i: number) => {
+    if (isPlainObject(field) && typeof field.name === 'string' && isSafePath(field.name)) {
+      if (fieldNames.has(field.name)) problems.push(`${prefix}fields[${i}].name: duplicate field name "${field.name}"`);
+      fieldNames.add(field.name);
+    }
+  });
+
+  fields.forEach((field: unknown, i: number) => {
+    const path = `${prefix}fields[${i}]`;
+    if (!isPlainObject(field)) {
+      problems.push(`${path}: field must be an object`);
+      return;
+    }
+
+    if (typeof field.name !== 'string' || !field.name) {
+      problems.push(`${path}.name: must be a non-empty string`);
+    } else if (!isSafePath(field.name)) {
+      problems.push(`${path}.name: must not contain __proto__, constructor or prototype`);
+    }
+    if (typeof field.type !== 'string') {
+      problems.push(`${path}.type: must be a string`);
+    } else if (!getFieldRenderer(field.type)) {
+      problems.push(`${path}.type: unknown field type "${field.type}"`);
+    }
+
+    for (const key of CONDITION_KEYS) {
+      if (field[key] !== undefined) checkCondition(field[key], `${path}.${key}`, fieldNames, problems);
+    }
+
+    const rules = field.validation?.rules;
+    if (rules !== undefined) {
+      if (!Array.isArray(rules)) {
+        problems.push(`${path}.validation.rules: must be an array`);
+      } else {
+        rules.forEach((rule: any, j: number) => {
+          const rulePath = `${path}.validation.rules[${j}]`;
+          if (!isPlainObject(rule) || typeof rule.type !== 'string') {
+            problems.push(`${rulePath}.type: must be a string`);
+          } else if (rule.validator !== undefined) {
+            problems.push(`${rulePath}.validator: inline validators are not allowed; use a registered validator name as the type`);
+          } else if (rule.type === 'custom') {
+            problems.push(`${rulePath}.type: "custom" needs an inline validator; use a registered validator name instead`);
+          } else if (!hasValidator(rule.type)) {
+            problems.push(`${rulePath}.type: unknown validator "${rule.type}" (register it with registerValidator)`);
+          }
+          if (isPlainObject(rule) && rule.severity !== undefined && !SEVERITIES.includes(rule.severity)) {
+            problems.push(`${rulePath}.severity: must be one of ${SEVERITIES.join(', ')}`);
+          }
+        });
+      }
+    }
+
+    for (const [key, value] of Object.entries(field)) {
+      if (typeof value === 'function') problems.push(`${path}.${key}: functions are not allowed`);
+    }
+
+    // Array items are sub-forms, whose conditions refer to the item's own fields
+    if (field.type === 'array') {
+      if (!Array.isArray(field.fields)) {
+        problems.push(`${path}.fields: must be an array of item fields`);
+      } else {
+        checkFields(field.fields, `${path}.`, problems);
+      }
+    }
+  });
+
+  return fieldNames;
+}
+
+/**
+ * Collect every problem in a JSON schema instead of stopping at the first
+ */
+function checkSchema(schema: unknown): string[] {
+  const problems: string[] = [];
+
+  if (!isPlainObject(schema)) return ['schema must be an object'];
+  if (schema.version !== undefined && schema.version !== 1) {
+    problems.push(`version: unsupported version ${JSON.stringify(schema.version)}`);
+  }
+  if (!Array.isArray(schema.fields)) return [...problems, 'fields: must be an array'];
+
+  const fieldNames = checkFields(schema.fields, '', problems);
+
+  if (schema.sections !== undefined) {
+    if (!Array.isArray(schema.sections)) {
+      problems.push('sections: must be an array');
+    } else {
+      schema.sections.forEach((section: any, i: number) => {
+        if (!isPlainObject(section) || !Array.isArray(section.fields)) {
+          problems.push(`sections[${i}].fields: must be an array of field names`);
+          return;
+        }
+        for (const name of section.fields) {
+          if (!fieldNames.has(name)) problems.push(`sections[${i}].fields: unknown field "${name}"`);
+        }
+      });
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Convert a JSON schema (object or string) into a FormSchema.
+ * Named validators and conditions must be registered before loading.
+ */
+export function loadSchema(input: string | JsonFormSchema): FormSchema {
+  let json: unknown;
+  if (typeof input === 'string') {
+    try {
+      json = JSON.parse(input);
+    } catch (error) {
+      throw new Error(`Invalid form schema: ${(error as Error).message}`);
+    }
+  } else {
+    json = input;
+  }
+
+  const problems = checkSchema(json);
+  if (problems.length > 0) {
+    throw new Error(`Invalid form schema:\n  ${problems.join('\n  ')}`);
+  }
+
+  // Detach from the source so later edits to either side do not leak
+  const { version: _version, ...schema } = JSON.parse(JSON.stringify(json)) as JsonFormSchema;
+  return schema as unknown as FormSchema;
+}
+
+// ============================================================================
+// Serialization
+// ============================================================================
+
+function functionHint(key: string): string {
+  if ((CONDITION_KEYS as readonly string[]).includes(key)) {
+    return 'function conditions cannot be serialized; register it with registerCondition and use { condition: "<name>" }';
+  }
+  if (key === 'validator') {
+    return 'inline validators cannot be serialized; register it with registerValidator and use its name as the rule type';
+  }
+  return 'functions cannot be serialized';
+}
+
+function toJson(value: unknown, path: string, key: string, issues: SchemaSerializationIssue[]): unknown {
+  if (value === undefined) return undefined;
+  if (value === null || typeof value === 'string' || typeof value === 'boolean') return value;
+
+  if (typeof value === 'number') {
+    if (Number.isFinite(value)) return value;
+    issues.push({ path, message: `${value} is not a JSON number` });
+    return undefined;
+  }
+
+  if (typeof value === 'function') {
+    issues.push({ path, message: functionHint(key) });
+    return undefined;
+  }
+
+  if (value instanceof Date) {
+    if (isNaN(value.getTime())) {
+      issues.push({ path, message: 'invalid date' });
+      return undefined;
+    }
+    return value.toISOString();
+  }
+
+  if (value instanceof RegExp) {
+    if (value.flags) issues.push({ path, message: `regular expression flags "${value.flags}" are dropped` });
+    return value.source;
+  }
+
+  if (Array.isArray(value)) {
+    const result: unknown[] = [];
+    value.forEach((item, i) => {
+      const converted = toJson(item, `${path}[${i}]`, key, issues);
+      if (converted !== undefined) result.push(converted);
+    });
+    return result;
+  }
+
+  if (isPlainObject(value)) {
+    const result: Record<string, unknown> = {};
+    for (const [k, v] of Object.entries(value)) {
+      const converted = toJson(v, path ? `${path}.${k}` : k, k, issues);
+      if (converted !== undefined) result[k] = converted;
+    }
+    return result;
+  }
+
+  const kind = typeof Node !== 'undefined' && value instanceof Node ? 'DOM nodes' : `${(value as object).constructor?.name ?? 'object'} instances`;
+  issues.push({ path, message: `${kind} cannot be serialized` });
+  return undefined;
+}
+
+/**
+ * Convert a FormSchema to the JSON dialect, reporting anything that could not be kept
+ */
+export function serializeSchema(schema: FormSchema): SerializedSchema {
+  const issues: SchemaSerializationIssue[] = [];
+
+  // A rule without its inline validator would silently pass, so drop the whole rule
+  const fields = schema.fields.map((field, i) => {
+    const rules = field.validation?.rules;
+    if (!rules?.some(rule => typeof rule.validator === 'function')) return field;
+
+    return {
+      ...field,
+      validation: {
+        ...field.validation,
+        rules: rules.filter((rule, j) => {
+          if (typeof rule.validator !== 'function') return true;
+          issues.push({ path: `fields[${i}].validation.rules[${j}].validator`, message: functionHint('validator') });
+          return false;
+        }),
+      },
+    };
+  });
+
+  // Standard Schemas and cross-field rules are code, which the dialect cannot describe
+  const { schema: standardSchema, rules, ...validation } = schema.validation ?? {};
+  if (standardSchema) {
+    issues.push({ path: 'validation.schema', message: 'Standard Schemas cannot be serialized; set validation.schema again after loading' });
+  }
+  if (rules) {
+    issues.push({ path: 'validation.rules', message: 'cross-field rules cannot be serialized; set validation.rules again after loading' });
+  }
+
+  const json = toJson(
+    { version: 1, ...schema, validation: schema.validation && validation, fields },
+    '', '', issues
+  ) as JsonFormSchema;
+  return { schema: json, issues };
+}
+
+// ============================================================================
+// JSON Schema Definition
+// ============================================================================
+
+const conditionRef = { $ref: '#/$defs/condition' };
+
+/**
+ * JSON Schema (draft 2020-12) describing the JSON form schema dialect
+ */
+export const formSchemaJSONSchema = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  title: 'SweetAlert++ form schema',
+  type: 'object',
+  required: ['fields'],
+  properties: {
+    version: { const: 1 },
+    fields: { type: 'array', items: { $ref: '#/$defs/field' } },
+    layout: {
+      type: 'object',
+      properties: {
+        columns: { type: 'integer', minimum: 1 },
+        gap: { enum: ['sm', 'md', 'lg'] },
+        labelPosition: { enum: ['top', 'left', 'floating'] },
+        labelWidth: { type: 'string' },
+      },
+      additionalProperties: false,
+    },
+    validation: {
+      type: 'object',
+      properties: {
+        validateOnSubmit: { type: 'boolean' },
+        stopOnFirstError: { type: 'boolean' },
+        scrollToError: { type: 'boolean' },
+      },
+      additionalProperties: false,
+    },
+    persist: {
+      type: 'object',
+      required: ['key'],
+      properties: {
+        key: { type: 'string', minLength: 1 },
+        storage: { enum: ['local', 'session', 'indexeddb'] },
+        ttl: { type: 'number', minimum: 0 },
+        exclude: { type: 'array', items: { type: 'string' } },
+        debounce: { type: 'number', minimum: 0 },
+        restore: { enum: ['prompt', 'auto'] },
+        version: { type: ['string', 'number'] },
+      },
+      additionalProperties: false,
+    },
+    sections: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['fields'],
+        properties: {
+          title: { type: 'string' },
+          description: { type: 'string' },
+          fields: { type: 'array', items: { type: 'string' } },
+          collapsible: { type: 'boolean' },
+          defaultCollapsed: { type: 'boolean' },
+        },
+        additionalProperties: false,
+      },
+    },
+  },
+  additionalProperties: false,
+  $defs: {
+    condition: {
+      oneOf: [
+        {
+          type: 'object',
+          required: ['field'],
+          properties: {
+            field: { type: 'string' },
+            equals: {},
+            notEquals: {},
+            in: { type: 'array' },
+            notIn: { type: 'array' },
+            gt: { type: 'number' },
+            gte: { type: 'number' },
+            lt: { type: 'number' },
+            lte: { type: 'number' },
+            empty: { type: 'boolean' },
+            matches: { type: 'string', format: 'regex' },
+          },
+          additionalProperties: false,
+        },
+        { type: 'object', required: ['all'], properties: { all: { type: 'array', items: conditionRef } }, additionalProperties: false },
+        { type: 'object', required: ['any'], properties: { any: { type: 'array', items: conditionRef } }, additionalProperties: false },
+        { type: 'object', required: ['not'], properties: { not: conditionRef }, additionalProperties: false },
+        { type: 'object', required: ['condition'], properties: { condition: { type: 'string' } }, additionalProperties: false },
+      ],
+    },
+    option: {
+      type: 'object',
+      required: ['value', 'label'],
+      properties: {
+        value: { type: ['string', 'number', 'boolean'] },
+        label: { type: 'string' },
+        disabled: { type: 'boolean' },
+        icon: { type: 'string' },
+        description: { type: 'string' },
+        group: { type: 'string' },
+      },
+    },
+    rule: {
+      type: 'object',
+      required: ['type'],
+      properties: {
+        type: { type: 'string', description: 'Built-in or registered validator name' },
+        message: { type: 'string' },
+        value: {},
+        severity: { enum: SEVERITIES },
+      },
+      additionalProperties: false,
+    },
+    field: {
+      type: 'object',
+      required: ['name', 'type'],
+      properties: {
+        name: { type: 'string', minLength: 1 },
+        type: { type: 'string', description: 'Built-in or registered field type' },
+        label: { type: 'string' },
+        placeholder: { type: 'string' },
+        helpText: { type: 'string' },
+        defaultValue: {},
+        disabled: { type: 'boolean' },
+        readOnly: { type: 'boolean' },
+        required: { type: 'boolean' },
+        className: { type: 'string' },
+        colSpan: { type: 'integer', minimum: 1, maximum: 12 },
+        showWhen: conditionRef,
+        enableWhen: conditionRef,
+        requiredWhen: conditionRef,
+        dependsOn: { type: 'array', items: { type: 'string' } },
+        options: { type: 'array', items: { $ref: '#/$defs/option' } },
+        validation: {
+          type: 'object',
+          properties: {
+            rules: { type: 'array', items: { $ref: '#/$defs/rule' } },
+            validateOnBlur: { type: 'boolean' },
+            validateOnChange: { type: 'boolean' },
+            debounce: { type: 'number', minimum: 0 },
+            showValidState: { type: 'boolean' },
+          },
+          additionalProperties: false,
+        },
+        attributes: {
+          type: 'object',
+          additionalProperties: { type: ['string', 'number', 'boolean'] },
+        },
+      },
+      // Type-specific options (min, max, accept, ...) are plain JSON values
+      additionalProperties: true,
+    },
+  },
+} as const;
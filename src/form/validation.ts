@@ -3,7 +3,25 @@
  * Comprehensive validation with built-in rules and custom validators
  */
 
-import type { ValidationRule, FormField, FieldValidation, ValidatorFn } from '../core/types';
+import type {
+  ValidationRule,
+  FormField,
+  FieldValidation,
+  ValidatorFn,
+  ImageDimensionsRule,
+  DateFieldConfig,
+  ArrayFieldConfig,
+  UniqueCheck,
+  UniqueRule,
+  StandardSchema,
+  FormRule,
+} from '../core/types';
+import { isSignatureEmpty } from './fields/signature';
+import { readImageDimensions } from './fields/image-upload';
+import { parseDateValue, isValidDate, startOfDay, formatDate, matchesDisabledDates } from './fields/calendar';
+import { isFieldVisible, resolveFieldState } from './dependencies';
+import { getPath, formatPath, pathsOverlap } from './paths';
+import { formatMessage, translateMessage } from './messages';
 
 // ============================================================================
 // Built-in Validators
@@ -14,105 +32,146 @@ const URL_REGEX = /^https?:\/\/.+/;
 const PHONE_REGEX = /^[\+]?[(]?[0-9]{3}[)]?[-\s\.]?[0-9]{3}[-\s\.]?[0-9]{4,6}$/;
 const CREDIT_CARD_REGEX = /^(?:4[0-9]{12}(?:[0-9]{3})?|5[1-5][0-9]{14}|3[47][0-9]{13}|6(?:011|5[0-9]{2})[0-9]{12})$/;
 
+/** The rule's own message or the locale's message for `key`, with `{label}` and `params` filled in */
+function ruleMessage(
+  rule: ValidationRule,
+  field: FormField | undefined,
+  key: string,
+  params: Record<string, unknown> = {}
+): string {
+  const values = { label: field?.label ?? field?.name, ...params };
+  return rule.message ? formatMessage(rule.message, values) : translateMessage(key, values);
+}
+
+/** Round to two decimals, for ratios and sizes in messages */
+const round = (value: number) => Math.round(value * 100) / 100;
+
 const builtInValidators: Record<string, ValidatorFn> = {
-  required: (value, rule) => {
-    if (value === null || value === undefined || value === '') return rule.message || 'This field is required';
-    if (Array.isArray(value) && value.length === 0) return rule.message || 'This field is required';
+  required: (value, rule, _formData, field) => {
+    if (value === null || value === undefined || value === '') return ruleMessage(rule, field, 'required');
+    if (Array.isArray(value) && value.length === 0) return ruleMessage(rule, field, 'required');
     return true;
   },
 
-  email: (value, rule) => {
+  email: (value, rule, _formData, field) => {
     if (!value) return true; // Let required handle empty
-    return EMAIL_REGEX.test(value) || rule.message || 'Please enter a valid email address';
+    return EMAIL_REGEX.test(value) || ruleMessage(rule, field, 'email');
   },
 
-  url: (value, rule) => {
+  url: (value, rule, _formData, field) => {
     if (!value) return true;
-    return URL_REGEX.test(value) || rule.message || 'Please enter a valid URL';
+    return URL_REGEX.test(value) || ruleMessage(rule, field, 'url');
   },
 
-  phone: (value, rule) => {
+  phone: (value, rule, _formData, field) => {
     if (!value) return true;
     const cleaned = value.replace(/\s/g, '');
-    return PHONE_REGEX.test(cleaned) || rule.message || 'Please enter a valid phone number';
+    return PHONE_REGEX.test(cleaned) || ruleMessage(rule, field, 'phone');
   },
 
-  creditCard: (value, rule) => {
+  creditCard: (value, rule, _formData, field) => {
     if (!value) return true;
     const cleaned = value.replace(/[\s-]/g, '');
-    return CREDIT_CARD_REGEX.test(cleaned) || rule.message || 'Please enter a valid credit card number';
+    return CREDIT_CARD_REGEX.test(cleaned) || ruleMessage(rule, field, 'creditCard');
   },
 
-  min: (value, rule) => {
+  min: (value, rule, _formData, field) => {
     if (value === null || value === undefined || value === '') return true;
     const num = typeof value === 'number' ? value : parseFloat(value);
     if (isNaN(num)) return true;
-    return num >= rule.value || rule.message || `Value must be at least ${rule.value}`;
+    return num >= rule.value || ruleMessage(rule, field, 'min', { min: rule.value, actual: num });
   },
 
-  max: (value, rule) => {
+  max: (value, rule, _formData, field) => {
     if (value === null || value === undefined || value === '') return true;
     const num = typeof value === 'number' ? value : parseFloat(value);
     if (isNaN(num)) return true;
-    return num <= rule.value || rule.message || `Value must be at most ${rule.value}`;
+    return num <= rule.value || ruleMessage(rule, field, 'max', { max: rule.value, actual: num });
   },
 
-  minLength: (value, rule) => {
+  minLength: (value, rule, _formData, field) => {
     if (!value) return true;
     const len = typeof value === 'string' ? value.length : (Array.isArray(value) ? value.length : 0);
-    return len >= rule.value || rule.message || `Must be at least ${rule.value} characters`;
+    return len >= rule.value || ruleMessage(rule, field, 'minLength', { min: rule.value, actual: len });
   },
 
-  maxLength: (value, rule) => {
+  maxLength: (value, rule, _formData, field) => {
     if (!value) return true;
     const len = typeof value === 'string' ? value.length : (Array.isArray(value) ? value.length : 0);
-    return len <= rule.value || rule.message || `Must be at most ${rule.value} characters`;
+    return len <= rule.value || ruleMessage(rule, field, 'maxLength', { max: rule.value, actual: len });
   },
 
-  pattern: (value, rule) => {
+  pattern: (value, rule, _formData, field) => {
     if (!value) return true;
     const regex = typeof rule.value === 'string' ? new RegExp(rule.value) : rule.value;
-    return regex.test(value) || rule.message || 'Invalid format';
+    return regex.test(value) || ruleMessage(rule, field, 'pattern');
   },
 
-  match: (value, rule, formData) => {
+  match: (value, rule, formData, field) => {
     if (!value) return true;
-    const otherValue = formData[rule.value];
-    return value === otherValue || rule.message || `Values do not match`;
+    const otherValue = getPath(formData, rule.value);
+    return value === otherValue || ruleMessage(rule, field, 'match');
   },
 
-  date: (value, rule) => {
+  json: (value, rule, _formData, field) => {
     if (!value) return true;
-    const date = new Date(value);
-    return !isNaN(date.getTime()) || rule.message || 'Please enter a valid date';
+    try {
+      JSON.parse(value);
+      return true;
+    } catch (error) {
+      return ruleMessage(rule, field, 'json', { error: (error as Error).message });
+    }
   },
 
-  dateRange: (value, rule) => {
+  date: (value, rule, _formData, field) => {
     if (!value) return true;
     const date = new Date(value);
-    if (isNaN(date.getTime())) return rule.message || 'Please enter a valid date';
+    return !isNaN(date.getTime()) || ruleMessage(rule, field, 'date');
+  },
+
+  dateRange: (value, rule, _formData, field) => {
+    if (!value) return true;
+    const { min, max, disabledDates } = rule.value || {};
+    const minDate = parseDateValue(min);
+    const maxDate = parseDateValue(max);
+
+    // Range values are [start, end]; both ends must be set and in order
+    const isRange = Array.isArray(value);
+    const dates = (isRange ? value : [value]).map(parseDateValue);
+    if (isRange && dates.every(d => d === null)) return true;
+    if (isRange && dates.some(d => d === null)) return ruleMessage(rule, field, 'dateIncomplete');
+
+    for (const date of dates as Date[]) {
+      if (!isValidDate(date)) return ruleMessage(rule, field, 'date');
+      // Bounds compare whole days so a datetime on the max day still passes
+      if (isValidDate(minDate) && startOfDay(date) < startOfDay(minDate)) {
+        return ruleMessage(rule, field, 'dateMin', { min: formatDate(minDate, 'YYYY-MM-DD') });
+      }
+      if (isValidDate(maxDate) && startOfDay(date) > startOfDay(maxDate)) {
+        return ruleMessage(rule, field, 'dateMax', { max: formatDate(maxDate, 'YYYY-MM-DD') });
+      }
+      if (matchesDisabledDates(date, disabledDates)) return ruleMessage(rule, field, 'dateDisabled');
+    }
 
-    const { min, max } = rule.value || {};
-    if (min && date < new Date(min)) return rule.message || `Date must be after ${min}`;
-    if (max && date > new Date(max)) return rule.message || `Date must be before ${max}`;
+    if (isRange && dates[0]! > dates[1]!) return ruleMessage(rule, field, 'dateOrder');
     return true;
   },
 
-  fileSize: (value, rule) => {
+  fileSize: (value, rule, _formData, field) => {
     if (!value) return true;
     const files = Array.isArray(value) ? value : [value];
     const maxSize = rule.value;
+    const toMB = (bytes: number) => round(bytes / (1024 * 1024));
 
     for (const file of files) {
       if (file instanceof File && file.size > maxSize) {
-        const sizeMB = (maxSize / (1024 * 1024)).toFixed(1);
-        return rule.message || `File size must be less than ${sizeMB}MB`;
+        return ruleMessage(rule, field, 'fileSize', { max: toMB(maxSize), actual: toMB(file.size) });
       }
     }
     return true;
   },
 
-  fileType: (value, rule) => {
+  fileType: (value, rule, _formData, field) => {
     if (!value) return true;
     const files = Array.isArray(value) ? value : [value];
     const allowedTypes: string[] = Array.isArray(rule.value) ? rule.value : [rule.value];
@@ -128,12 +187,59 @@ const builtInValidators: Record<string, ValidatorFn> = {
           return ext === t.toLowerCase();
         });
 
-        if (!allowed) return rule.message || `File type not allowed. Allowed: ${allowedTypes.join(', ')}`;
+        if (!allowed) {
+          return ruleMessage(rule, field, 'fileType', { allowed: allowedTypes.join(', '), actual: type || ext });
+        }
+      }
+    }
+    return true;
+  },
+
+  dimensions: async (value, rule, _formData, field) => {
+    if (!value) return true;
+    // Other file types are left to the fileType rule
+    const sources = (Array.isArray(value) ? value : [value]).filter(
+      (v): v is Blob | string => (v instanceof Blob && (!v.type || v.type.startsWith('image/')))
+        || (typeof v === 'string' && v.startsWith('data:image/'))
+    );
+    const {
+      minWidth, maxWidth, minHeight, maxHeight, aspectRatio, minAspectRatio, maxAspectRatio,
+    } = (rule.value || {}) as ImageDimensionsRule;
+
+    for (const source of sources) {
+      let size: { width: number; height: number };
+      try {
+        size = await imageDimensions(source);
+      } catch {
+        return ruleMessage(rule, field, 'imageUnreadable');
+      }
+
+      const { width, height } = size;
+      const ratio = round(width / height);
+      if (minWidth && width < minWidth) return ruleMessage(rule, field, 'imageMinWidth', { min: minWidth, actual: width });
+      if (maxWidth && width > maxWidth) return ruleMessage(rule, field, 'imageMaxWidth', { max: maxWidth, actual: width });
+      if (minHeight && height < minHeight) {
+        return ruleMessage(rule, field, 'imageMinHeight', { min: minHeight, actual: height });
+      }
+      if (maxHeight && height > maxHeight) {
+        return ruleMessage(rule, field, 'imageMaxHeight', { max: maxHeight, actual: height });
+      }
+      // Allow a pixel of rounding error from resizing
+      if (aspectRatio && Math.abs(width - height * aspectRatio) > 1) {
+        return ruleMessage(rule, field, 'aspectRatio', { ratio: round(aspectRatio), actual: ratio });
+      }
+      if (minAspectRatio && width / height < minAspectRatio) {
+        return ruleMessage(rule, field, 'minAspectRatio', { min: round(minAspectRatio), actual: ratio });
+      }
+      if (maxAspectRatio && width / height > maxAspectRatio) {
+        return ruleMessage(rule, field, 'maxAspectRatio', { max: round(maxAspectRatio), actual: ratio });
       }
     }
     return true;
   },
 
+  unique: (value, rule, formData, field) => checkUnique(value, rule, formData, field),
+
   custom: async (value, rule, formData) => {
     if (rule.validator) {
       return await rule.validator(value, formData);
@@ -142,6 +248,93 @@ const builtInValidators: Record<string, ValidatorFn> = {
   },
 };
 
+// ============================================================================
+// Async Rule Helpers
+// ============================================================================
+
+/** Decoded sizes of image files, so revalidating does not decode them again */
+const dimensionCache = new WeakMap<Blob, Promise<{ width: number; height: number }>>();
+
+function imageDimensions(source: Blob | string): Promise<{ width: number; height: number }> {
+  if (typeof source === 'string') return readImageDimensions(source);
+
+  let size = dimensionCache.get(source);
+  if (!size) {
+    size = readImageDimensions(source);
+    // A failed decode may succeed on retry, so it is not kept
+    size.catch(() => dimensionCache.delete(source));
+    dimensionCache.set(source, size);
+  }
+  return size;
+}
+
+interface UniqueState {
+  results: Map<string, boolean | string>;
+  pending: { key: string; controller: AbortController; result: Promise<boolean | string> } | null;
+}
+
+/** Cached results and the running check, per check function */
+const uniqueStates = new WeakMap<UniqueCheck, UniqueState>();
+
+async function checkUnique(
+  value: any,
+  rule: ValidationRule,
+  formData: Record<string, any>,
+  field?: FormField
+): Promise<boolean | string> {
+  if (value === null || value === undefined || value === '') return true;
+
+  const options: UniqueRule | undefined = typeof rule.value === 'function' ? { check: rule.value } : rule.value;
+  if (!options?.check) {
+    console.warn('[SweetAlert++] The unique rule needs a check function as its value');
+    return true;
+  }
+
+  let state = uniqueStates.get(options.check);
+  if (!state) {
+    state = { results: new Map(), pending: null };
+    uniqueStates.set(options.check, state);
+  }
+
+  const key = typeof value === 'string' ? value : JSON.stringify(value);
+  const cached = state.results.get(key);
+  if (cached !== undefined) return availability(cached, rule, field);
+
+  let pending = state.pending;
+  if (pending?.key !== key) {
+    // A check for a newer value supersedes the one still running
+    state.pending?.controller.abort();
+    const controller = new AbortController();
+    const started = { key, controller, result: options.check(value, controller.signal, formData) };
+    state.pending = pending = started;
+
+    const current = state;
+    started.result
+      .then((available) => {
+        if (options.cache !== false) current.results.set(key, available);
+      }, () => {})
+      .finally(() => {
+        if (current.pending === started) current.pending = null;
+      });
+  }
+
+  try {
+    return availability(await pending.result, rule, field);
+  } catch {
+    // A superseded check's result no longer matters
+    if (pending.controller.signal.aborted) return true;
+    return ruleMessage(rule, field, 'uniqueFailed');
+  }
+}
+
+function availability(available: boolean | string, rule: ValidationRule, field?: FormField): boolean | string {
+  if (available === true) return true;
+  return typeof available === 'string' ? available : ruleMessage(rule, field, 'uniqueTaken');
+}
+
+// Field types backed by the calendar picker
+const DATE_FIELD_TYPES = ['date', 'datetime', 'daterange', 'month', 'week'];
+
 // Custom validator registry
 const customValidators = new Map<string, ValidatorFn>();
 
@@ -159,10 +352,26 @@ export function unregisterValidator(name: string): void {
   customValidators.delete(name);
 }
 
+/**
+ * Check whether a validator is built in or registered
+ */
+export function hasValidator(name: string): boolean {
+  return customValidators.has(name) || name in builtInValidators;
+}
+
 // ============================================================================
 // Validation Execution
 // ============================================================================
 
+export interface FieldMessages {
+  /** First failed error rule, which blocks submission */
+  error: string | null;
+  /** First failed warning rule */
+  warning: string | null;
+  /** First failed info rule */
+  info: string | null;
+}
+
 /**
  * Validate a single field value
  */
@@ -171,21 +380,61 @@ export async function validateField(
   field: FormField,
   formData: Record<string, any>
 ): Promise<string | null> {
+  return (await validateFieldMessages(value, field, formData)).error;
+}
+
+/**
+ * Validate a single field value, collecting warnings and info besides the error
+ */
+export async function validateFieldMessages(
+  value: any,
+  field: FormField,
+  formData: Record<string, any>
+): Promise<FieldMessages> {
+  const failed = (error: string): FieldMessages => ({ error, warning: null, info: null });
+
   // Check required first
   if (field.required) {
-    const result = await runValidator('required', value, { type: 'required' }, formData);
-    if (typeof result === 'string') return result;
+    // A signature pad holding no ink counts as empty
+    const requiredValue = field.type === 'signature' && isSignatureEmpty(value) ? null : value;
+    const result = await runValidator('required', requiredValue, { type: 'required' }, formData, field);
+    if (typeof result === 'string') return failed(result);
+  }
+
+  // Date pickers enforce their own bounds and disabled dates
+  if (DATE_FIELD_TYPES.includes(field.type)) {
+    const { minDate, maxDate, disabledDates } = field as DateFieldConfig;
+    const rule: ValidationRule = { type: 'dateRange', value: { min: minDate, max: maxDate, disabledDates } };
+    const result = await runValidator('dateRange', value, rule, formData, field);
+    if (typeof result === 'string') return failed(result);
+  }
+
+  // Array fields enforce their item counts
+  if (field.type === 'array' && Array.isArray(value)) {
+    const { minItems, maxItems } = field as ArrayFieldConfig;
+    const label = field.label ?? field.name;
+    if (minItems !== undefined && value.length < minItems) {
+      return failed(translateMessage('minItems', { label, min: minItems, actual: value.length }));
+    }
+    if (maxItems !== undefined && value.length > maxItems) {
+      return failed(translateMessage('maxItems', { label, max: maxItems, actual: value.length }));
+    }
   }
 
-  // Check validation rules
+  // Check validation rules; warnings and info keep checking for a later error
+  const messages: FieldMessages = { error: null, warning: null, info: null };
   if (field.validation?.rules) {
     for (const rule of field.validation.rules) {
-      const result = await runValidator(rule.type, value, rule, formData);
-      if (typeof result === 'string') return result;
+      const result = await runValidator(rule.type, value, rule, formData, field);
+      if (typeof result !== 'string') continue;
+
+      const severity = rule.severity ?? 'error';
+      if (severity === 'error') return failed(result);
+      messages[severity] ??= result;
     }
   }
 
-  return null;
+  return messages;
 }
 
 /**
@@ -195,18 +444,19 @@ async function runValidator(
   type: string,
   value: any,
   rule: ValidationRule,
-  formData: Record<string, any>
+  formData: Record<string, any>,
+  field?: FormField
 ): Promise<boolean | string> {
   // Check custom validators first
   const customValidator = customValidators.get(type);
   if (customValidator) {
-    return await customValidator(value, rule, formData);
+    return await customValidator(value, rule, formData, field);
   }
 
   // Check built-in validators
   const builtInValidator = builtInValidators[type];
   if (builtInValidator) {
-    return await builtInValidator(value, rule, formData);
+    return await builtInValidator(value, rule, formData, field);
   }
 
   // Unknown validator type - skip
@@ -214,15 +464,27 @@ async function runValidator(
   return true;
 }
 
+export interface FormValidationResult {
+  /** False when any error-severity rule failed */
+  valid: boolean;
+  errors: Record<string, string>;
+  /** Failed warning rules, which do not block submission */
+  warnings: Record<string, string>;
+  /** Failed info rules */
+  info: Record<string, string>;
+}
+
 /**
  * Validate all fields in a form
  */
 export async function validateForm(
   formData: Record<string, any>,
   fields: FormField[],
-  options?: { stopOnFirstError?: boolean }
-): Promise<{ valid: boolean; errors: Record<string, string> }> {
+  options?: { stopOnFirstError?: boolean; schema?: StandardSchema; rules?: FormRule[] }
+): Promise<FormValidationResult> {
   const errors: Record<string, string> = {};
+  const warnings: Record<string, string> = {};
+  const info: Record<string, string> = {};
   let valid = true;
 
   for (const field of fields) {
@@ -230,174 +492,116 @@ export async function validateForm(
     if (['divider', 'heading', 'paragraph'].includes(field.type)) continue;
 
     // Check conditional visibility
-    if (field.showWhen && !field.showWhen(formData)) continue;
+    if (!isFieldVisible(field, formData)) continue;
 
-    const value = formData[field.name];
-    const error = await validateField(value, field, formData);
+    // Skip fields disabled by enableWhen; requiredWhen applies to the rest
+    const effective = resolveFieldState(field, formData);
+    if (field.enableWhen && effective.disabled) continue;
 
-    if (error) {
-      errors[field.name] = error;
+    const value = getPath(formData, field.name);
+    const messages = await validateFieldMessages(value, effective, formData);
+    if (messages.warning) warnings[field.name] = messages.warning;
+    if (messages.info) info[field.name] = messages.info;
+
+    if (messages.error) {
+      errors[field.name] = messages.error;
       valid = false;
 
       if (options?.stopOnFirstError) break;
     }
-  }
-
-  return { valid, errors };
-}
-
-// ============================================================================
-// Input Masking
-// ============================================================================
-
-export interface MaskOptions {
-  pattern: string;
-  placeholder?: string;
-}
-
-const MASK_TOKENS: Record<string, RegExp> = {
-  '9': /[0-9]/,
-  'a': /[a-zA-Z]/,
-  '*': /[a-zA-Z0-9]/,
-  'A': /[A-Z]/,
-};
 
-/**
- * Apply mask to input value
- */
-export function applyMask(value: string, pattern: string, placeholder = '_'): string {
-  if (!value || !pattern) return value;
-
-  let result = '';
-  let valueIndex = 0;
-
-  for (let i = 0; i < pattern.length && valueIndex < value.length; i++) {
-    const patternChar = pattern[i];
-    const tokenRegex = MASK_TOKENS[patternChar];
-
-    if (tokenRegex) {
-      // Find next matching character from value
-      while (valueIndex < value.length) {
-        const valueChar = value[valueIndex++];
-        if (tokenRegex.test(valueChar)) {
-          result += valueChar;
-          break;
+    // Validate each array item against the item fields, keyed as `name[index].field`
+    if (field.type === 'array' && Array.isArray(value)) {
+      const itemFields = (field as ArrayFieldConfig).fields;
+      for (let i = 0; i < value.length; i++) {
+        // The schema and cross-field rules describe the whole form, so they run once below
+        const itemResult = await validateForm(value[i] ?? {}, itemFields, {
+          stopOnFirstError: options?.stopOnFirstError,
+        });
+        for (const [key, message] of Object.entries(itemResult.errors)) {
+          errors[`${field.name}[${i}].${key}`] = message;
+          valid = false;
         }
+        for (const [key, message] of Object.entries(itemResult.warnings)) {
+          warnings[`${field.name}[${i}].${key}`] = message;
+        }
+        for (const [key, message] of Object.entries(itemResult.info)) {
+          info[`${field.name}[${i}].${key}`] = message;
+        }
+        if (!itemResult.valid && options?.stopOnFirstError) break;
       }
-    } else {
-      // Literal character in pattern
-      result += patternChar;
-      // Skip if value has the same literal
-      if (value[valueIndex] === patternChar) {
-        valueIndex++;
-      }
+      if (!valid && options?.stopOnFirstError) break;
     }
   }
 
-  return result;
-}
-
-/**
- * Remove mask from value (get raw value)
- */
-export function unmask(value: string, pattern: string): string {
-  if (!value || !pattern) return value;
-
-  let result = '';
-  let valueIndex = 0;
-
-  for (let i = 0; i < pattern.length && valueIndex < value.length; i++) {
-    const patternChar = pattern[i];
-    const tokenRegex = MASK_TOKENS[patternChar];
+  // Schema issues fill in paths the field rules passed
+  if (options?.schema && (valid || !options.stopOnFirstError)) {
+    const schemaErrors = await validateWithSchema(formData, options.schema);
+    for (const [path, message] of Object.entries(schemaErrors)) {
+      if (errors[path] || !isPathValidated(path, fields, formData)) continue;
+      errors[path] = message;
+      valid = false;
+    }
+  }
 
-    if (tokenRegex) {
-      const valueChar = value[valueIndex++];
-      if (tokenRegex.test(valueChar)) {
-        result += valueChar;
-      }
-    } else {
-      // Skip literal characters
-      if (value[valueIndex] === patternChar) {
-        valueIndex++;
+  // Cross-field rules likewise
+  if (options?.rules && (valid || !options.stopOnFirstError)) {
+    for (const rule of options.rules) {
+      for (const [path, message] of Object.entries(await runFormRule(rule, formData))) {
+        if (errors[path] || !isPathValidated(path, fields, formData)) continue;
+        errors[path] = message;
+        valid = false;
       }
     }
   }
 
-  return result;
+  return { valid, errors, warnings, info };
 }
 
 /**
- * Create a masked input handler
+ * Whether errors at a path count: hidden and disabled fields are not validated
  */
-export function createMaskedInput(
-  input: HTMLInputElement,
-  pattern: string,
-  placeholder = '_'
-): { destroy: () => void } {
-  let previousValue = '';
-
-  function handleInput(e: Event) {
-    const target = e.target as HTMLInputElement;
-    const rawValue = unmask(target.value, pattern);
-    const maskedValue = applyMask(rawValue, pattern, placeholder);
-
-    if (maskedValue !== target.value) {
-      const cursorPos = target.selectionStart || 0;
-      target.value = maskedValue;
-
-      // Adjust cursor position
-      let newPos = cursorPos;
-      if (maskedValue.length > previousValue.length) {
-        // Find next input position
-        for (let i = cursorPos; i < pattern.length; i++) {
-          if (MASK_TOKENS[pattern[i]]) {
-            newPos = i + 1;
-            break;
-          }
-        }
-      }
-
-      target.setSelectionRange(newPos, newPos);
-    }
-
-    previousValue = maskedValue;
-  }
-
-  function handleKeyDown(e: KeyboardEvent) {
-    const target = e.target as HTMLInputElement;
-    const pos = target.selectionStart || 0;
+export function isPathValidated(path: string, fields: FormField[], formData: Record<string, any>): boolean {
+  const owner = path ? fields.find(f => f.name && pathsOverlap(f.name, path)) : undefined;
+  if (!owner) return true;
+  return isFieldVisible(owner, formData) && !(owner.enableWhen && resolveFieldState(owner, formData).disabled);
+}
 
-    // Handle backspace
-    if (e.key === 'Backspace' && pos > 0) {
-      let newPos = pos - 1;
-      // Skip literal characters
-      while (newPos > 0 && !MASK_TOKENS[pattern[newPos]]) {
-        newPos--;
-      }
-      if (newPos !== pos - 1) {
-        e.preventDefault();
-        const value = target.value;
-        target.value = value.slice(0, newPos) + placeholder + value.slice(pos);
-        target.setSelectionRange(newPos, newPos);
-      }
-    }
-  }
+/**
+ * Run a cross-field rule, returning its errors keyed by field path ('' for the whole form)
+ */
+export async function runFormRule(rule: FormRule, formData: Record<string, any>): Promise<Record<string, string>> {
+  const result = await rule.validate(formData);
+  if (result === undefined || result === null || result === true) return {};
+  if (typeof result === 'object') return { ...result };
+
+  const message = typeof result === 'string' ? result : rule.message || translateMessage('formRule');
+  const targets = rule.target !== undefined ? [rule.target].flat() : rule.dependsOn ?? [];
+  if (targets.length === 0) return { '': message };
+  return Object.fromEntries(targets.map(target => [target, message]));
+}
 
-  input.addEventListener('input', handleInput);
-  input.addEventListener('keydown', handleKeyDown);
+/**
+ * Validate data with a Standard Schema, keeping the first message per field path.
+ * Issues without a path are keyed by ''.
+ */
+export async function validateWithSchema(
+  data: Record<string, any>,
+  schema: StandardSchema
+): Promise<Record<string, string>> {
+  const result = await schema['~standard'].validate(data);
+  const errors: Record<string, string> = {};
 
-  // Initialize with mask
-  if (input.value) {
-    input.value = applyMask(input.value, pattern, placeholder);
-    previousValue = input.value;
+  for (const issue of result.issues ?? []) {
+    const segments = (issue.path ?? []).map((segment) => {
+      const key = typeof segment === 'object' ? segment.key : segment;
+      return typeof key === 'number' ? key : String(key);
+    });
+    const path = formatPath(segments);
+    if (!(path in errors)) errors[path] = issue.message;
   }
 
-  return {
-    destroy: () => {
-      input.removeEventListener('input', handleInput);
-      input.removeEventListener('keydown', handleKeyDown);
-    },
-  };
+  return errors;
 }
 
 // ============================================================================
@@ -54,6 +54,35 @@ export type {
   ValidationRule,
   FieldValidation,
   ValidatorFn,
+  SignaturePoint,
+  SignatureStroke,
+  FieldCondition,
+  FieldConditionInput,
+  DependentOptionsConfig,
+  ArrayFieldConfig,
+  JsonFormSchema,
+  JsonFormField,
+  JsonValidationRule,
+  FormPersistConfig,
+  DraftStorage,
+  DiscardConfirmOptions,
+  SubmitHelpers,
+  SubmitHandler,
+  ImageOutputOptions,
+  ImageDimensionsRule,
+  UniqueCheck,
+  UniqueRule,
+  FormRule,
+  FormRuleResult,
+  ValidationSeverity,
+  ValidationMessages,
+  StandardSchema,
+  StandardSchemaIssue,
+  StandardSchemaResult,
+  MaskConfig,
+  MaskPattern,
+  MaskTokenDefinition,
+  NumberMaskOptions,
 } from './core/types';
 
 // ============================================================================
@@ -137,20 +166,40 @@ export {
 
 export {
   validateField,
+  validateFieldMessages,
   validateForm,
   registerValidator,
   unregisterValidator,
-  applyMask,
-  unmask,
-  createMaskedInput,
+  hasValidator,
   createDebouncedValidator,
+  validateWithSchema,
 } from './form/validation';
+export type { FieldMessages, FormValidationResult } from './form/validation';
+
+export { schema } from './form/schema-builder';
+export type { SchemaType, StringSchema, NumberSchema, ArraySchema, Infer } from './form/schema-builder';
+
+export { formatMessage, translateMessage, registerMessages } from './form/messages';
+
+export { applyMask, unmask, createMaskedInput } from './form/mask';
+
+export { isSignatureEmpty, signatureToSVG } from './form/fields/signature';
+export { readImageDimensions } from './form/fields/image-upload';
+export { evaluateCondition, findDependencyCycle, registerCondition, unregisterCondition } from './form/dependencies';
+export { loadSchema, serializeSchema, formSchemaJSONSchema } from './form/schema-json';
+export { getPath, setPath } from './form/paths';
+export { createIndexedDBStorage, clearFormDraft } from './form/persistence';
+export { parseMarkdown } from './form/markdown-parser';
+export { highlight, registerGrammar } from './form/code-highlight';
+export type { Grammar, TokenRule } from './form/code-highlight';
 
 export type {
   FormState,
   FormController,
 } from './form/form-renderer';
 
+export type { SerializedSchema, SchemaSerializationIssue } from './form/schema-json';
+
 // ============================================================================
 // Plugin System
 // ============================================================================
@@ -160,6 +209,11 @@ export {
   unuse as unusePlugin,
   isPluginInstalled,
   getInstalledPlugins,
+  getPluginConfig,
+  setPluginConfig,
+  getPreset,
+  preset,
+  presetHelper,
   plugins,
   analyticsPlugin,
   soundPlugin,
@@ -175,7 +229,17 @@ export type {
   AfterOpenHook,
   BeforeCloseHook,
   AfterCloseHook,
+  HookOptions,
   PresetConfig,
+  PresetRegistry,
+  PresetInput,
+  PresetValue,
+  PresetHelper,
+  AnalyticsStats,
+  AnalyticsPluginConfig,
+  SoundPluginConfig,
+  ConfirmOnClosePluginConfig,
+  KeyboardPluginConfig,
 } from './plugins/plugin-system';
 
 // ============================================================================
@@ -227,7 +291,7 @@ import { modal } from './core/modal';
 import { toast } from './toast/toast';
 import { alert, confirm, prompt, success, error, warning, info, loading, form } from './presets';
 import { queue } from './queue';
-import { use as usePlugin, plugins } from './plugins/plugin-system';
+import { use as usePlugin, plugins, preset } from './plugins/plugin-system';
 import { formPresets } from './form/form-renderer';
 import {
   setTheme,
@@ -263,6 +327,9 @@ const SweetAlertPlusPlus = {
   loading,
   form,
 
+  // Plugin presets
+  preset,
+
   // Queue
   queue,
 
@@ -0,0 +1,145 @@
+/**
+ * Plugin Hook Registry
+ * Global lifecycle hooks registered by plugins and executed by the modal core
+ */
+
+import type {
+  ModalOptions,
+  ModalResult,
+  ModalInstance,
+  BeforeOpenHook,
+  AfterOpenHook,
+  BeforeCloseHook,
+  AfterCloseHook,
+  HookOptions,
+} from '../core/types';
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+interface RegisteredHook<H> {
+  hook: H;
+  priority: number;
+  /** Name of the plugin that registered the hook */
+  plugin: string;
+}
+
+export const beforeOpenHooks: RegisteredHook<BeforeOpenHook>[] = [];
+export const afterOpenHooks: RegisteredHook<AfterOpenHook>[] = [];
+export const beforeCloseHooks: RegisteredHook<BeforeCloseHook>[] = [];
+export const afterCloseHooks: RegisteredHook<AfterCloseHook>[] = [];
+
+/**
+ * Insert a hook keeping the list sorted by descending priority
+ */
+export function addHook<H>(
+  list: RegisteredHook<H>[],
+  hook: H,
+  plugin: string,
+  options?: HookOptions
+): () => void {
+  const entry: RegisteredHook<H> = { hook, priority: options?.priority ?? 0, plugin };
+
+  // Insert after every hook of equal or higher priority so registration order is stable
+  const index = list.findIndex(e => e.priority < entry.priority);
+  list.splice(index === -1 ? list.length : index, 0, entry);
+
+  return () => {
+    const i = list.indexOf(entry);
+    if (i > -1) list.splice(i, 1);
+  };
+}
+
+/**
+ * Remove every hook registered by a plugin
+ */
+export function removePluginHooks(plugin: string): void {
+  for (const list of [beforeOpenHooks, afterOpenHooks, beforeCloseHooks, afterCloseHooks] as RegisteredHook<unknown>[][]) {
+    for (let i = list.length - 1; i >= 0; i--) {
+      if (list[i].plugin === plugin) list.splice(i, 1);
+    }
+  }
+}
+
+/**
+ * Report a failing hook without interrupting the modal lifecycle
+ */
+function reportHookError(phase: string, plugin: string, error: unknown): void {
+  console.error(`[SweetAlert++] Plugin "${plugin}" threw in ${phase} hook:`, error);
+}
+
+// ============================================================================
+// Hook Execution (used internally by modal)
+// ============================================================================
+//
+// Pipeline order relative to the per-modal `hooks` option:
+//   beforeOpen:  plugin hooks -> options.hooks.onBeforeOpen
+//   afterOpen:   options.hooks.onAfterOpen -> plugin hooks
+//   beforeClose: options.hooks.onBeforeClose -> plugin hooks
+//   afterClose:  options.hooks.onClose -> options.hooks.onAfterClose -> plugin hooks
+//
+// Within a phase, plugin hooks run by descending priority. A hook that throws
+// is reported and skipped so it can never break the dialog.
+
+/**
+ * Execute all beforeOpen hooks
+ * @returns The (possibly rewritten) options, or false if a hook cancelled the modal
+ */
+export async function executeBeforeOpenHooks(options: ModalOptions): Promise<ModalOptions | false> {
+  let currentOptions = options;
+
+  for (const { hook, plugin } of [...beforeOpenHooks]) {
+    try {
+      const result = await hook(currentOptions);
+      if (result === false) return false;
+      if (result) currentOptions = result;
+    } catch (error) {
+      reportHookError('beforeOpen', plugin, error);
+    }
+  }
+
+  return currentOptions;
+}
+
+/**
+ * Execute all afterOpen hooks
+ */
+export function executeAfterOpenHooks(instance: ModalInstance): void {
+  for (const { hook, plugin } of [...afterOpenHooks]) {
+    try {
+      hook(instance);
+    } catch (error) {
+      reportHookError('afterOpen', plugin, error);
+    }
+  }
+}
+
+/**
+ * Execute all beforeClose hooks
+ * @returns false if any hook vetoed the close
+ */
+export async function executeBeforeCloseHooks(instance: ModalInstance, result: ModalResult): Promise<boolean> {
+  for (const { hook, plugin } of [...beforeCloseHooks]) {
+    try {
+      const shouldClose = await hook(instance, result);
+      if (shouldClose === false) return false;
+    } catch (error) {
+      reportHookError('beforeClose', plugin, error);
+    }
+  }
+  return true;
+}
+
+/**
+ * Execute all afterClose hooks
+ */
+export function executeAfterCloseHooks(result: ModalResult): void {
+  for (const { hook, plugin } of [...afterCloseHooks]) {
+    try {
+      hook(result);
+    } catch (error) {
+      reportHookError('afterClose', plugin, error);
+    }
+  }
+}
@@ -7,7 +7,11 @@ export {
   unuse,
   isPluginInstalled,
   getInstalledPlugins,
+  getPluginConfig,
+  setPluginConfig,
   getPreset,
+  preset,
+  presetHelper,
   executeBeforeOpenHooks,
   executeAfterOpenHooks,
   executeBeforeCloseHooks,
@@ -29,5 +33,15 @@ export type {
   AfterOpenHook,
   BeforeCloseHook,
   AfterCloseHook,
+  HookOptions,
   PresetConfig,
+  PresetRegistry,
+  PresetInput,
+  PresetValue,
+  PresetHelper,
+  AnalyticsStats,
+  AnalyticsPluginConfig,
+  SoundPluginConfig,
+  ConfirmOnClosePluginConfig,
+  KeyboardPluginConfig,
 } from './plugin-system';
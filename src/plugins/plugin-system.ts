@@ -3,160 +3,197 @@
  * Extensible plugin architecture for custom functionality
  */
 
-import type { ModalOptions, ModalResult, ModalInstance, FormField, ValidationRule } from '../core/types';
+import type {
+  ModalOptions,
+  ModalResult,
+  ModalInstance,
+  LifecycleHooks,
+  Plugin,
+  PluginContext,
+  PresetConfig,
+  PresetHelper,
+  PresetInput,
+  PresetValue,
+} from '../core/types';
+import { modal, getActiveModals, getGlobalConfig } from '../core/modal';
 import { registerValidator, unregisterValidator } from '../form/validation';
-import { registerFieldRenderer } from '../form/field-renderers';
+import { registerFieldRenderer, unregisterFieldRenderer } from '../form/field-renderers';
+import {
+  addHook,
+  removePluginHooks,
+  beforeOpenHooks,
+  afterOpenHooks,
+  beforeCloseHooks,
+  afterCloseHooks,
+} from './hooks';
 
 // ============================================================================
 // Plugin Types
 // ============================================================================
 
-export interface PluginContext {
-  /** Register a custom field type renderer */
-  registerFieldType: (type: string, renderer: FieldRenderer) => void;
+export type {
+  Plugin,
+  PluginContext,
+  FieldRenderer,
+  ValidatorFn,
+  BeforeOpenHook,
+  AfterOpenHook,
+  BeforeCloseHook,
+  AfterCloseHook,
+  HookOptions,
+  PresetConfig,
+  PresetRegistry,
+  PresetInput,
+  PresetValue,
+  PresetHelper,
+} from '../core/types';
 
-  /** Register a custom validator */
-  registerValidator: (name: string, validator: ValidatorFn) => void;
+// ============================================================================
+// Plugin Registry
+// ============================================================================
 
-  /** Unregister a validator */
-  unregisterValidator: (name: string) => void;
+interface PluginResources {
+  presets: Set<string>;
+  validators: Set<string>;
+  fieldTypes: Set<string>;
+}
 
-  /** Register a hook that runs before modal opens */
-  registerBeforeOpen: (hook: BeforeOpenHook) => () => void;
+const installedPlugins = new Map<string, Plugin<any>>();
+const pluginConfigs = new Map<string, Record<string, any>>();
+const pluginResources = new Map<string, PluginResources>();
+const customPresets = new Map<string, PresetConfig>();
 
-  /** Register a hook that runs after modal opens */
-  registerAfterOpen: (hook: AfterOpenHook) => () => void;
+/** A lifecycle hook of any key */
+type AnyHook = (...args: any[]) => any;
 
-  /** Register a hook that runs before modal closes */
-  registerBeforeClose: (hook: BeforeCloseHook) => () => void;
+/**
+ * Chain a plugin-provided lifecycle hook after the modal's own hook
+ */
+function composeLifecycleHook<K extends keyof LifecycleHooks>(
+  key: K,
+  existing: LifecycleHooks[K],
+  added: NonNullable<LifecycleHooks[K]>
+): NonNullable<LifecycleHooks[K]>;
+function composeLifecycleHook(key: keyof LifecycleHooks, existing: AnyHook | undefined, added: AnyHook): AnyHook {
+  if (!existing) return added;
+
+  switch (key) {
+    // Veto hooks: either side returning false cancels
+    case 'onBeforeOpen':
+    case 'onBeforeClose':
+      return async (...args) => {
+        if (await existing(...args) === false) return false;
+        return added(...args);
+      };
 
-  /** Register a hook that runs after modal closes */
-  registerAfterClose: (hook: AfterCloseHook) => () => void;
+    // Transform hook: the added hook receives the modal's transformed value
+    case 'onBeforeConfirm':
+      return async (value) => added(await existing(value));
 
-  /** Register a custom preset */
-  registerPreset: (name: string, preset: PresetConfig) => void;
+    default:
+      return (...args) => {
+        existing(...args);
+        added(...args);
+      };
+  }
+}
 
-  /** Unregister a preset */
-  unregisterPreset: (name: string) => void;
+/**
+ * Create the plugin context
+ */
+function createPluginContext<TConfig extends object>(plugin: Plugin<TConfig>): PluginContext<TConfig> {
+  const resources = pluginResources.get(plugin.name)!;
+  const lifecycleHooks = new Map<AnyHook, () => void>();
 
-  /** Get global configuration */
-  getConfig: () => Record<string, any>;
+  return {
+    pluginName: plugin.name,
 
-  /** Set global configuration */
-  setConfig: (config: Record<string, any>) => void;
-}
+    registerBeforeOpen: (hook, options) => addHook(beforeOpenHooks, hook, plugin.name, options),
 
-export type FieldRenderer = (
-  field: FormField,
-  value: any,
-  onChange: (value: any) => void,
-  error?: string
-) => HTMLElement;
-
-export type ValidatorFn = (
-  value: any,
-  rule: ValidationRule,
-  formData: Record<string, any>
-) => boolean | string | Promise<boolean | string>;
-
-export type BeforeOpenHook = (options: ModalOptions) => ModalOptions | false | Promise<ModalOptions | false>;
-export type AfterOpenHook = (instance: ModalInstance) => void;
-export type BeforeCloseHook = (instance: ModalInstance, result: ModalResult) => boolean | Promise<boolean>;
-export type AfterCloseHook = (result: ModalResult) => void;
-
-export interface PresetConfig {
-  /** Base options for this preset */
-  options: Partial<ModalOptions>;
-  /** Transform function for customizing options */
-  transform?: (input: any) => Partial<ModalOptions>;
-}
+    registerAfterOpen: (hook, options) => addHook(afterOpenHooks, hook, plugin.name, options),
 
-export interface Plugin {
-  /** Unique plugin name */
-  name: string;
-  /** Plugin version */
-  version?: string;
-  /** Initialize plugin with context */
-  install: (context: PluginContext) => void | Promise<void>;
-  /** Cleanup when plugin is uninstalled */
-  uninstall?: () => void | Promise<void>;
-}
+    registerBeforeClose: (hook, options) => addHook(beforeCloseHooks, hook, plugin.name, options),
 
-// ============================================================================
-// Plugin Registry
-// ============================================================================
+    registerAfterClose: (hook, options) => addHook(afterCloseHooks, hook, plugin.name, options),
 
-const installedPlugins = new Map<string, Plugin>();
-const beforeOpenHooks: BeforeOpenHook[] = [];
-const afterOpenHooks: AfterOpenHook[] = [];
-const beforeCloseHooks: BeforeCloseHook[] = [];
-const afterCloseHooks: AfterCloseHook[] = [];
-const customPresets = new Map<string, PresetConfig>();
-let globalPluginConfig: Record<string, any> = {};
+    addHook: (key, fn, options) => {
+      const unregister = addHook(beforeOpenHooks, (modalOptions) => ({
+        ...modalOptions,
+        hooks: {
+          ...modalOptions.hooks,
+          [key]: composeLifecycleHook(key, modalOptions.hooks?.[key], fn),
+        },
+      }), plugin.name, options);
+
+      lifecycleHooks.set(fn, unregister);
+      return () => {
+        unregister();
+        lifecycleHooks.delete(fn);
+      };
+    },
+
+    removeHook: (_key, fn) => {
+      lifecycleHooks.get(fn)?.();
+      lifecycleHooks.delete(fn);
+    },
+
+    registerPreset: (name, config) => {
+      customPresets.set(name, config);
+      resources.presets.add(name);
+      return (input) => preset(name, input);
+    },
+
+    unregisterPreset: (name) => {
+      customPresets.delete(name);
+      resources.presets.delete(name);
+    },
 
-/**
- * Create the plugin context
- */
-function createPluginContext(): PluginContext {
-  return {
     registerFieldType: (type, renderer) => {
       registerFieldRenderer(type, renderer);
+      resources.fieldTypes.add(type);
     },
 
     registerValidator: (name, validator) => {
       registerValidator(name, validator);
+      resources.validators.add(name);
     },
 
     unregisterValidator: (name) => {
       unregisterValidator(name);
+      resources.validators.delete(name);
     },
 
-    registerBeforeOpen: (hook) => {
-      beforeOpenHooks.push(hook);
-      return () => {
-        const index = beforeOpenHooks.indexOf(hook);
-        if (index > -1) beforeOpenHooks.splice(index, 1);
-      };
-    },
+    getConfig: () => ({ ...pluginConfigs.get(plugin.name) }) as TConfig,
 
-    registerAfterOpen: (hook) => {
-      afterOpenHooks.push(hook);
-      return () => {
-        const index = afterOpenHooks.indexOf(hook);
-        if (index > -1) afterOpenHooks.splice(index, 1);
-      };
+    setConfig: (config) => {
+      setPluginConfig(plugin.name, config);
     },
 
-    registerBeforeClose: (hook) => {
-      beforeCloseHooks.push(hook);
-      return () => {
-        const index = beforeCloseHooks.indexOf(hook);
-        if (index > -1) beforeCloseHooks.splice(index, 1);
-      };
-    },
+    getPluginConfig,
 
-    registerAfterClose: (hook) => {
-      afterCloseHooks.push(hook);
-      return () => {
-        const index = afterCloseHooks.indexOf(hook);
-        if (index > -1) afterCloseHooks.splice(index, 1);
-      };
-    },
+    getGlobalConfig,
 
-    registerPreset: (name, preset) => {
-      customPresets.set(name, preset);
-    },
+    getActiveModals,
 
-    unregisterPreset: (name) => {
-      customPresets.delete(name);
-    },
+    modal,
+  };
+}
 
-    getConfig: () => ({ ...globalPluginConfig }),
+/**
+ * Remove everything a plugin registered
+ */
+function releasePlugin(pluginName: string): void {
+  removePluginHooks(pluginName);
+
+  const resources = pluginResources.get(pluginName);
+  if (resources) {
+    resources.presets.forEach(name => customPresets.delete(name));
+    resources.validators.forEach(name => unregisterValidator(name));
+    resources.fieldTypes.forEach(type => unregisterFieldRenderer(type));
+  }
 
-    setConfig: (config) => {
-      globalPluginConfig = { ...globalPluginConfig, ...config };
-    },
-  };
+  pluginResources.delete(pluginName);
+  pluginConfigs.delete(pluginName);
 }
 
 // ============================================================================
@@ -165,15 +202,34 @@ function createPluginContext(): PluginContext {
 
 /**
  * Install a plugin
+ * @param config - Overrides merged over the plugin's `defaultConfig`
  */
-export async function use(plugin: Plugin): Promise<void> {
+export async function use<TConfig extends object>(
+  plugin: Plugin<TConfig>,
+  config?: Partial<TConfig>
+): Promise<void> {
   if (installedPlugins.has(plugin.name)) {
     console.warn(`Plugin "${plugin.name}" is already installed`);
     return;
   }
 
-  const context = createPluginContext();
-  await plugin.install(context);
+  const missing = (plugin.dependencies || []).filter(dep => !installedPlugins.has(dep));
+  if (missing.length > 0) {
+    throw new Error(
+      `Plugin "${plugin.name}" requires ${missing.map(dep => `"${dep}"`).join(', ')} to be installed first`
+    );
+  }
+
+  pluginConfigs.set(plugin.name, { ...plugin.defaultConfig, ...config });
+  pluginResources.set(plugin.name, { presets: new Set(), validators: new Set(), fieldTypes: new Set() });
+
+  const context = createPluginContext(plugin);
+  try {
+    await plugin.install(context);
+  } catch (error) {
+    releasePlugin(plugin.name);
+    throw error;
+  }
   installedPlugins.set(plugin.name, plugin);
 }
 
@@ -184,10 +240,18 @@ export async function unuse(pluginName: string): Promise<boolean> {
   const plugin = installedPlugins.get(pluginName);
   if (!plugin) return false;
 
+  const dependents = Array.from(installedPlugins.values())
+    .filter(p => p.dependencies?.includes(pluginName))
+    .map(p => `"${p.name}"`);
+  if (dependents.length > 0) {
+    throw new Error(`Plugin "${pluginName}" is required by ${dependents.join(', ')}`);
+  }
+
   if (plugin.uninstall) {
     await plugin.uninstall();
   }
 
+  releasePlugin(pluginName);
   installedPlugins.delete(pluginName);
   return true;
 }
@@ -207,68 +271,114 @@ export function getInstalledPlugins(): string[] {
 }
 
 /**
- * Get a custom preset by name
+ * Get an installed plugin's configuration
  */
-export function getPreset(name: string): PresetConfig | undefined {
-  return customPresets.get(name);
+export function getPluginConfig<C extends object = Record<string, any>>(pluginName: string): C | undefined {
+  const config = pluginConfigs.get(pluginName);
+  return config ? ({ ...config } as C) : undefined;
 }
 
-// ============================================================================
-// Hook Execution (used internally by modal)
-// ============================================================================
-
 /**
- * Execute all beforeOpen hooks
+ * Merge values into an installed plugin's configuration
  */
-export async function executeBeforeOpenHooks(options: ModalOptions): Promise<ModalOptions | false> {
-  let currentOptions = options;
-
-  for (const hook of beforeOpenHooks) {
-    const result = await hook(currentOptions);
-    if (result === false) return false;
-    if (result) currentOptions = result;
+export function setPluginConfig<C extends object = Record<string, any>>(pluginName: string, config: Partial<C>): void {
+  const current = pluginConfigs.get(pluginName);
+  if (!current) {
+    console.warn(`Plugin "${pluginName}" is not installed`);
+    return;
   }
+  pluginConfigs.set(pluginName, { ...current, ...config });
+}
 
-  return currentOptions;
+/**
+ * Get a custom preset by name
+ */
+export function getPreset(name: string): PresetConfig | undefined {
+  return customPresets.get(name);
 }
 
 /**
- * Execute all afterOpen hooks
+ * Open a modal from a registered preset
+ *
+ * Options are layered as: global defaults < `preset.options` < `preset.transform(input)`.
+ * Without a `transform`, a string input becomes the modal text and an object
+ * input is used as option overrides.
+ * @example
+ * const result = await preset('deleteUser', { name: 'Ada' });
+ * if (result.confirmed) { ... }
  */
-export function executeAfterOpenHooks(instance: ModalInstance): void {
-  for (const hook of afterOpenHooks) {
-    hook(instance);
+export async function preset<K extends string>(
+  name: K,
+  input?: PresetInput<K>
+): Promise<ModalResult<PresetValue<K>>> {
+  const config = customPresets.get(name);
+  if (!config) {
+    throw new Error(`Unknown preset: ${name}`);
+  }
+
+  let overrides: Partial<ModalOptions> = {};
+  if (config.transform) {
+    overrides = config.transform(input);
+  } else if (typeof input === 'string') {
+    overrides = { text: input };
+  } else if (input && typeof input === 'object') {
+    overrides = input;
   }
+
+  return modal<PresetValue<K>>(mergePresetOptions(config.options, overrides));
 }
 
 /**
- * Execute all beforeClose hooks
+ * Create a typed helper for a preset registered elsewhere
  */
-export async function executeBeforeCloseHooks(instance: ModalInstance, result: ModalResult): Promise<boolean> {
-  for (const hook of beforeCloseHooks) {
-    const shouldClose = await hook(instance, result);
-    if (shouldClose === false) return false;
-  }
-  return true;
+export function presetHelper<TInput = any, TValue = any>(name: string): PresetHelper<TInput, TValue> {
+  return (input) => preset(name, input) as Promise<ModalResult<TValue>>;
 }
 
 /**
- * Execute all afterClose hooks
+ * Merge preset option layers, combining nested option groups
  */
-export function executeAfterCloseHooks(result: ModalResult): void {
-  for (const hook of afterCloseHooks) {
-    hook(result);
-  }
+function mergePresetOptions(base: Partial<ModalOptions>, overrides: Partial<ModalOptions>): ModalOptions {
+  const merged: ModalOptions = { ...base, ...overrides };
+
+  // Leave keys unset rather than undefined so global defaults still apply
+  if (base.buttons || overrides.buttons) merged.buttons = { ...base.buttons, ...overrides.buttons };
+  if (base.a11y || overrides.a11y) merged.a11y = { ...base.a11y, ...overrides.a11y };
+  if (base.hooks || overrides.hooks) merged.hooks = { ...base.hooks, ...overrides.hooks };
+
+  return merged;
 }
 
+// ============================================================================
+// Hook Execution (used internally by modal)
+// ============================================================================
+
+export {
+  executeBeforeOpenHooks,
+  executeAfterOpenHooks,
+  executeBeforeCloseHooks,
+  executeAfterCloseHooks,
+} from './hooks';
+
 // ============================================================================
 // Built-in Plugins
 // ============================================================================
 
+export interface AnalyticsStats {
+  openCount: number;
+  confirmCount: number;
+  dismissCount: number;
+}
+
+export interface AnalyticsPluginConfig {
+  /** Read the collected stats (set by the plugin on install) */
+  getAnalytics?: () => AnalyticsStats;
+}
+
 /**
  * Analytics plugin - tracks modal usage
  */
-export const analyticsPlugin: Plugin = {
+export const analyticsPlugin: Plugin<AnalyticsPluginConfig> = {
   name: 'analytics',
   version: '1.0.0',
   install: (context) => {
@@ -292,51 +402,71 @@ export const analyticsPlugin: Plugin = {
   },
 };
 
+export interface SoundPluginConfig {
+  /** Sound URLs keyed by `open`, `confirm` or an icon type */
+  sounds?: Record<string, string>;
+  /** Playback volume between 0 and 1 */
+  soundVolume?: number;
+}
+
 /**
  * Sound effects plugin
  */
-export const soundPlugin: Plugin = {
+export const soundPlugin: Plugin<SoundPluginConfig> = {
   name: 'sound',
   version: '1.0.0',
+  defaultConfig: {
+    sounds: {},
+    soundVolume: 0.5,
+  },
   install: (context) => {
-    const config = context.getConfig();
-    const sounds: Record<string, string> = config.sounds || {};
+    const play = (url: string) => {
+      const audio = new Audio(url);
+      audio.volume = context.getConfig().soundVolume ?? 0.5;
+      audio.play().catch(() => {}); // Ignore autoplay restrictions
+    };
 
     context.registerAfterOpen((instance) => {
-      const soundUrl = sounds.open || sounds[instance.options.icon || 'default'];
-      if (soundUrl) {
-        const audio = new Audio(soundUrl);
-        audio.volume = config.soundVolume || 0.5;
-        audio.play().catch(() => {}); // Ignore autoplay restrictions
-      }
+      const sounds = context.getConfig().sounds || {};
+      const icon = typeof instance.options.icon === 'string' ? instance.options.icon : 'default';
+      const soundUrl = sounds.open || sounds[icon];
+      if (soundUrl) play(soundUrl);
     });
 
     context.registerAfterClose((result) => {
-      if (result.confirmed && sounds.confirm) {
-        const audio = new Audio(sounds.confirm);
-        audio.volume = config.soundVolume || 0.5;
-        audio.play().catch(() => {});
-      }
+      const sounds = context.getConfig().sounds || {};
+      if (result.confirmed && sounds.confirm) play(sounds.confirm);
     });
   },
 };
 
+export interface ConfirmOnClosePluginConfig {
+  /** Prompt before dismissing (default: true) */
+  enabled?: boolean;
+  /** Prompt message */
+  message?: string;
+}
+
 /**
  * Confirm on close plugin - prompts before dismissing
  */
-export const confirmOnClosePlugin: Plugin = {
+export const confirmOnClosePlugin: Plugin<ConfirmOnClosePluginConfig> = {
   name: 'confirmOnClose',
   version: '1.0.0',
+  defaultConfig: {
+    enabled: true,
+    message: 'Are you sure you want to close?',
+  },
   install: (context) => {
-    context.registerBeforeClose(async (instance, result) => {
+    context.registerBeforeClose(async (_instance, result) => {
       // Only prompt for dismissed (not confirmed/denied)
       if (!result.dismissed) return true;
 
       const config = context.getConfig();
-      if (!config.confirmOnClose) return true;
+      if (!config.enabled) return true;
 
       // Use native confirm to avoid infinite loop
-      return window.confirm(config.confirmOnCloseMessage || 'Are you sure you want to close?');
+      return window.confirm(config.message || 'Are you sure you want to close?');
     });
   },
 };
@@ -347,7 +477,7 @@ export const confirmOnClosePlugin: Plugin = {
 export const darkModePlugin: Plugin = {
   name: 'darkMode',
   version: '1.0.0',
-  install: (context) => {
+  install: () => {
     const applyTheme = (isDark: boolean) => {
       document.documentElement.setAttribute('data-swal-theme', isDark ? 'dark' : 'light');
     };
@@ -363,10 +493,17 @@ export const darkModePlugin: Plugin = {
   },
 };
 
+export interface KeyboardPluginConfig {
+  /** Bind a shortcut such as `Ctrl+S` (set by the plugin on install) */
+  addShortcut?: (key: string, handler: () => void) => void;
+  /** Remove a shortcut (set by the plugin on install) */
+  removeShortcut?: (key: string) => void;
+}
+
 /**
  * Keyboard shortcuts plugin
  */
-export const keyboardPlugin: Plugin = {
+export const keyboardPlugin: Plugin<KeyboardPluginConfig> = {
   name: 'keyboard',
   version: '1.0.0',
   install: (context) => {
@@ -426,7 +563,11 @@ export const plugins = {
   unuse,
   isPluginInstalled,
   getInstalledPlugins,
+  getPluginConfig,
+  setPluginConfig,
   getPreset,
+  preset,
+  presetHelper,
   // Built-in plugins
   analytics: analyticsPlugin,
   sound: soundPlugin,
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { signatureToSVG } from '../../../src/form/fields/signature';
+import type { SignatureStroke } from '../../../src/core/types';
+
+const dot = (color: string): SignatureStroke => ({ color, points: [{ x: 10, y: 20, pressure: 0.5, time: 0 }] });
+const line = (color: string): SignatureStroke => ({
+  color,
+  points: [
+    { x: 0, y: 0, pressure: 0.5, time: 0 },
+    { x: 10, y: 10, pressure: 0.5, time: 10 },
+    { x: 20, y: 0, pressure: 0.5, time: 20 },
+  ],
+});
+
+describe('signatureToSVG', () => {
+  it('renders dots and strokes in their colors', () => {
+    const svg = signatureToSVG([dot('#000'), line('red')], { width: 100, height: 50, backgroundColor: 'white' });
+    expect(svg).toMatch(/^<svg xmlns="http:\/\/www.w3.org\/2000\/svg" width="100" height="50" viewBox="0 0 100 50">/);
+    expect(svg).toContain('<rect width="100%" height="100%" fill="white"/>');
+    expect(svg).toContain('<circle cx="10" cy="20"');
+    expect(svg).toContain('fill="#000"');
+    expect(svg).toContain('<g fill="none" stroke="red"');
+  });
+
+  it('leaves out a transparent background', () => {
+    expect(signatureToSVG([], { width: 1, height: 1, backgroundColor: 'transparent' })).not.toContain('<rect');
+  });
+
+  it('escapes colors in attributes', () => {
+    const evil = 'red" onload="alert(1)';
+    const svg = signatureToSVG([dot(evil), line(evil)], { width: 1, height: 1, backgroundColor: evil });
+    expect(svg).not.toContain('" onload="');
+    expect(svg).toContain('fill="red&quot; onload=&quot;alert(1)"');
+    expect(svg).toContain('stroke="red&quot; onload=&quot;alert(1)"');
+  });
+});
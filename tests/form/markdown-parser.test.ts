@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { parseMarkdown } from '../../src/form/markdown-parser';
+
+/** Inline markup of a single paragraph */
+const inline = (text: string) => parseMarkdown(text).replace(/^<p>([\s\S]*)<\/p>$/, '$1');
+
+describe('inline markdown', () => {
+  it('wraps text in a paragraph', () => {
+    expect(parseMarkdown('Hello')).toBe('<p>Hello</p>');
+  });
+
+  it('parses emphasis', () => {
+    expect(inline('**bold** and __bold__')).toBe('<strong>bold</strong> and <strong>bold</strong>');
+    expect(inline('*em* and _em_ and ~~gone~~')).toBe('<em>em</em> and <em>em</em> and <del>gone</del>');
+    expect(inline('snake_case_name')).toBe('snake_case_name');
+    expect(inline('2 * 3 * 4')).toBe('2 * 3 * 4');
+  });
+
+  it('escapes HTML', () => {
+    expect(inline('<b onclick="x">&</b>')).toBe('&lt;b onclick=&quot;x&quot;&gt;&amp;&lt;/b&gt;');
+  });
+
+  it('leaves code spans alone', () => {
+    expect(inline('`**a** <b>`')).toBe('<code>**a** &lt;b&gt;</code>');
+    expect(inline('``a ` b``')).toBe('<code>a &#96; b</code>');
+  });
+
+  it('honours backslash escapes', () => {
+    expect(inline('\\*not em\\*')).toBe('*not em*');
+  });
+
+  it('parses links and images', () => {
+    expect(inline('[Docs](https://example.com "Read me")')).toBe('<a href="https://example.com" title="Read me">Docs</a>');
+    expect(inline('![Logo](/logo.png)')).toBe('<img src="/logo.png" alt="Logo">');
+    expect(inline('<https://example.com>')).toBe('<a href="https://example.com">https://example.com</a>');
+  });
+
+  it('keeps emphasis out of link URLs', () => {
+    expect(inline('[a](https://x.com/_b_/)')).toBe('<a href="https://x.com/_b_/">a</a>');
+  });
+
+  it('parses markup inside link text', () => {
+    expect(inline('[**`code`** link](/x)')).toBe('<a href="/x"><strong><code>code</code></strong> link</a>');
+  });
+
+  it('adds hard line breaks', () => {
+    expect(inline('one  \ntwo')).toBe('one<br>\ntwo');
+    expect(inline('one\\\ntwo')).toBe('one<br>\ntwo');
+  });
+
+  it('drops NUL characters instead of reading them as placeholders', () => {
+    expect(inline('a\u00000\u0000b')).toBe('a0b');
+    expect(inline('`x` \u00000\u0000')).toBe('<code>x</code> 0');
+  });
+});
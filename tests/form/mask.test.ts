@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { applyMask, unmask } from '../../src/form/mask';
+
+describe('pattern masks', () => {
+  it('inserts literals between typed characters', () => {
+    expect(applyMask('5551234567', '(999) 999-9999')).toBe('(555) 123-4567');
+    expect(applyMask('555', '(999) 999-9999')).toBe('(555');
+    expect(unmask('(555) 123-4567', '(999) 999-9999')).toBe('5551234567');
+  });
+
+  it('skips characters that do not fit a slot', () => {
+    expect(applyMask('12ab34', '99-99')).toBe('12-34');
+    expect(applyMask('ab12cd', 'AA-99')).toBe('AB-12');
+  });
+
+  it('reformats text that is already masked', () => {
+    expect(applyMask('(555) 123-4567', '(999) 999-9999')).toBe('(555) 123-4567');
+  });
+
+  it('fills untyped slots with the placeholder', () => {
+    expect(applyMask('12', '99/99/9999', '_')).toBe('12/__/____');
+  });
+
+  it('leaves optional sections unfilled', () => {
+    expect(applyMask('12345', '99999[-9999]', '_')).toBe('12345');
+    expect(applyMask('123456789', '99999[-9999]')).toBe('12345-6789');
+  });
+
+  it('treats escaped token characters as literals', () => {
+    expect(applyMask('12', '\\99')).toBe('91');
+    expect(applyMask('12', '\\99-9')).toBe('91-2');
+  });
+
+  it('supports custom tokens', () => {
+    const hex = { pattern: '#######', tokens: { '#': { pattern: /[0-9a-f]/i, transform: 'lower' as const } } };
+    expect(applyMask('FFaa00zz', hex)).toBe('ffaa00');
+    expect(applyMask('x1', { pattern: 'X-9', tokens: { X: /[xyz]/g } })).toBe('x-1');
+  });
+
+  it('picks the shortest dynamic pattern that fits', () => {
+    const cpfOrCnpj = { pattern: ['99.999.999/9999-99', '999.999.999-99'] };
+    expect(applyMask('12345678901', cpfOrCnpj)).toBe('123.456.789-01');
+    expect(applyMask('12345678000199', cpfOrCnpj)).toBe('12.345.678/0001-99');
+    expect(unmask('12.345.678/0001-99', cpfOrCnpj)).toBe('12345678000199');
+  });
+
+  it('asks a pattern function for the pattern', () => {
+    const card = { pattern: (raw: string) => (raw.startsWith('34') ? '9999 999999 99999' : '9999 9999 9999 9999') };
+    expect(applyMask('341234567890123', card)).toBe('3412 345678 90123');
+    expect(applyMask('4111111111111111', card)).toBe('4111 1111 1111 1111');
+  });
+
+  it('keeps empty values and masks as they are', () => {
+    expect(applyMask('', '999')).toBe('');
+    expect(applyMask('abc', '')).toBe('abc');
+  });
+});
+
+describe('number masks', () => {
+  const money = { number: { prefix: '$', decimals: 2, allowNegative: true } };
+
+  it('groups thousands', () => {
+    expect(applyMask('1234567', { number: true })).toBe('1,234,567');
+    expect(unmask('1,234,567', { number: true })).toBe('1234567');
+  });
+
+  it('puts the sign before the prefix', () => {
+    expect(applyMask('-12', money)).toBe('-$12');
+    expect(applyMask('-$12', money)).toBe('-$12');
+    expect(unmask('-$1,234.50', money)).toBe('-1234.50');
+  });
+
+  it('ignores the sign unless negatives are allowed', () => {
+    expect(applyMask('-12', { number: true })).toBe('12');
+  });
+
+  it('limits decimals and keeps a leading zero', () => {
+    expect(applyMask('1.2345', money)).toBe('$1.23');
+    expect(applyMask('.5', money)).toBe('$0.5');
+    expect(unmask('$.5', money)).toBe('0.5');
+    expect(applyMask('1.5', { number: true })).toBe('15');
+  });
+
+  it('drops leading zeros', () => {
+    expect(applyMask('000123', { number: true })).toBe('123');
+    expect(applyMask('000', { number: true })).toBe('0');
+  });
+
+  it('uses custom separators and a suffix', () => {
+    const euro = { number: { thousandsSeparator: '.', decimalSeparator: ',', decimals: 2, suffix: ' €' } };
+    expect(applyMask('1234,5', euro)).toBe('1.234,5 €');
+    expect(unmask('1.234,50 €', euro)).toBe('1234.50');
+  });
+
+  it('accepts a typed period for a comma decimal separator', () => {
+    const spaced = { number: { thousandsSeparator: ' ', decimalSeparator: ',', decimals: 1 } };
+    expect(applyMask('1234.5', spaced)).toBe('1 234,5');
+  });
+});
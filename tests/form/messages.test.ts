@@ -0,0 +1,82 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { formatMessage, registerMessages, setValidationLocale, translateMessage } from '../../src/form/messages';
+
+afterEach(() => setValidationLocale(undefined));
+
+describe('formatMessage', () => {
+  const items = '{count, plural, =0 {No items} one {# item} other {# items}}';
+
+  it('fills in parameters', () => {
+    expect(formatMessage('Hello {name}', { name: 'Ada' }, 'en')).toBe('Hello Ada');
+    expect(formatMessage('{ name }!', { name: 'Ada' }, 'en')).toBe('Ada!');
+  });
+
+  it('picks plural forms, preferring exact matches', () => {
+    expect(formatMessage(items, { count: 0 }, 'en')).toBe('No items');
+    expect(formatMessage(items, { count: 1 }, 'en')).toBe('1 item');
+    expect(formatMessage(items, { count: 5 }, 'en')).toBe('5 items');
+    expect(formatMessage(items, { count: '2' }, 'en')).toBe('2 items');
+  });
+
+  it('falls back to the other form', () => {
+    expect(formatMessage('{n, plural, other {# left}}', { n: 1 }, 'en')).toBe('1 left');
+  });
+
+  it('formats numbers for the locale', () => {
+    expect(formatMessage('{n, plural, one {# Eintrag} other {# Einträge}}', { n: 1234.5 }, 'de')).toBe('1.234,5 Einträge');
+    expect(formatMessage('{size} MB', { size: 1.25 }, 'de')).toBe('1,25 MB');
+  });
+
+  it('fills in parameters inside plural forms', () => {
+    expect(formatMessage('{n, plural, one {# {unit}} other {# {unit}s}}', { n: 3, unit: 'day' }, 'en')).toBe('3 days');
+  });
+
+  it('leaves placeholders without a parameter in place', () => {
+    expect(formatMessage('Hi {name}', {}, 'en')).toBe('Hi {name}');
+    expect(formatMessage('Hi {name}', { name: null }, 'en')).toBe('Hi {name}');
+    expect(formatMessage(items, {}, 'en')).toBe(items);
+    expect(formatMessage(items, { count: 'many' }, 'en')).toBe(items);
+  });
+
+  it('keeps unbalanced braces as text', () => {
+    expect(formatMessage('Use { to open', {}, 'en')).toBe('Use { to open');
+    expect(formatMessage('a } b {x', { x: 1 }, 'en')).toBe('a } b {x');
+  });
+});
+
+describe('translateMessage', () => {
+  it('uses English by default', () => {
+    expect(translateMessage('minLength', { min: 1 })).toBe('Must be at least 1 character');
+  });
+
+  it('uses the configured locale and falls back to its language', () => {
+    setValidationLocale('de-CH');
+    expect(translateMessage('required')).toBe('Dieses Feld ist erforderlich');
+  });
+
+  it('falls back to English, then to the key', () => {
+    setValidationLocale('fr');
+    expect(translateMessage('required')).toBe('This field is required');
+    expect(translateMessage('noSuchMessage')).toBe('noSuchMessage');
+  });
+
+  it('falls back to English for invalid locales', () => {
+    setValidationLocale('not a locale');
+    expect(translateMessage('required')).toBe('This field is required');
+  });
+
+  it('prefers registered messages for the exact locale', () => {
+    registerMessages('de-AT', { required: 'Pflichtfeld' });
+    setValidationLocale('de-AT');
+    expect(translateMessage('required')).toBe('Pflichtfeld');
+    expect(translateMessage('email')).toBe('Bitte geben Sie eine gültige E-Mail-Adresse ein');
+  });
+
+  it('merges registered messages into an existing catalog', () => {
+    registerMessages('FR', { required: 'Champ obligatoire' });
+    registerMessages('fr', { email: 'Adresse invalide' });
+    setValidationLocale('fr');
+    expect(translateMessage('required')).toBe('Champ obligatoire');
+    expect(translateMessage('email')).toBe('Adresse invalide');
+  });
+});
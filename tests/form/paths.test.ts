@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { cloneData, deletePath, formatPath, getPath, parsePath, pathsOverlap, setPath } from '../../src/form/paths';
+
+describe('parsePath / formatPath', () => {
+  it('splits keys and array indexes', () => {
+    expect(parsePath('items[0].qty')).toEqual(['items', 0, 'qty']);
+    expect(parsePath('a.b[12][3]')).toEqual(['a', 'b', 12, 3]);
+  });
+
+  it('joins them back', () => {
+    expect(formatPath(['items', 0, 'qty'])).toBe('items[0].qty');
+    expect(formatPath([])).toBe('');
+  });
+
+  it('rejects keys that reach into prototypes', () => {
+    expect(() => parsePath('__proto__.polluted')).toThrow('Invalid field path');
+    expect(() => parsePath('a.constructor.prototype')).toThrow('Invalid field path');
+    expect(() => parsePath('items[0].__proto__')).toThrow('Invalid field path');
+  });
+});
+
+describe('getPath', () => {
+  const data = { 'a.b': 'flat', a: { b: 'nested' }, items: [{ qty: 2 }], name: 'Ada' };
+
+  it('reads nested values and array items', () => {
+    expect(getPath(data, 'items[0].qty')).toBe(2);
+    expect(getPath(data, 'items[1].qty')).toBeUndefined();
+    expect(getPath(data, 'missing.deep')).toBeUndefined();
+  });
+
+  it('prefers flat keys', () => {
+    expect(getPath(data, 'a.b')).toBe('flat');
+  });
+
+  it('ignores inherited members', () => {
+    expect(getPath({}, 'toString')).toBeUndefined();
+    expect(getPath(data, 'a.hasOwnProperty')).toBeUndefined();
+    expect(getPath(data, 'name.length')).toBeUndefined();
+  });
+});
+
+describe('setPath', () => {
+  it('creates objects and arrays along the way', () => {
+    const data: Record<string, any> = {};
+    setPath(data, 'address.city', 'Oslo');
+    setPath(data, 'items[1].qty', 3);
+    expect(data).toEqual({ address: { city: 'Oslo' }, items: [undefined, { qty: 3 }] });
+    expect(Array.isArray(data.items)).toBe(true);
+  });
+
+  it('writes flat keys that already exist', () => {
+    const data: Record<string, any> = { 'a.b': 1 };
+    setPath(data, 'a.b', 2);
+    expect(data).toEqual({ 'a.b': 2 });
+  });
+
+  it('replaces inherited members with own values', () => {
+    const data: Record<string, any> = {};
+    setPath(data, 'toString.x', 1);
+    expect(data).toEqual({ toString: { x: 1 } });
+    expect(({} as any).x).toBeUndefined();
+  });
+
+  it('never writes to Object.prototype', () => {
+    expect(() => setPath({}, '__proto__.polluted', true)).toThrow();
+    expect(() => setPath({}, 'constructor.prototype.polluted', true)).toThrow();
+    expect(({} as any).polluted).toBeUndefined();
+  });
+});
+
+describe('deletePath', () => {
+  it('removes nested and flat keys', () => {
+    const data: Record<string, any> = { 'a.b': 1, a: { b: 2, c: 3 } };
+    deletePath(data, 'a.b');
+    deletePath(data, 'a.c');
+    deletePath(data, 'missing.key');
+    expect(data).toEqual({ a: { b: 2 } });
+  });
+
+  it('rejects keys that reach into prototypes', () => {
+    expect(() => deletePath({}, '__proto__.toString')).toThrow();
+    expect(typeof ({} as any).toString).toBe('function');
+  });
+});
+
+describe('pathsOverlap', () => {
+  it('matches a path and the paths inside it', () => {
+    expect(pathsOverlap('address', 'address.city')).toBe(true);
+    expect(pathsOverlap('items[0]', 'items.0.qty')).toBe(true);
+    expect(pathsOverlap('address.city', 'address.zip')).toBe(false);
+  });
+});
+
+describe('cloneData', () => {
+  it('copies plain objects and arrays deeply and shares other values', () => {
+    const date = new Date();
+    const source = { a: { b: [1, { c: 2 }] }, date };
+    const copy = cloneData(source);
+    expect(copy).toEqual(source);
+    expect(copy.a).not.toBe(source.a);
+    expect(copy.a.b[1]).not.toBe(source.a.b[1]);
+    expect(copy.date).toBe(date);
+  });
+});
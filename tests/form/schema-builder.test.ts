@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { schema } from '../../src/form/schema-builder';
+import type { StandardSchema } from '../../src/core/types';
+
+async function issues(target: StandardSchema<unknown>, value: unknown) {
+  const result = await target['~standard'].validate(value);
+  return 'issues' in result && result.issues ? result.issues.map(({ message, path }) => ({ message, path })) : [];
+}
+
+describe('schema', () => {
+  it('returns the value when it is valid', async () => {
+    const result = await schema.string()['~standard'].validate('ok');
+    expect(result).toEqual({ value: 'ok' });
+  });
+
+  it('requires values unless optional', async () => {
+    expect(await issues(schema.string(), '')).toEqual([{ message: 'This field is required', path: [] }]);
+    expect(await issues(schema.string().optional(), undefined)).toEqual([]);
+  });
+
+  it('checks types before constraints', async () => {
+    expect(await issues(schema.string().min(3), 12)).toEqual([{ message: 'Must be text', path: [] }]);
+    expect(await issues(schema.boolean(), 'yes')).toEqual([{ message: 'Must be true or false', path: [] }]);
+    expect(await issues(schema.oneOf(['a', 'b']), 'c')).toEqual([{ message: 'Must be one of: a, b', path: [] }]);
+  });
+
+  it('reports the first failing check with its message', async () => {
+    const name = schema.string().min(2).max(4, 'At most {max}, got {actual}');
+    expect(await issues(name, 'a')).toEqual([{ message: 'Must be at least 2 characters', path: [] }]);
+    expect(await issues(name, 'abcdef')).toEqual([{ message: 'At most 4, got 6', path: [] }]);
+    expect(await issues(schema.string().email(), 'a@b')).toEqual([{ message: 'Please enter a valid email address', path: [] }]);
+    expect(await issues(schema.string().url(), 'https://example.com')).toEqual([]);
+  });
+
+  it('accepts numbers typed as strings', async () => {
+    const quantity = schema.number().integer().min(1).max(10);
+    expect(await issues(quantity, '5')).toEqual([]);
+    expect(await issues(quantity, '2.5')).toEqual([{ message: 'Must be a whole number', path: [] }]);
+    expect(await issues(quantity, 'many')).toEqual([{ message: 'Must be a number', path: [] }]);
+    expect(await issues(quantity, 11)).toEqual([{ message: 'Value must be at most 10', path: [] }]);
+  });
+
+  it('outputs numbers typed as strings as numbers', async () => {
+    expect(await schema.number()['~standard'].validate('5')).toEqual({ value: 5 });
+    const order = schema.object({ note: schema.string(), items: schema.array(schema.object({ qty: schema.number() })) });
+    expect(await order['~standard'].validate({ note: 'x', items: [{ qty: '2' }], extra: true }))
+      .toEqual({ value: { note: 'x', items: [{ qty: 2 }], extra: true } });
+  });
+
+  it('treats blank numbers as empty', async () => {
+    expect(await issues(schema.number(), '   ')).toEqual([{ message: 'This field is required', path: [] }]);
+    expect(await schema.number().optional()['~standard'].validate(' ')).toEqual({ value: undefined });
+  });
+
+  it('reports nested issues by path', async () => {
+    const order = schema.object({
+      email: schema.string().email(),
+      items: schema.array(schema.object({ title: schema.string(), qty: schema.number().min(1) })).min(1),
+    });
+    expect(await issues(order, { email: 'a@b.co', items: [{ title: 'A', qty: 0 }, { qty: 2 }] })).toEqual([
+      { message: 'Value must be at least 1', path: ['items', 0, 'qty'] },
+      { message: 'This field is required', path: ['items', 1, 'title'] },
+    ]);
+    expect(await issues(order, { email: 'a@b.co', items: [] })).toEqual([{ message: 'Add at least 1 item', path: ['items'] }]);
+    expect(await issues(order, [])).toEqual([{ message: 'Must be an object', path: [] }]);
+  });
+
+  it('runs refinements once the shape is valid, on their path', async () => {
+    const passwords = schema
+      .object({ password: schema.string(), confirm: schema.string() })
+      .refine(value => value.password === value.confirm, 'Passwords differ', ['confirm']);
+    expect(await issues(passwords, { password: 'a', confirm: 'b' })).toEqual([{ message: 'Passwords differ', path: ['confirm'] }]);
+    expect(await issues(passwords, { password: 'a' })).toEqual([{ message: 'This field is required', path: ['confirm'] }]);
+  });
+
+  it('keeps earlier schemas unchanged when adding checks', async () => {
+    const base = schema.string();
+    base.min(5);
+    expect(await issues(base, 'ab')).toEqual([]);
+  });
+
+  it('rejects nested schemas from elsewhere', async () => {
+    const foreign = { '~standard': { version: 1, vendor: 'other', validate: (value: unknown) => ({ value }) } } as any;
+    await expect(async () => schema.array(foreign)['~standard'].validate([1])).rejects.toThrow('schema builder');
+  });
+});
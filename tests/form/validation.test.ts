@@ -0,0 +1,158 @@
+import { describe, it, expect } from 'vitest';
+import { validateForm, validateField, validateFieldMessages } from '../../src/form/validation';
+import { schema } from '../../src/form/schema-builder';
+import type { FormField, FormRule } from '../../src/core/types';
+
+const text = (name: string, extra: Partial<FormField> = {}) => ({ name, type: 'text', ...extra }) as FormField;
+
+const lineItems = {
+  name: 'items',
+  type: 'array',
+  fields: [text('title', { required: true }), text('qty', { validation: { rules: [{ type: 'min', value: 1 }] } })],
+} as FormField;
+
+describe('validateField', () => {
+  it('checks required before the rules', async () => {
+    const field = text('name', { required: true, validation: { rules: [{ type: 'minLength', value: 3 }] } });
+    expect(await validateField('', field, {})).toBe('This field is required');
+    expect(await validateField('ab', field, {})).toBe('Must be at least 3 characters');
+    expect(await validateField('abc', field, {})).toBeNull();
+  });
+
+  it('interpolates rule message templates', async () => {
+    const field = text('bio', {
+      label: 'Bio',
+      validation: { rules: [{ type: 'maxLength', value: 3, message: '{label} is {actual} of {max}' }] },
+    });
+    expect(await validateField('abcde', field, {})).toBe('Bio is 5 of 3');
+  });
+});
+
+describe('validateFieldMessages', () => {
+  const field = text('password', {
+    validation: {
+      rules: [
+        { type: 'minLength', value: 12, severity: 'warning', message: 'Short' },
+        { type: 'minLength', value: 20, severity: 'info', message: 'Longer is better' },
+        { type: 'minLength', value: 4 },
+      ],
+    },
+  });
+
+  it('collects warnings and info without an error', async () => {
+    expect(await validateFieldMessages('secret', field, {}))
+      .toEqual({ error: null, warning: 'Short', info: 'Longer is better' });
+  });
+
+  it('drops warnings once an error rule fails', async () => {
+    expect(await validateFieldMessages('abc', field, {}))
+      .toEqual({ error: 'Must be at least 4 characters', warning: null, info: null });
+  });
+});
+
+describe('validateForm', () => {
+  it('keys array item errors by item path', async () => {
+    const result = await validateForm({ items: [{ title: 'A', qty: 2 }, { title: '', qty: 0 }] }, [lineItems]);
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual({
+      'items[1].title': 'This field is required',
+      'items[1].qty': 'Value must be at least 1',
+    });
+  });
+
+  it('checks array item counts', async () => {
+    const field = { ...lineItems, minItems: 2 } as FormField;
+    const result = await validateForm({ items: [{ title: 'A' }] }, [field]);
+    expect(result.errors).toEqual({ items: 'Add at least 2 items' });
+  });
+
+  it('skips hidden fields', async () => {
+    const fields = [
+      text('kind'),
+      text('company', { required: true, showWhen: { field: 'kind', equals: 'business' } }),
+    ];
+    expect((await validateForm({ kind: 'private' }, fields)).valid).toBe(true);
+    expect((await validateForm({ kind: 'business' }, fields)).errors).toEqual({ company: 'This field is required' });
+  });
+
+  it('reports warnings and info without failing', async () => {
+    const items = {
+      name: 'items',
+      type: 'array',
+      fields: [text('qty', { validation: { rules: [{ type: 'max', value: 5, severity: 'info', message: 'Bulk' }] } })],
+    } as FormField;
+    const fields = [text('nick', { validation: { rules: [{ type: 'maxLength', value: 3, severity: 'warning' }] } }), items];
+    const result = await validateForm({ nick: 'abcd', items: [{ qty: 9 }] }, fields);
+    expect(result.valid).toBe(true);
+    expect(result.warnings).toEqual({ nick: 'Must be at most 3 characters' });
+    expect(result.info).toEqual({ 'items[0].qty': 'Bulk' });
+  });
+
+  describe('with a schema', () => {
+    const formSchema = schema.object({
+      email: schema.string().email(),
+      items: schema.array(schema.object({ title: schema.string() })),
+    });
+    const fields = [text('email', { required: true }), { ...lineItems, fields: [text('title')] } as FormField];
+
+    it('passes valid data, including array items', async () => {
+      const result = await validateForm({ email: 'a@b.co', items: [{ title: 'A' }] }, fields, { schema: formSchema });
+      expect(result).toMatchObject({ valid: true, errors: {} });
+    });
+
+    it('adds schema issues by path', async () => {
+      const result = await validateForm({ email: 'nope', items: [{}] }, fields, { schema: formSchema });
+      expect(result.errors).toEqual({
+        email: 'Please enter a valid email address',
+        'items[0].title': 'This field is required',
+      });
+    });
+
+    it('keeps field errors over schema issues', async () => {
+      const result = await validateForm({ email: '', items: [] }, fields, { schema: formSchema });
+      expect(result.errors.email).toBe('This field is required');
+    });
+
+    it('ignores issues of hidden fields', async () => {
+      const hidden = [text('email', { showWhen: { field: 'items', empty: false } }), fields[1]];
+      const result = await validateForm({ items: [] }, hidden, { schema: formSchema });
+      expect(result.valid).toBe(true);
+    });
+  });
+
+  describe('with cross-field rules', () => {
+    const fields = [text('start'), text('end'), lineItems];
+    const order: FormRule = {
+      dependsOn: ['start', 'end'],
+      target: 'end',
+      message: 'End must be after start',
+      validate: ({ start, end }) => !start || !end || end > start,
+    };
+
+    it('reports a failed rule on its target', async () => {
+      const result = await validateForm({ start: 5, end: 3, items: [] }, fields, { rules: [order] });
+      expect(result.errors).toEqual({ end: 'End must be after start' });
+    });
+
+    it('passes when the rule holds', async () => {
+      expect((await validateForm({ start: 1, end: 3, items: [] }, fields, { rules: [order] })).valid).toBe(true);
+    });
+
+    it('runs rules once for the whole form, not per array item', async () => {
+      let runs = 0;
+      const counted: FormRule = { validate: () => { runs++; return true; } };
+      await validateForm({ items: [{ title: 'A' }, { title: 'B' }] }, fields, { rules: [counted] });
+      expect(runs).toBe(1);
+    });
+
+    it('supports path-keyed results and form-level messages', async () => {
+      const rules: FormRule[] = [
+        { validate: () => ({ 'items[0].title': 'Taken' }) },
+        { validate: async () => 'Something is off' },
+      ];
+      const result = await validateForm({ items: [{ title: 'A' }] }, fields, { rules });
+      expect(result.errors).toEqual({ 'items[0].title': 'Taken', '': 'Something is off' });
+    });
+  });
+});
+